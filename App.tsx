@@ -1,29 +1,108 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Dashboard } from './components/Dashboard';
 import { SidebarChat } from './components/SidebarChat';
 import { AddAssetModal } from './components/AddAssetModal';
-import { StockAsset, AISource } from './types';
-import { updateMarketPrices } from './services/geminiService';
+import { UndoToast } from './components/UndoToast';
+import { ImportExportModal } from './components/ImportExportModal';
+import { TaxReportModal } from './components/TaxReportModal';
+import { StockAsset, AISource, Ledger, Transaction, TransactionType, PortfolioHistoryItem, PriceHistory, Currency, FxRates, Exchange, AlertRule, AlertEvent, HoldingAction, Portfolio, PortfolioKind, PortfolioMap, Instrument } from './types';
+import { marketDataProvider } from './services/marketData';
+import { config } from './config';
+import { STORAGE_KEYS, isStorageAvailable } from './services/storageService';
+import { addTransaction, deriveHoldings, normalizeTicker, summarizeHoldings } from './services/ledgerService';
+import { recordFxRates, recordPrices, recordSnapshot } from './services/historyService';
+import { computePerformanceSeries } from './services/performanceService';
+import { validateQuote, applyQuoteCheck, filterPlausibleFxRates, parseQuote, QuoteCheck } from './services/priceValidationService';
+import { DEFAULT_FX_RATES, FOREIGN_CURRENCIES, fxPairSymbol, mergeFxRates } from './services/currencyService';
+import { applyHoldingAction, validateHoldingAction } from './services/holdingService';
+import { ImportRow, applyImport } from './services/importService';
+import {
+  ALL_PORTFOLIOS,
+  DEFAULT_PORTFOLIOS,
+  DEFAULT_PORTFOLIO_ID,
+  aggregateHoldings,
+  combineSnapshots,
+  countsTowardTotal,
+  createPortfolio,
+  holdingsOf,
+  updatePortfolioEntry,
+} from './services/portfolioService';
+import { evaluateAlerts, AlertContext } from './services/alertService';
+import { BENCHMARKS, BENCHMARK_IDS } from './services/benchmarkService';
+import { showNotification } from './services/notificationService';
+import { assetExchange } from './services/marketHoursService';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useStockIcons } from './hooks/useStockIcons';
+import { useRefreshScheduler } from './hooks/useRefreshScheduler';
+import { toDateKey } from './utils/date';
 
-// Initial mock data
-const MOCK_ASSETS: StockAsset[] = [
+// Sample portfolio seeded in demo mode
+const DEMO_ASSETS: StockAsset[] = [
   {
     id: 'initial-itub',
     ticker: 'ITUB',
     companyName: 'Itau Unibanco Holding',
-    quantity: 1,
-    avgPrice: 7.52,
+    currency: Currency.USD,
+    exchange: Exchange.NYSE,
     currentPrice: 7.52,
     source: AISource.GEMINI,
     lastUpdated: Date.now()
   }
 ];
 
+const DEMO_LEDGER: Ledger = {
+  ITUB: [
+    {
+      id: 'initial-itub-buy',
+      ticker: 'ITUB',
+      type: TransactionType.BUY,
+      date: toDateKey(),
+      quantity: 1,
+      price: 7.52,
+      createdAt: Date.now()
+    }
+  ]
+};
+
+const benchmarkInstruments = BENCHMARK_IDS.map(id => BENCHMARKS[id].instrument);
+
+// Providers don't always match the ticker's case
+const quotedPrice = (prices: Record<string, unknown>, ticker: string) =>
+  Object.entries(prices).find(([t]) => t.toUpperCase() === ticker.toUpperCase())?.[1];
+
+// Oldest inbox entries are dropped beyond this
+const MAX_ALERT_EVENTS = 200;
+
+// A removed holding kept in memory so the delete can be undone
+interface DeletedHolding {
+  portfolioId: string;
+  asset: StockAsset;
+  transactions: Transaction[];
+  index: number;
+}
+
 const App: React.FC = () => {
-  const [assets, setAssets] = useState<StockAsset[]>(MOCK_ASSETS);
+  const [portfolios, setPortfolios, isPortfoliosHydrated] = usePersistentState<Portfolio[]>(STORAGE_KEYS.PORTFOLIOS, DEFAULT_PORTFOLIOS);
+  const [activePortfolioId, setActivePortfolioId] = usePersistentState<string>(STORAGE_KEYS.ACTIVE_PORTFOLIO, DEFAULT_PORTFOLIO_ID);
+  const [assetsByPortfolio, setAssetsByPortfolio, isAssetsHydrated] = usePersistentState<PortfolioMap<StockAsset[]>>(
+    STORAGE_KEYS.ASSETS,
+    { [DEFAULT_PORTFOLIO_ID]: config.demoMode ? DEMO_ASSETS : [] }
+  );
+  const [ledgers, setLedgers, isLedgerHydrated] = usePersistentState<PortfolioMap<Ledger>>(
+    STORAGE_KEYS.LEDGER,
+    { [DEFAULT_PORTFOLIO_ID]: config.demoMode ? DEMO_LEDGER : {} }
+  );
+  const [historyByPortfolio, setHistoryByPortfolio] = usePersistentState<PortfolioMap<PortfolioHistoryItem[]>>(STORAGE_KEYS.PORTFOLIO_HISTORY, {});
+  const [priceHistory, setPriceHistory] = usePersistentState<PriceHistory>(STORAGE_KEYS.PRICE_HISTORY, {});
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const [usdJpyRate, setUsdJpyRate] = useState<number>(154.5);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isTaxReportOpen, setIsTaxReportOpen] = useState(false);
+  const [fxRates, setFxRates, isRateHydrated] = usePersistentState<FxRates>(STORAGE_KEYS.FX_RATES, DEFAULT_FX_RATES);
+  const [baseCurrency, setBaseCurrency] = usePersistentState<Currency>(STORAGE_KEYS.BASE_CURRENCY, Currency.USD);
   const [isRefreshingMarket, setIsRefreshingMarket] = useState(false);
+  const [alertRules, setAlertRules] = usePersistentState<AlertRule[]>(STORAGE_KEYS.ALERT_RULES, []);
+  const [alertEvents, setAlertEvents] = usePersistentState<AlertEvent[]>(STORAGE_KEYS.ALERT_EVENTS, []);
+  const [deletedHolding, setDeletedHolding] = useState<DeletedHolding | null>(null);
 
   // Mobile layout state check
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
@@ -34,82 +113,409 @@ const App: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Auto refresh on mount
+  // Stored data that failed to migrate is left untouched, and nothing is saved until a reload migrates it
+  const [isStorageClosed, setIsStorageClosed] = useState(false);
   useEffect(() => {
-    handleRefreshMarketData();
+    isStorageAvailable().then(available => setIsStorageClosed(!available));
   }, []);
 
-  const handleAddAsset = (asset: StockAsset) => {
-    setAssets(prev => [...prev, asset]);
+  // The selected portfolio, or undefined in the all-accounts view
+  const activePortfolio = portfolios.find(p => p.id === activePortfolioId);
+  const isAllAccounts = !activePortfolio;
+  const portfolioId = activePortfolio?.id ?? ALL_PORTFOLIOS;
+
+  // Assets and ledger of the selected portfolio; the handlers below only ever change one portfolio
+  const assets = useMemo(() => assetsByPortfolio[portfolioId] ?? [], [assetsByPortfolio, portfolioId]);
+  const ledger = useMemo(() => ledgers[portfolioId] ?? {}, [ledgers, portfolioId]);
+  const setAssets = (update: React.SetStateAction<StockAsset[]>) =>
+    setAssetsByPortfolio(prev => updatePortfolioEntry(prev, portfolioId, update, []));
+  const setLedger = (update: React.SetStateAction<Ledger>) =>
+    setLedgers(prev => updatePortfolioEntry(prev, portfolioId, update, {}));
+
+  const holdings = useMemo(
+    () => isAllAccounts ? aggregateHoldings(portfolios, assetsByPortfolio, ledgers) : deriveHoldings(assets, ledger),
+    [isAllAccounts, portfolios, assetsByPortfolio, ledgers, assets, ledger]
+  );
+  const portfolioHistory = useMemo(
+    () => isAllAccounts
+      ? combineSnapshots(portfolios.filter(countsTowardTotal).map(p => historyByPortfolio[p.id] ?? []))
+      : historyByPortfolio[portfolioId] ?? [],
+    [isAllAccounts, portfolios, historyByPortfolio, portfolioId]
+  );
+  // Replaying the ledger day by day is the costliest derivation, so the panels share one result
+  const performance = useMemo(
+    () => computePerformanceSeries(holdings, priceHistory, fxRates, baseCurrency),
+    [holdings, priceHistory, fxRates, baseCurrency]
+  );
+  const holdingsByPortfolio = useMemo(
+    () => Object.fromEntries(portfolios.map(p => [p.id, holdingsOf(p, assetsByPortfolio, ledgers)])),
+    [portfolios, assetsByPortfolio, ledgers]
+  );
+  const portfolioSummaries = useMemo(
+    () => Object.fromEntries(portfolios.map(p => [p.id, summarizeHoldings(holdingsByPortfolio[p.id], fxRates, baseCurrency)])),
+    [portfolios, holdingsByPortfolio, fxRates, baseCurrency]
+  );
+
+  // Every asset across portfolios; market data is fetched for all of them at once
+  const allAssets = useMemo(() => portfolios.flatMap(p => assetsByPortfolio[p.id] ?? []), [portfolios, assetsByPortfolio]);
+  const updateAllAssets = (update: (asset: StockAsset) => StockAsset) =>
+    setAssetsByPortfolio(prev => Object.fromEntries(Object.entries(prev).map(([id, list]) => [id, list.map(update)])));
+  // An asset's transactions, from the ledger of the portfolio that holds it
+  const transactionsOf = (asset: StockAsset): Transaction[] => {
+    const portfolio = portfolios.find(p => assetsByPortfolio[p.id]?.some(a => a.id === asset.id));
+    return portfolio ? ledgers[portfolio.id]?.[normalizeTicker(asset.ticker)] ?? [] : [];
+  };
+
+  const handleAddPortfolio = (name: string, kind: PortfolioKind) => {
+    const portfolio = createPortfolio(name, kind);
+    setPortfolios(prev => [...prev, portfolio]);
+    setActivePortfolioId(portfolio.id);
+  };
+
+  const handleRenamePortfolio = (id: string, name: string) => {
+    setPortfolios(prev => prev.map(p => p.id === id ? { ...p, name: name.trim() || p.name } : p));
+  };
+
+  // Only empty portfolios can be removed, and at least one always remains; returns an error message when rejected
+  const handleDeletePortfolio = (id: string): string | null => {
+    const hasData = (assetsByPortfolio[id] ?? []).length > 0 || Object.keys(ledgers[id] ?? {}).length > 0;
+    if (hasData) return '銘柄や取引が残っている口座は削除できません。';
+    if (portfolios.length <= 1) return '最後の口座は削除できません。';
+    setPortfolios(prev => prev.filter(p => p.id !== id));
+    const drop = <T,>(map: PortfolioMap<T>) => Object.fromEntries(Object.entries(map).filter(([key]) => key !== id));
+    setAssetsByPortfolio(drop);
+    setLedgers(drop);
+    setHistoryByPortfolio(drop);
+    if (activePortfolioId === id) setActivePortfolioId(portfolios.find(p => p.id !== id)!.id);
+    return null;
+  };
+
+  // Buying a ticker that is already held only adds to its ledger; the existing row is kept.
+  const handleAddAsset = (asset: StockAsset, transaction: Transaction) => {
+    const ticker = normalizeTicker(asset.ticker);
+    setAssets(prev => {
+      const existing = prev.find(a => normalizeTicker(a.ticker) === ticker);
+      if (!existing) return [...prev, { ...asset, ticker }];
+      // Keep the first recorded rationale, but fill it in if the holding had none
+      return existing.pick || !asset.pick ? prev : prev.map(a => a === existing ? { ...a, pick: asset.pick } : a);
+    });
+    setLedger(prev => addTransaction(prev, transaction));
+  };
+
+  // Trades read from receipts. Tickers that are not held yet become new assets.
+  const handleAddTrades = (rows: ImportRow[], source: AISource) => {
+    const next = applyImport(assets, ledger, rows, source);
+    setAssets(next.assets);
+    setLedger(next.ledger);
+  };
+
+  // Edit, sell or delete from the dashboard or chat. Returns an error message if the action was rejected.
+  // Chat confirmations pass the portfolio they were shown for, which may no longer be the selected one.
+  const handleHoldingAction = (action: HoldingAction, targetId: string = portfolioId): string | null => {
+    if (targetId === ALL_PORTFOLIOS) return '全口座の表示中は変更できません。口座を選択してください。';
+    if (!portfolios.some(p => p.id === targetId)) return '対象の口座が見つかりません。';
+    const error = validateHoldingAction(holdingsByPortfolio[targetId] ?? [], action);
+    if (error) return error;
+
+    if (action.type === 'delete') {
+      const ticker = normalizeTicker(action.ticker);
+      const targetAssets = assetsByPortfolio[targetId] ?? [];
+      const index = targetAssets.findIndex(a => normalizeTicker(a.ticker) === ticker);
+      setDeletedHolding({ portfolioId: targetId, asset: targetAssets[index], transactions: ledgers[targetId]?.[ticker] ?? [], index });
+    }
+    // Applied to the latest state, since chat actions land after other updates in the same reply
+    setAssetsByPortfolio(prev => updatePortfolioEntry(prev, targetId, list => applyHoldingAction(list, {}, action).assets, []));
+    setLedgers(prev => updatePortfolioEntry(prev, targetId, list => applyHoldingAction([], list, action).ledger, {}));
+    return null;
+  };
+
+  const handleUndoDelete = () => {
+    if (!deletedHolding) return;
+    const { portfolioId: deletedFrom, asset, transactions, index } = deletedHolding;
+    const ticker = normalizeTicker(asset.ticker);
+    // Skip if the ticker was added again in the meantime
+    if (!(assetsByPortfolio[deletedFrom] ?? []).some(a => normalizeTicker(a.ticker) === ticker)) {
+      setAssetsByPortfolio(prev => updatePortfolioEntry(prev, deletedFrom, list => [...list.slice(0, index), asset, ...list.slice(index)], []));
+      setLedgers(prev => updatePortfolioEntry(prev, deletedFrom, list => ({ ...list, [ticker]: transactions }), {}));
+    }
+    setDeletedHolding(null);
+  };
+
+  // Applies a quote that was flagged by validation after the user reviewed it
+  const handleAcceptPendingQuote = (assetId: string) => {
+    const asset = allAssets.find(a => a.id === assetId);
+    if (!asset?.pendingQuote) return;
+    const { price } = asset.pendingQuote;
+    updateAllAssets(a => a.id === assetId ? applyQuoteCheck(a, { status: 'accepted', price }) : a);
+    setPriceHistory(prev => recordPrices(prev, { [asset.ticker]: price }));
+  };
+
+  const handleRejectPendingQuote = (assetId: string) => {
+    updateAllAssets(a => a.id === assetId ? { ...a, pendingQuote: undefined } : a);
+  };
+
+  // Evaluates alert rules against a market update and delivers what fired
+  const runAlerts = (ctx: AlertContext) => {
+    const result = evaluateAlerts(alertRules, ctx);
+    if (result.events.length === 0) return;
+    setAlertRules(result.rules);
+    setAlertEvents(prev => [...result.events, ...prev].slice(0, MAX_ALERT_EVENTS));
+    result.events.forEach(e => showNotification(e.title, e.message, e.ruleId));
   };
 
-  const handleRefreshMarketData = async () => {
+  // Resolves to whether market data was received. Refreshes the assets of every portfolio.
+  const handleRefreshMarketData = async (): Promise<boolean> => {
     setIsRefreshingMarket(true);
-    const tickers = assets.map(a => a.ticker);
+    // Benchmarks are quoted along with the holdings for the comparison and risk metrics
+    const instruments = [...new Map([...benchmarkInstruments, ...allAssets].map(({ ticker, currency, exchange }) =>
+      [normalizeTicker(ticker), { ticker, currency, exchange }])).values()];
     
     try {
-        const marketData = await updateMarketPrices(tickers);
+        const marketData = await marketDataProvider.getQuotes(instruments);
         
         if (marketData) {
-            // Update USD/JPY if available
-            if (marketData.usdJpy) {
-                setUsdJpyRate(marketData.usdJpy);
-            }
+            // Update FX rates that are available and within the plausible range
+            const plausibleFxRates = filterPlausibleFxRates(marketData.fxRates ?? {}, fxRates, priceHistory);
+            const nextFxRates = mergeFxRates(fxRates, plausibleFxRates);
+            setFxRates(prev => mergeFxRates(prev, plausibleFxRates));
+
+            // Update Asset Prices. Quotes that fail validation are kept for review instead of applied.
+            if (allAssets.length > 0) {
+                const findPrice = (ticker: string) => quotedPrice(marketData.prices, ticker);
 
-            // Update Asset Prices
-            if (marketData.prices && assets.length > 0) {
-                setAssets(prevAssets => prevAssets.map(asset => {
-                    // Type assertion to allow string indexing if needed, though TS usually handles Record<string, number> well.
-                    // We iterate to find if price exists for this ticker
-                    const newPrice = Object.entries(marketData.prices!).find(
-                        ([t, p]) => t.toUpperCase() === asset.ticker.toUpperCase()
-                    )?.[1];
-
-                    if (newPrice) {
-                        return {
-                            ...asset,
-                            currentPrice: typeof newPrice === 'number' ? newPrice : asset.currentPrice,
-                            lastUpdated: Date.now()
-                        };
+                const checks = new Map<string, QuoteCheck>();
+                const acceptedPrices: Record<string, number> = {};
+                for (const asset of allAssets) {
+                    const newPrice = findPrice(asset.ticker);
+                    if (newPrice === undefined) continue;
+                    const check = validateQuote(asset, newPrice, transactionsOf(asset));
+                    if (check.status === 'accepted') acceptedPrices[asset.ticker] = check.price;
+                    checks.set(asset.id, check);
+                }
+
+                // Only the quote fields change, on the current assets, so edits made while
+                // the request was in flight are kept
+                const withQuote = (asset: StockAsset) => {
+                    const check = checks.get(asset.id);
+                    return check ? applyQuoteCheck(asset, check, marketData.raw) : asset;
+                };
+                updateAllAssets(withQuote);
+
+                // Record today's prices and each portfolio's value for the history chart
+                const nextAssets = allAssets.map(withQuote);
+                // A held benchmark went through validation above
+                for (const { ticker } of benchmarkInstruments) {
+                    const benchmarkPrice = parseQuote(findPrice(ticker));
+                    if (benchmarkPrice !== undefined && !allAssets.some(a => normalizeTicker(a.ticker) === ticker)) {
+                        acceptedPrices[ticker] = benchmarkPrice;
                     }
-                    return asset;
+                }
+                const recordQuotes = (history: PriceHistory) => recordFxRates(recordPrices(history, acceptedPrices), nextFxRates);
+                const snapshots = Object.fromEntries(portfolios.map(portfolio => {
+                    const portfolioAssets = (assetsByPortfolio[portfolio.id] ?? []).map(withQuote);
+                    return [portfolio.id, deriveHoldings(portfolioAssets, ledgers[portfolio.id] ?? {})];
                 }));
+                const recordSnapshots = (history: PortfolioMap<PortfolioHistoryItem[]>) => ({
+                    ...history,
+                    ...Object.fromEntries(Object.entries(snapshots).map(([id, portfolioHoldings]) =>
+                        [id, recordSnapshot(history[id] ?? [], portfolioHoldings, nextFxRates)])),
+                });
+                setPriceHistory(recordQuotes);
+                setHistoryByPortfolio(recordSnapshots);
+
+                const nextHistory = recordSnapshots(historyByPortfolio);
+                runAlerts({
+                    previousAssets: allAssets,
+                    nextAssets,
+                    portfolioHistory: combineSnapshots(portfolios.filter(countsTowardTotal).map(p => nextHistory[p.id] ?? [])),
+                    priceHistory: recordQuotes(priceHistory)
+                });
             }
         }
+        return !!marketData;
     } catch (error) {
         console.error("Failed to refresh market data", error);
+        return false;
     } finally {
         setIsRefreshingMarket(false);
     }
   };
 
+  // Quotes new assets right away instead of leaving them at the purchase price until the next refresh.
+  // Counts against the daily refresh budget; once it is spent they wait for the next refresh.
+  const quoteNewAssets = async (targets: StockAsset[]) => {
+    if (!refreshScheduler.spendRequest()) return;
+    const instruments = [...new Map(targets.map(({ ticker, currency, exchange }) =>
+      [normalizeTicker(ticker), { ticker, currency, exchange }])).values()];
+    try {
+      const marketData = await marketDataProvider.getQuotes(instruments);
+      if (!marketData) return;
+      const checks = new Map<string, QuoteCheck>();
+      const acceptedPrices: Record<string, number> = {};
+      for (const asset of targets) {
+        const price = quotedPrice(marketData.prices, asset.ticker);
+        if (price === undefined) continue;
+        const check = validateQuote(asset, price, transactionsOf(asset));
+        if (check.status === 'accepted') acceptedPrices[asset.ticker] = check.price;
+        checks.set(asset.id, check);
+      }
+      // A full refresh may have quoted them in the meantime
+      updateAllAssets(a => a.awaitingQuote && checks.has(a.id) ? applyQuoteCheck(a, checks.get(a.id)!, marketData.raw) : a);
+      setPriceHistory(prev => recordPrices(prev, acceptedPrices));
+    } catch (error) {
+      console.error("Failed to quote new assets", error);
+    }
+  };
+
+  // Records a past series of an instrument into the price history. Resolves to whether any points were received.
+  // Each series is one request against the daily refresh budget and is skipped once it is spent.
+  const fetchHistory = async (instrument: Instrument, from: string, to: string): Promise<boolean> => {
+    if (!refreshScheduler.spendRequest()) return false;
+    try {
+      const points = await marketDataProvider.getHistory(instrument, from, to);
+      if (points.length === 0) return false;
+      setPriceHistory(prev => points.reduce((history, point) => recordPrices(history, { [instrument.ticker]: point.price }, point.date), prev));
+      return true;
+    } catch (error) {
+      console.error(`Failed to fetch history of ${instrument.ticker}`, error);
+      return false;
+    }
+  };
+
+  // Fills FX history for past trade dates, used by the tax report
+  const handleFetchFxHistory = (currency: Currency, from: string, to: string) =>
+    fetchHistory({ ticker: fxPairSymbol(currency), currency: Currency.JPY }, from, to);
+
+  // Fills the price history of the shown holdings, the benchmarks and the FX pairs,
+  // used by the benchmark comparison and risk metrics. Resolves to whether every series was received.
+  const handleFetchPriceHistory = async (from: string, to: string): Promise<boolean> => {
+    const fxPairs: Instrument[] = FOREIGN_CURRENCIES.map(c => ({ ticker: fxPairSymbol(c), currency: Currency.JPY }));
+    const instruments = [...new Map([...benchmarkInstruments, ...fxPairs, ...holdings].map(({ ticker, currency, exchange }) =>
+      [normalizeTicker(ticker), { ticker: normalizeTicker(ticker), currency, exchange }])).values()];
+    let complete = true;
+    // One at a time, to stay within the providers' rate limits
+    for (const instrument of instruments) {
+      complete = (await fetchHistory(instrument, from, to)) && complete;
+    }
+    return complete;
+  };
+
+  // Scheduled refresh, started once the stored portfolio has been loaded
+  const isHydrated = isPortfoliosHydrated && isAssetsHydrated && isLedgerHydrated && isRateHydrated;
+  const refreshScheduler = useRefreshScheduler(handleRefreshMarketData, allAssets.map(assetExchange), isHydrated);
+  const stockIcons = useStockIcons(allAssets.map(a => a.ticker), isHydrated);
+
+  // Each new asset is quoted once per session; one that gets no price waits for the next refresh
+  const quoteRequested = useRef(new Set<string>());
+  const awaitingKey = allAssets.filter(a => a.awaitingQuote).map(a => a.id).sort().join(',');
+  useEffect(() => {
+    if (!refreshScheduler.isReady || !awaitingKey) return;
+    const ids = awaitingKey.split(',').filter(id => !quoteRequested.current.has(id));
+    if (ids.length === 0) return;
+    ids.forEach(id => quoteRequested.current.add(id));
+    quoteNewAssets(allAssets.filter(a => ids.includes(a.id)));
+  }, [refreshScheduler.isReady, awaitingKey]);
+
   return (
     <div className="flex h-screen w-full bg-slate-50 text-slate-900 overflow-hidden relative">
       
       {/* Main Dashboard Area */}
       <div className={`flex-1 h-full flex flex-col transition-all duration-300 ${isMobile ? 'w-full' : 'mr-96'}`}>
         <Dashboard 
-          assets={assets} 
+          holdings={holdings} 
+          portfolios={portfolios}
+          activePortfolioId={activePortfolio?.id ?? ALL_PORTFOLIOS}
+          portfolioSummaries={portfolioSummaries}
+          onSelectPortfolio={setActivePortfolioId}
+          onAddPortfolio={handleAddPortfolio}
+          onRenamePortfolio={handleRenamePortfolio}
+          onDeletePortfolio={handleDeletePortfolio}
+          portfolioHistory={portfolioHistory}
+          priceHistory={priceHistory}
+          performance={performance}
+          onFetchPriceHistory={handleFetchPriceHistory}
           onOpenAddModal={() => setIsAddModalOpen(true)}
-          usdJpyRate={usdJpyRate}
-          onRateChange={setUsdJpyRate}
-          onRefreshMarketData={handleRefreshMarketData}
+          onOpenImportModal={() => setIsImportModalOpen(true)}
+          onOpenTaxReport={() => setIsTaxReportOpen(true)}
+          fxRates={fxRates}
+          onFxRatesChange={setFxRates}
+          baseCurrency={baseCurrency}
+          onBaseCurrencyChange={setBaseCurrency}
+          refreshScheduler={refreshScheduler}
+          stockIcons={stockIcons}
+          onAcceptPendingQuote={handleAcceptPendingQuote}
+          onRejectPendingQuote={handleRejectPendingQuote}
+          onHoldingAction={handleHoldingAction}
           isRefreshing={isRefreshingMarket}
+          alertRules={alertRules}
+          onAlertRulesChange={setAlertRules}
+          alertEvents={alertEvents}
+          onAlertEventsChange={setAlertEvents}
         />
       </div>
 
       {/* Right Sidebar - Chat (Hidden on mobile, usually you'd add a toggle, keeping it simple for now or stacked) */}
       {!isMobile && (
-        <SidebarChat assets={assets} usdJpyRate={usdJpyRate} />
+        <SidebarChat
+          holdings={holdings}
+          priceHistory={priceHistory}
+          fxRates={fxRates}
+          baseCurrency={baseCurrency}
+          onHoldingAction={handleHoldingAction}
+          onRefreshPrices={refreshScheduler.refresh}
+          portfolioId={portfolioId}
+          portfolioName={activePortfolio?.name ?? '全口座'}
+        />
       )}
 
       {/* Mobile Chat Toggle or View - For this requirement, we focus on desktop layout primarily per "Right Window" request */}
       
+      {isStorageClosed && (
+        <div role="alert" className="fixed top-4 left-1/2 -translate-x-1/2 z-50 max-w-lg w-[calc(100%-2rem)] bg-red-50 border border-red-200 text-red-700 text-sm rounded-xl shadow-lg px-4 py-3 flex items-center gap-3">
+          <span className="flex-1">保存データを新しい形式に移行できませんでした。データを守るため、変更は保存されません。</span>
+          <button onClick={() => window.location.reload()} className="font-bold whitespace-nowrap hover:underline">再読み込み</button>
+        </div>
+      )}
+
+      {deletedHolding && (
+        <UndoToast
+          message={`${deletedHolding.asset.ticker} を削除しました`}
+          onUndo={handleUndoDelete}
+          onDismiss={() => setDeletedHolding(null)}
+        />
+      )}
+
       {/* Modals */}
       {isAddModalOpen && (
         <AddAssetModal 
+          ledger={ledger}
           onClose={() => setIsAddModalOpen(false)} 
           onAdd={handleAddAsset} 
+          onAddTrades={handleAddTrades}
+        />
+      )}
+
+      {isImportModalOpen && (
+        <ImportExportModal
+          assets={assets}
+          ledger={ledger}
+          holdings={holdings}
+          onImport={(nextAssets, nextLedger) => {
+            setAssets(nextAssets);
+            setLedger(nextLedger);
+          }}
+          onClose={() => setIsImportModalOpen(false)}
+        />
+      )}
+
+      {isTaxReportOpen && (
+        <TaxReportModal
+          portfolios={portfolios}
+          holdingsByPortfolio={holdingsByPortfolio}
+          priceHistory={priceHistory}
+          fxRates={fxRates}
+          onFetchFxHistory={handleFetchFxHistory}
+          onClose={() => setIsTaxReportOpen(false)}
         />
       )}
 
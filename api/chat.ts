@@ -0,0 +1,10 @@
+import { PortfolioChatRequest } from '../types';
+import { geminiApi } from '../server';
+import { badRequest, eventStreamEndpoint } from '../server/http';
+
+// POST PortfolioChatRequest -> ChatStreamEvent lines (reply text and tool calls)
+export const POST = eventStreamEndpoint((body: PortfolioChatRequest) => {
+  const hasMessage = typeof body.message === 'string' || (Array.isArray(body.message) && body.message.length > 0);
+  if (!hasMessage || !Array.isArray(body.history)) throw badRequest('message and history are required');
+  return geminiApi.streamPortfolioChat(body);
+});
@@ -0,0 +1,13 @@
+import { Instrument } from '../types';
+import { geminiApi } from '../server';
+import { badRequest, jsonEndpoint } from '../server/http';
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST { instrument, from, to } -> PricePoint[]
+export const POST = jsonEndpoint(async ({ instrument, from, to }: { instrument: Instrument; from: string; to: string }) => {
+  if (typeof instrument?.ticker !== 'string' || !DATE_KEY.test(from) || !DATE_KEY.test(to)) {
+    throw badRequest('instrument and from/to dates (YYYY-MM-DD) are required');
+  }
+  return geminiApi.fetchPriceHistory(instrument, from, to);
+});
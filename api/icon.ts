@@ -0,0 +1,8 @@
+import { geminiApi } from '../server';
+import { badRequest, jsonEndpoint } from '../server/http';
+
+// POST { ticker } -> { iconUrl } (a data URL, or absent if no image was generated)
+export const POST = jsonEndpoint(async ({ ticker }: { ticker: string }) => {
+  if (typeof ticker !== 'string' || !ticker.trim()) throw badRequest('ticker is required');
+  return { iconUrl: await geminiApi.generateStockIcon(ticker.trim()) };
+});
@@ -0,0 +1,9 @@
+import { geminiApi } from '../server';
+import { badRequest, jsonEndpoint } from '../server/http';
+
+// POST { tickers, days? } -> NewsItem[]
+export const POST = jsonEndpoint(async ({ tickers, days }: { tickers: string[]; days?: number }) => {
+  if (!Array.isArray(tickers) || !tickers.every(t => typeof t === 'string')) throw badRequest('tickers must be a string array');
+  if (days !== undefined && !(Number.isInteger(days) && days > 0)) throw badRequest('days must be a positive integer');
+  return geminiApi.fetchStockNews(tickers, days);
+});
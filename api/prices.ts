@@ -0,0 +1,11 @@
+import { Instrument } from '../types';
+import { geminiApi } from '../server';
+import { badRequest, jsonEndpoint } from '../server/http';
+
+// POST { instruments } -> MarketPriceUpdate or null
+export const POST = jsonEndpoint(async ({ instruments }: { instruments: Instrument[] }) => {
+  if (!Array.isArray(instruments) || !instruments.every(i => typeof i?.ticker === 'string')) {
+    throw badRequest('instruments must be an array of { ticker, currency, exchange }');
+  }
+  return geminiApi.updateMarketPrices(instruments);
+});
@@ -0,0 +1,13 @@
+import { geminiApi } from '../server';
+import { badRequest, jsonEndpoint } from '../server/http';
+
+const isDocumentType = (mimeType: unknown) =>
+  typeof mimeType === 'string' && (mimeType.startsWith('image/') || mimeType === 'application/pdf');
+
+// POST { data (base64), mimeType } -> ParsedTrade[]
+export const POST = jsonEndpoint(async ({ data, mimeType }: { data: string; mimeType: string }) => {
+  if (typeof data !== 'string' || !data || !isDocumentType(mimeType)) {
+    throw badRequest('data and an image or PDF mimeType are required');
+  }
+  return geminiApi.parseTradeDocument(data, mimeType);
+});
@@ -1,14 +1,26 @@
-import React, { useState, useRef } from 'react';
-import { X, Upload, Image as ImageIcon, Loader2, Sparkles } from 'lucide-react';
-import { StockAsset, AISource } from '../types';
-import { parseTradeScreenshot, generateStockIcon } from '../services/geminiService';
+import React, { useMemo, useState, useRef } from 'react';
+import { X, Upload, Image as ImageIcon, Loader2, Sparkles, Lightbulb, AlertTriangle } from 'lucide-react';
+import { StockAsset, AISource, Transaction, TransactionType, InstrumentType, Currency, Exchange, PickRationale, TimeHorizon, Ledger, SymbolInfo } from '../types';
+import { EXCHANGE_CURRENCIES, EXCHANGE_LABELS } from '../services/currencyService';
+import { HORIZON_LABELS } from '../services/pickService';
+import { findSymbol, listingsOf, searchSymbols, unknownTickerWarning } from '../services/symbolService';
+import { parseTradeDocument } from '../services/geminiService';
+import { ImportRow } from '../services/importService';
+import { validateHoldingAction } from '../services/holdingService';
+import { ReceiptRow, cropImage, readFileAsDataUrl, toImportRows, toReceiptRow, validateReceiptRow } from '../services/receiptService';
+import { ReceiptReviewTable } from './ReceiptReviewTable';
+import { createId } from '../utils/id';
+import { toDateKey } from '../utils/date';
 
 interface AddAssetModalProps {
+  ledger: Ledger;
   onClose: () => void;
-  onAdd: (asset: StockAsset) => void;
+  onAdd: (asset: StockAsset, transaction: Transaction) => void;
+  // Trades reviewed from receipts, added in one go
+  onAddTrades: (rows: ImportRow[], source: AISource) => void;
 }
 
-export const AddAssetModal: React.FC<AddAssetModalProps> = ({ onClose, onAdd }) => {
+export const AddAssetModal: React.FC<AddAssetModalProps> = ({ ledger, onClose, onAdd, onAddTrades }) => {
   const [activeTab, setActiveTab] = useState<'manual' | 'image'>('manual');
   const [isProcessing, setIsProcessing] = useState(false);
   const [loadingStatus, setLoadingStatus] = useState('');
@@ -17,78 +29,173 @@ export const AddAssetModal: React.FC<AddAssetModalProps> = ({ onClose, onAdd })
   const [ticker, setTicker] = useState('');
   const [qty, setQty] = useState('');
   const [price, setPrice] = useState('');
+  const [tradeDate, setTradeDate] = useState(() => toDateKey());
   const [source, setSource] = useState<AISource>(AISource.GEMINI);
+  const [instrumentType, setInstrumentType] = useState<InstrumentType>(InstrumentType.STOCK);
+  const [exchange, setExchange] = useState<Exchange>(Exchange.NYSE);
+  const [currency, setCurrency] = useState<Currency>(Currency.USD);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  // Tickers missing from the symbol master need an explicit confirmation
+  const [acceptUnknown, setAcceptUnknown] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Pick rationale (optional)
+  const [recommendation, setRecommendation] = useState('');
+  const [pickPrompt, setPickPrompt] = useState('');
+  const [recommendedAt, setRecommendedAt] = useState(() => toDateKey());
+  const [targetPrice, setTargetPrice] = useState('');
+  const [stopLoss, setStopLoss] = useState('');
+  const [horizon, setHorizon] = useState<TimeHorizon | ''>('');
+
+  // Receipt batch
+  const [receiptRows, setReceiptRows] = useState<ReceiptRow[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+
+  // The listing's exchange decides the usual trading currency
+  const handleExchangeChange = (value: Exchange) => {
+    setExchange(value);
+    setCurrency(EXCHANGE_CURRENCIES[value]);
+  };
+
+  const suggestions = useMemo(() => searchSymbols(ticker), [ticker]);
+  const symbol = findSymbol(ticker, exchange);
+  // Listed, but on another exchange than the selected one
+  const otherListing = symbol ? undefined : listingsOf(ticker)[0];
+  // Same check as a buy confirmed from the chat
+  const unknownWarning = unknownTickerWarning(ticker, exchange);
+  const isUnknown = unknownWarning !== undefined;
+
+  const handleTickerChange = (value: string) => {
+    setTicker(value.toUpperCase());
+    setShowSuggestions(true);
+    setHighlighted(0);
+    setAcceptUnknown(false);
+  };
+
+  const applySymbol = (listing: SymbolInfo) => {
+    setTicker(listing.ticker);
+    handleExchangeChange(listing.exchange);
+    setInstrumentType(listing.instrumentType);
+    setShowSuggestions(false);
+  };
+
+  const handleTickerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      applySymbol(suggestions[highlighted] ?? suggestions[0]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
 
     setIsProcessing(true);
-    setLoadingStatus('Gemini Visionがレシートを解析中...');
+    const parsedRows: ReceiptRow[] = [];
+    const errors: string[] = [];
 
-    try {
-      // Convert to Base64
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64String = reader.result as string;
+    // One file at a time so a large batch doesn't hit the API all at once
+    for (const [i, file] of files.entries()) {
+      setLoadingStatus(`Gemini Visionがレシートを解析中... (${i + 1}/${files.length}) ${file.name}`);
+      try {
+        const dataUrl = await readFileAsDataUrl(file);
         // Strip prefix for API
-        const base64Data = base64String.split(',')[1]; 
-        const mimeType = file.type;
-
-        const data = await parseTradeScreenshot(base64Data, mimeType);
-        
-        if (data) {
-            if (data.ticker) setTicker(data.ticker);
-            if (data.quantity) setQty(data.quantity.toString());
-            if (data.avgPrice) setPrice(data.avgPrice.toString());
-            setActiveTab('manual'); // Switch to review
-            setLoadingStatus('データを抽出しました！内容を確認してください。');
+        const trades = await parseTradeDocument(dataUrl.split(',')[1], file.type);
+        if (trades.length === 0) errors.push(`${file.name}: 取引が見つかりませんでした`);
+        for (const trade of trades) {
+          const crop = trade.box && file.type.startsWith('image/')
+            ? await cropImage(dataUrl, trade.box).catch(() => undefined)
+            : undefined;
+          parsedRows.push(toReceiptRow(trade, file.name, toDateKey(), crop));
         }
-        setIsProcessing(false);
-      };
-      reader.readAsDataURL(file);
-    } catch (error) {
-      console.error(error);
-      setLoadingStatus('画像の解析に失敗しました。');
-      setIsProcessing(false);
+      } catch (error) {
+        console.error(error);
+        errors.push(`${file.name}: 解析に失敗しました`);
+      }
     }
+
+    setReceiptRows(prev => [...prev, ...parsedRows]);
+    setFileErrors(prev => [...prev, ...errors]);
+    setIsProcessing(false);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const includedRows = receiptRows.filter(row => row.include);
+  const canAddReceipts = includedRows.length > 0 && includedRows.every(row => !validateReceiptRow(row, receiptRows, ledger));
+
+  const handleAddReceipts = () => {
+    if (!canAddReceipts) return;
+    onAddTrades(toImportRows(includedRows), source);
+    onClose();
+  };
+
+  // The icon is generated in the background once the asset is added
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    setIsProcessing(true);
-    setLoadingStatus('Nano Bananaでアイコンを生成中...');
-
-    try {
-      // Generate Icon
-      const iconUrl = await generateStockIcon(ticker);
-      
-      const newAsset: StockAsset = {
-        id: Date.now().toString(),
-        ticker: ticker.toUpperCase(),
-        companyName: ticker.toUpperCase(), // Ideally fetch this, but okay for now
-        quantity: parseFloat(qty),
-        avgPrice: parseFloat(price),
-        currentPrice: parseFloat(price) * (1 + (Math.random() * 0.1 - 0.05)), // Mock current price +/- 5%
-        source: source,
-        iconUrl: iconUrl,
-        lastUpdated: Date.now()
-      };
-
-      onAdd(newAsset);
-      onClose();
-    } catch (err) {
-        console.error(err);
-    } finally {
-        setIsProcessing(false);
+    if (isUnknown && !acceptUnknown) return;
+
+    const pick: PickRationale | undefined = recommendation.trim()
+      ? {
+          recommendation: recommendation.trim(),
+          prompt: pickPrompt.trim() || undefined,
+          recommendedAt,
+          targetPrice: targetPrice ? parseFloat(targetPrice) : undefined,
+          stopLoss: stopLoss ? parseFloat(stopLoss) : undefined,
+          horizon: horizon || undefined
+        }
+      : undefined;
+
+    const newAsset: StockAsset = {
+      id: Date.now().toString(),
+      ticker: symbol?.ticker ?? ticker.toUpperCase(),
+      companyName: symbol?.name ?? ticker.toUpperCase(),
+      currency: currency,
+      exchange: exchange,
+      instrumentType: instrumentType,
+      sector: symbol?.sector,
+      country: symbol?.country,
+      // Quoted right after it is added
+      currentPrice: parseFloat(price),
+      awaitingQuote: true,
+      source: source,
+      lastUpdated: Date.now(),
+      pick: pick
+    };
+
+    const transaction: Transaction = {
+      id: createId(),
+      ticker: newAsset.ticker,
+      type: TransactionType.BUY,
+      date: tradeDate,
+      quantity: parseFloat(qty),
+      price: parseFloat(price),
+      createdAt: Date.now()
+    };
+
+    // Same checks as a buy from the chat
+    const error = validateHoldingAction([], { type: 'buy', ticker: newAsset.ticker, order: transaction });
+    if (error) {
+      setFormError(error);
+      return;
     }
+
+    onAdd(newAsset, transaction);
+    onClose();
   };
 
   return (
     <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-2xl border border-slate-200 w-full max-w-md shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+      <div className={`bg-white rounded-2xl border border-slate-200 w-full ${activeTab === 'image' && receiptRows.length > 0 ? 'max-w-5xl' : 'max-w-md'} shadow-2xl overflow-hidden flex flex-col max-h-[90vh]`}>
         
         <div className="flex justify-between items-center p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
           <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
@@ -112,7 +219,7 @@ export const AddAssetModal: React.FC<AddAssetModalProps> = ({ onClose, onAdd })
               onClick={() => setActiveTab('image')}
               className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${activeTab === 'image' ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'}`}
             >
-              スクショ解析
+              スクショ / PDF解析
             </button>
           </div>
 
@@ -124,38 +231,169 @@ export const AddAssetModal: React.FC<AddAssetModalProps> = ({ onClose, onAdd })
           )}
 
           {activeTab === 'image' ? (
-            <div className="border-2 border-dashed border-slate-300 rounded-xl p-8 text-center hover:border-blue-500 hover:bg-slate-50 transition-colors cursor-pointer relative group">
-                <input 
-                    type="file" 
-                    ref={fileInputRef}
-                    accept="image/*"
-                    onChange={handleFileChange}
-                    className="absolute inset-0 opacity-0 cursor-pointer"
-                />
-                <div className="flex flex-col items-center gap-3 pointer-events-none">
-                    <div className="w-12 h-12 rounded-full bg-blue-50 flex items-center justify-center group-hover:scale-110 transition-transform">
-                        <Upload className="w-6 h-6 text-blue-600" />
-                    </div>
-                    <div>
-                        <p className="text-slate-900 font-medium">クリックして画像をアップロード</p>
-                        <p className="text-slate-500 text-sm mt-1">PNG, JPG, WEBP 対応</p>
+            <div className="space-y-4">
+              <div className={`border-2 border-dashed border-slate-300 rounded-xl ${receiptRows.length > 0 ? 'p-4' : 'p-8'} text-center hover:border-blue-500 hover:bg-slate-50 transition-colors cursor-pointer relative group`}>
+                  <input 
+                      type="file" 
+                      ref={fileInputRef}
+                      accept="image/*,application/pdf"
+                      multiple
+                      disabled={isProcessing}
+                      onChange={handleFileChange}
+                      className="absolute inset-0 opacity-0 cursor-pointer"
+                  />
+                  <div className="flex flex-col items-center gap-3 pointer-events-none">
+                      <div className="w-12 h-12 rounded-full bg-blue-50 flex items-center justify-center group-hover:scale-110 transition-transform">
+                          <Upload className="w-6 h-6 text-blue-600" />
+                      </div>
+                      <div>
+                          <p className="text-slate-900 font-medium">
+                            {receiptRows.length > 0 ? 'さらにファイルを追加' : 'クリックまたはドロップでアップロード (複数可)'}
+                          </p>
+                          <p className="text-slate-500 text-sm mt-1">PNG, JPG, WEBP, PDF 対応</p>
+                      </div>
+                  </div>
+              </div>
+
+              {fileErrors.length > 0 && (
+                <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-xs font-medium space-y-1">
+                  {fileErrors.map((message, i) => (
+                    <li key={i} className="flex items-center gap-1.5"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" /> {message}</li>
+                  ))}
+                </ul>
+              )}
+
+              {receiptRows.length > 0 && (
+                <>
+                  <p className="text-xs text-slate-500">
+                    読み取った {receiptRows.length}件の取引です。<span className="font-bold text-amber-700">黄色の項目</span>は読み取りの信頼度が低いため、画像と照らし合わせて確認してください。
+                  </p>
+                  <ReceiptReviewTable rows={receiptRows} ledger={ledger} onChange={setReceiptRows} />
+                  <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+                    <div className="sm:w-48">
+                      <label className="block text-xs font-bold text-slate-500 mb-1">新規銘柄のAIソース</label>
+                      <select 
+                        value={source}
+                        onChange={(e) => setSource(e.target.value as AISource)}
+                        className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                      >
+                        {Object.values(AISource).map(s => (
+                          <option key={s} value={s}>{s}</option>
+                        ))}
+                      </select>
                     </div>
-                </div>
+                    <button 
+                      type="button"
+                      onClick={handleAddReceipts}
+                      disabled={isProcessing || !canAddReceipts}
+                      className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-lg transition-colors disabled:opacity-50 shadow-lg shadow-blue-600/20"
+                    >
+                      {includedRows.length}件の取引を追加
+                    </button>
+                  </div>
+                </>
+              )}
             </div>
           ) : (
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <label className="block text-xs font-bold text-slate-500 mb-1">ティッカーシンボル (例: AAPL)</label>
-                <input 
-                  required
-                  type="text" 
-                  value={ticker}
-                  onChange={e => setTicker(e.target.value.toUpperCase())}
-                  placeholder="AAPL, MSFT..."
-                  className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
-                />
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 relative">
+                  <label className="block text-xs font-bold text-slate-500 mb-1">ティッカーシンボル (例: AAPL)</label>
+                  <input 
+                    required
+                    type="text" 
+                    value={ticker}
+                    onChange={e => handleTickerChange(e.target.value)}
+                    onFocus={() => setShowSuggestions(true)}
+                    onBlur={() => setShowSuggestions(false)}
+                    onKeyDown={handleTickerKeyDown}
+                    placeholder="AAPL, 7203, トヨタ..."
+                    autoComplete="off"
+                    className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                  />
+                  {showSuggestions && suggestions.length > 0 && !(symbol && suggestions.length === 1) && (
+                    <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+                      {suggestions.map((listing, idx) => (
+                        <li
+                          key={`${listing.exchange}-${listing.ticker}`}
+                          // Keeps the input focused so the click lands before the list closes
+                          onMouseDown={e => e.preventDefault()}
+                          onClick={() => applySymbol(listing)}
+                          className={`px-3 py-2 cursor-pointer flex items-center gap-2 text-sm ${idx === highlighted ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                        >
+                          <span className="font-bold text-slate-900 w-14 flex-shrink-0">{listing.ticker}</span>
+                          <span className="flex-1 min-w-0 truncate text-slate-600">{listing.name}</span>
+                          <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-blue-50 text-blue-600 border border-blue-100 whitespace-nowrap">
+                            {EXCHANGE_LABELS[listing.exchange]}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {symbol && (
+                    <p className="text-xs text-slate-500 mt-1 truncate">{symbol.name} · {symbol.sector}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">種別</label>
+                  <select 
+                    value={instrumentType}
+                    onChange={e => setInstrumentType(e.target.value as InstrumentType)}
+                    className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                  >
+                    <option value={InstrumentType.STOCK}>個別株</option>
+                    <option value={InstrumentType.ETF}>ETF</option>
+                  </select>
+                </div>
               </div>
               
+              {isUnknown && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-xs space-y-2">
+                  <p className="flex items-start gap-2 font-medium">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    {unknownWarning}
+                  </p>
+                  <div className="flex items-center gap-3 flex-wrap">
+                    {otherListing && (
+                      <button type="button" onClick={() => applySymbol(otherListing)} className="font-bold text-blue-600 hover:underline">
+                        {EXCHANGE_LABELS[otherListing.exchange]}に切り替える
+                      </button>
+                    )}
+                    <label className="flex items-center gap-1.5 font-bold cursor-pointer">
+                      <input type="checkbox" checked={acceptUnknown} onChange={e => setAcceptUnknown(e.target.checked)} />
+                      このまま追加する
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">市場</label>
+                  <select 
+                    value={exchange}
+                    onChange={e => handleExchangeChange(e.target.value as Exchange)}
+                    className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                  >
+                    {Object.values(Exchange).map(ex => (
+                      <option key={ex} value={ex}>{EXCHANGE_LABELS[ex]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1">通貨</label>
+                  <select 
+                    value={currency}
+                    onChange={e => setCurrency(e.target.value as Currency)}
+                    className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                  >
+                    {Object.values(Currency).map(c => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
                     <label className="block text-xs font-bold text-slate-500 mb-1">数量</label>
@@ -170,7 +408,7 @@ export const AddAssetModal: React.FC<AddAssetModalProps> = ({ onClose, onAdd })
                     />
                 </div>
                 <div>
-                    <label className="block text-xs font-bold text-slate-500 mb-1">平均取得単価 ($)</label>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">約定単価 ({currency})</label>
                     <input 
                       required
                       type="number" 
@@ -183,6 +421,17 @@ export const AddAssetModal: React.FC<AddAssetModalProps> = ({ onClose, onAdd })
                 </div>
               </div>
 
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">約定日</label>
+                <input 
+                  required
+                  type="date" 
+                  value={tradeDate}
+                  onChange={e => setTradeDate(e.target.value)}
+                  className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                />
+              </div>
+
               <div>
                 <label className="block text-xs font-bold text-slate-500 mb-1">選定AIソース</label>
                 <div className="relative">
@@ -201,9 +450,82 @@ export const AddAssetModal: React.FC<AddAssetModalProps> = ({ onClose, onAdd })
                 </div>
               </div>
 
+              <details className="border border-slate-200 rounded-lg p-3">
+                <summary className="cursor-pointer text-xs font-bold text-slate-600 flex items-center gap-2">
+                  <Lightbulb className="w-4 h-4 text-yellow-500" /> AIの推奨理由を記録 (任意)
+                </summary>
+                <div className="space-y-3 mt-3">
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">推奨内容・投資仮説</label>
+                    <textarea 
+                      value={recommendation}
+                      onChange={e => setRecommendation(e.target.value)}
+                      rows={3}
+                      placeholder="AIが挙げた推奨理由を貼り付け..."
+                      className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">使用したプロンプト</label>
+                    <textarea 
+                      value={pickPrompt}
+                      onChange={e => setPickPrompt(e.target.value)}
+                      rows={2}
+                      className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">推奨日</label>
+                      <input 
+                        type="date" 
+                        value={recommendedAt}
+                        onChange={e => setRecommendedAt(e.target.value)}
+                        className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">投資期間</label>
+                      <select 
+                        value={horizon}
+                        onChange={e => setHorizon(e.target.value as TimeHorizon | '')}
+                        className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                      >
+                        <option value="">未設定</option>
+                        {Object.values(TimeHorizon).map(h => (
+                          <option key={h} value={h}>{HORIZON_LABELS[h]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">目標株価 ({currency})</label>
+                      <input 
+                        type="number" 
+                        step="any"
+                        value={targetPrice}
+                        onChange={e => setTargetPrice(e.target.value)}
+                        className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">損切りライン ({currency})</label>
+                      <input 
+                        type="number" 
+                        step="any"
+                        value={stopLoss}
+                        onChange={e => setStopLoss(e.target.value)}
+                        className="w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors"
+                      />
+                    </div>
+                  </div>
+                </div>
+              </details>
+
+              {formError && <p className="text-red-600 text-xs font-medium">{formError}</p>}
+
               <button 
                 type="submit"
-                disabled={isProcessing}
+                disabled={isProcessing || (isUnknown && !acceptUnknown)}
                 className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-lg mt-2 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 shadow-lg shadow-blue-600/20"
               >
                 {isProcessing ? <Loader2 className="w-5 h-5 animate-spin" /> : '資産に追加'}
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Bell, BellRing, Trash2, X, Plus, CheckCheck } from 'lucide-react';
+import { AlertEvent, AlertRule, AlertRuleType, Holding } from '../types';
+import { ALERT_RULE_LABELS, isPercentRule } from '../services/alertService';
+import { getNotificationPermission, requestNotificationPermission } from '../services/notificationService';
+import { createId } from '../utils/id';
+
+interface AlertCenterProps {
+  holdings: Holding[];
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  events: AlertEvent[];
+  onEventsChange: (events: AlertEvent[]) => void;
+}
+
+// Price rules need a specific asset; percentage rules can be global
+const GLOBAL = '';
+
+export const AlertCenter: React.FC<AlertCenterProps> = ({ holdings, rules, onRulesChange, events, onEventsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<'inbox' | 'rules'>('inbox');
+  const [permission, setPermission] = useState(getNotificationPermission());
+
+  // New rule form
+  const [ruleType, setRuleType] = useState<AlertRuleType>(AlertRuleType.PERCENT_MOVE);
+  const [ruleTicker, setRuleTicker] = useState(GLOBAL);
+  const [threshold, setThreshold] = useState('');
+
+  const unreadCount = events.filter(e => !e.read).length;
+  const needsTicker = !isPercentRule(ruleType);
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  const handleAddRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(threshold);
+    if (!isFinite(value) || value <= 0 || (needsTicker && !ruleTicker)) return;
+    onRulesChange([...rules, {
+      id: createId(),
+      type: ruleType,
+      ticker: ruleTicker || undefined,
+      threshold: value,
+      enabled: true,
+      createdAt: Date.now()
+    }]);
+    setThreshold('');
+  };
+
+  const describeRule = (rule: AlertRule) => {
+    const target = rule.ticker ?? (rule.type === AlertRuleType.DRAWDOWN ? 'ポートフォリオ全体' : '全銘柄');
+    const value = isPercentRule(rule.type) ? `${rule.threshold}%` : rule.threshold.toString();
+    return `${target}: ${ALERT_RULE_LABELS[rule.type]} ${value}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="アラート"
+        className="relative flex items-center justify-center px-3 py-2.5 rounded-xl bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 hover:text-blue-600 hover:border-blue-200 shadow-sm transition-all w-full sm:w-auto"
+      >
+        {unreadCount > 0 ? <BellRing className="w-4 h-4 text-blue-600" /> : <Bell className="w-4 h-4" />}
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 bg-red-500 text-white text-[10px] font-bold rounded-full min-w-[18px] h-[18px] px-1 flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-[22rem] max-w-[calc(100vw-2rem)] bg-white border border-slate-200 rounded-2xl shadow-2xl z-30 overflow-hidden">
+          <div className="flex items-center justify-between p-3 border-b border-slate-200 bg-slate-50">
+            <div className="flex gap-1 bg-slate-100 p-0.5 rounded-lg">
+              {(['inbox', 'rules'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${
+                    activeTab === tab ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {tab === 'inbox' ? `受信箱${unreadCount > 0 ? ` (${unreadCount})` : ''}` : `ルール (${rules.length})`}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-600 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {permission === 'default' && (
+            <button
+              onClick={handleEnableNotifications}
+              className="w-full text-left text-xs font-bold text-blue-700 bg-blue-50 border-b border-blue-100 px-3 py-2 hover:bg-blue-100 transition-colors"
+            >
+              ブラウザ通知を有効にする
+            </button>
+          )}
+
+          <div className="max-h-96 overflow-y-auto">
+            {activeTab === 'inbox' ? (
+              <>
+                {events.length > 0 && (
+                  <div className="flex justify-end gap-3 px-3 pt-2 text-[10px] font-bold text-slate-400">
+                    <button onClick={() => onEventsChange(events.map(e => ({ ...e, read: true })))} className="hover:text-blue-600 flex items-center gap-1">
+                      <CheckCheck className="w-3 h-3" /> すべて既読
+                    </button>
+                    <button onClick={() => onEventsChange([])} className="hover:text-red-600 flex items-center gap-1">
+                      <Trash2 className="w-3 h-3" /> クリア
+                    </button>
+                  </div>
+                )}
+                {events.map(event => (
+                  <button
+                    key={event.id}
+                    onClick={() => onEventsChange(events.map(e => e.id === event.id ? { ...e, read: true } : e))}
+                    className={`w-full text-left px-3 py-2.5 border-b border-slate-100 hover:bg-slate-50 transition-colors ${event.read ? '' : 'bg-blue-50/50'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      {!event.read && <span className="w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                      <p className="text-sm font-bold text-slate-800">{event.title}</p>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-0.5">{event.message}</p>
+                    <p className="text-[10px] text-slate-400 mt-0.5">{new Date(event.triggeredAt).toLocaleString('ja-JP')}</p>
+                  </button>
+                ))}
+                {events.length === 0 && (
+                  <p className="text-center text-slate-400 text-sm py-8">アラートはありません。</p>
+                )}
+              </>
+            ) : (
+              <div className="p-3 space-y-3">
+                <form onSubmit={handleAddRule} className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={ruleType}
+                      onChange={e => setRuleType(e.target.value as AlertRuleType)}
+                      className="bg-white border border-slate-300 rounded-lg p-2 text-xs text-slate-900 focus:border-blue-500 focus:outline-none"
+                    >
+                      {Object.values(AlertRuleType).map(t => (
+                        <option key={t} value={t}>{ALERT_RULE_LABELS[t]}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={ruleTicker}
+                      onChange={e => setRuleTicker(e.target.value)}
+                      className="bg-white border border-slate-300 rounded-lg p-2 text-xs text-slate-900 focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value={GLOBAL} disabled={needsTicker}>全体</option>
+                      {holdings.map(h => (
+                        <option key={h.id} value={h.ticker}>{h.ticker}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      step="any"
+                      value={threshold}
+                      onChange={e => setThreshold(e.target.value)}
+                      placeholder={isPercentRule(ruleType) ? '変動率 (%)' : '価格'}
+                      className="flex-1 bg-white border border-slate-300 rounded-lg p-2 text-xs text-slate-900 focus:border-blue-500 focus:outline-none"
+                    />
+                    <button
+                      type="submit"
+                      disabled={needsTicker && !ruleTicker}
+                      className="bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold px-3 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <Plus className="w-3 h-3" /> 追加
+                    </button>
+                  </div>
+                </form>
+
+                {rules.map(rule => (
+                  <div key={rule.id} className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => onRulesChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+                    />
+                    <span className={`flex-1 font-medium ${rule.enabled ? 'text-slate-700' : 'text-slate-400 line-through'}`}>
+                      {describeRule(rule)}
+                    </span>
+                    <button
+                      onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                      className="text-slate-300 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+                <p className="text-[10px] text-slate-400">
+                  AI推奨の目標株価・損切りラインは自動的にアラート対象になります。
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { PieChart as PieChartIcon, AlertTriangle, RefreshCw } from 'lucide-react';
+import { PieChart, Pie, Cell, Treemap, Tooltip, ResponsiveContainer } from 'recharts';
+import { AISource, AllocationDimension, Currency, FxRates, Holding, PriceHistory } from '../types';
+import { ALLOCATION_DIMENSION_LABELS, RISK_BENCHMARK, computePortfolioMetrics } from '../services/metricsService';
+import { DailyValue } from '../services/performanceService';
+import { formatMoney } from '../utils/format';
+import { toDateKey } from '../utils/date';
+import { SOURCE_COLORS } from './Leaderboard';
+
+interface AnalyticsPanelProps {
+  holdings: Holding[];
+  // The holdings' daily values at today's FX rates
+  dailyValues: DailyValue[];
+  priceHistory: PriceHistory;
+  fxRates: FxRates;
+  baseCurrency: Currency;
+  // Fetches past prices of the holdings and the benchmarks; resolves to whether all were received
+  onFetchPriceHistory: (from: string, to: string) => Promise<boolean>;
+}
+
+const PALETTE = ['#2563eb', '#10b981', '#d97706', '#8b5cf6', '#ef4444', '#0891b2', '#db2777', '#65a30d', '#64748b'];
+
+// Days of history fetched when the stored history is too short
+const HISTORY_FETCH_DAYS = 365;
+
+const DIMENSIONS = Object.keys(ALLOCATION_DIMENSION_LABELS) as AllocationDimension[];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+interface TreemapCellProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  index?: number;
+  name?: string;
+  weight?: number;
+}
+
+const TreemapCell: React.FC<TreemapCellProps> = ({ x = 0, y = 0, width = 0, height = 0, index = 0, name, weight }) => (
+  <g>
+    <rect x={x} y={y} width={width} height={height} fill={PALETTE[index % PALETTE.length]} stroke="#fff" strokeWidth={2} />
+    {width > 48 && height > 28 && (
+      <>
+        <text x={x + 6} y={y + 16} fill="#fff" fontSize={12} fontWeight={700}>{name}</text>
+        <text x={x + 6} y={y + 30} fill="#fff" fontSize={10} opacity={0.85}>{weight?.toFixed(1)}%</text>
+      </>
+    )}
+  </g>
+);
+
+export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ holdings, dailyValues, priceHistory, fxRates, baseCurrency, onFetchPriceHistory }) => {
+  const [dimension, setDimension] = useState<AllocationDimension>('holding');
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchFailed, setFetchFailed] = useState(false);
+
+  const metrics = useMemo(
+    () => computePortfolioMetrics(holdings, dailyValues, priceHistory, fxRates, baseCurrency),
+    [holdings, dailyValues, priceHistory, fxRates, baseCurrency]
+  );
+
+  const slices = metrics.allocation[dimension];
+  if (metrics.allocation.holding.length === 0) return null;
+
+  const colorOf = (key: string, idx: number) =>
+    dimension === 'source' ? SOURCE_COLORS[key as AISource] : PALETTE[idx % PALETTE.length];
+
+  const handleFetch = async () => {
+    setIsFetching(true);
+    const to = toDateKey();
+    const from = toDateKey(Date.now() - HISTORY_FETCH_DAYS * 24 * 60 * 60 * 1000);
+    setFetchFailed(!(await onFetchPriceHistory(from, to)));
+    setIsFetching(false);
+  };
+
+  const { risk } = metrics;
+  const riskStats = [
+    { label: 'ボラティリティ (年率)', value: risk.volatility !== undefined ? formatPercent(risk.volatility) : '-' },
+    { label: '最大ドローダウン', value: risk.maxDrawdown !== undefined ? formatPercent(risk.maxDrawdown) : '-', tone: risk.maxDrawdown },
+    { label: `ベータ (${RISK_BENCHMARK.label})`, value: risk.beta !== undefined ? risk.beta.toFixed(2) : '-' },
+    { label: 'シャープレシオ', value: risk.sharpe !== undefined ? risk.sharpe.toFixed(2) : '-' },
+  ];
+
+  return (
+    <section>
+      <h3 className="text-lg sm:text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <PieChartIcon className="w-5 h-5 text-slate-400" /> 資産配分とリスク
+      </h3>
+      <div className="bg-white border border-slate-200 rounded-2xl shadow-sm overflow-hidden">
+        {/* Allocation */}
+        <div className="p-4 md:p-5 border-b border-slate-100">
+          <div className="flex items-center justify-between mb-4 gap-2">
+            <p className="text-slate-500 font-bold text-xs md:text-sm">配分 ({baseCurrency})</p>
+            <div className="flex gap-1 bg-slate-100 p-0.5 rounded-lg">
+              {DIMENSIONS.map(d => (
+                <button
+                  key={d}
+                  onClick={() => setDimension(d)}
+                  className={`px-2 py-0.5 text-[10px] md:text-xs font-bold rounded-md transition-all ${
+                    dimension === d ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {ALLOCATION_DIMENSION_LABELS[d]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                {dimension === 'holding' ? (
+                  <Treemap
+                    data={slices.map(s => ({ name: s.label, size: s.value, weight: s.weightPercent }))}
+                    dataKey="size"
+                    isAnimationActive={false}
+                    content={<TreemapCell />}
+                  />
+                ) : (
+                  <PieChart>
+                    <Pie data={slices} dataKey="value" nameKey="label" innerRadius="55%" outerRadius="90%" paddingAngle={1} isAnimationActive={false}>
+                      {slices.map((slice, idx) => (
+                        <Cell key={slice.key} fill={colorOf(slice.key, idx)} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value: number, name: string) => [formatMoney(value, baseCurrency), name]} />
+                  </PieChart>
+                )}
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-1.5 text-xs md:text-sm">
+              {slices.map((slice, idx) => (
+                <div key={slice.key} className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: colorOf(slice.key, idx) }} />
+                  <span className="flex-1 min-w-0 truncate font-bold text-slate-700">{slice.label}</span>
+                  <span className="text-slate-400">{formatMoney(slice.value, baseCurrency)}</span>
+                  <span className="w-14 text-right font-black text-slate-900">{slice.weightPercent.toFixed(1)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {metrics.warnings.length > 0 && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-xs md:text-sm space-y-1">
+              {metrics.warnings.map(w => (
+                <p key={`${w.dimension}-${w.label}`} className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  {ALLOCATION_DIMENSION_LABELS[w.dimension]}「{w.label}」が {w.weightPercent.toFixed(1)}% を占めています (目安 {w.limitPercent}% 以下)。
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Risk */}
+        <div className="p-4 md:p-5">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {riskStats.map(stat => (
+              <div key={stat.label} className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+                <p className="text-[10px] md:text-xs font-bold text-slate-500">{stat.label}</p>
+                <p className={`text-lg font-black ${stat.tone !== undefined && stat.tone < 0 ? 'text-red-600' : 'text-slate-900'}`}>{stat.value}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+            <p className="text-[10px] md:text-xs text-slate-400">
+              {risk.observations > 0
+                ? `${risk.from} 〜 ${risk.to} の日次リターン ${risk.observations} 件 (時間加重、現在の為替レート)。シャープレシオの無リスク金利 ${formatPercent(risk.riskFreeRate)}。`
+                : '価格履歴が足りないため計算できません。市場データの更新ごとに1日分記録されます。'}
+              {risk.observations > 0 && risk.beta === undefined && ` ${RISK_BENCHMARK.label} の履歴が足りないためベータは未計算です。`}
+            </p>
+            <button
+              onClick={handleFetch}
+              disabled={isFetching}
+              className="text-xs font-bold text-slate-500 hover:text-blue-600 flex items-center gap-1.5 px-3 py-1.5 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3.5 h-3.5 ${isFetching ? 'animate-spin' : ''}`} /> 1年分の価格履歴を取得
+            </button>
+          </div>
+          {fetchFailed && <p className="text-xs font-bold text-red-600 mt-1">一部の価格履歴を取得できませんでした。本日の取得回数の上限に達した場合は、明日再度お試しください。</p>}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { Scale } from 'lucide-react';
+import { BenchmarkComparison, BenchmarkId, Currency, FxRates, Holding, HistoryRange, PriceHistory } from '../types';
+import {
+  BENCHMARKS,
+  BENCHMARK_COLORS,
+  BenchmarkPoint,
+  COMPARISON_PERIODS,
+  compareSourcesWithBenchmark,
+  compareWithBenchmark,
+} from '../services/benchmarkService';
+import { DailyValueSeries } from '../services/performanceService';
+import { SOURCE_COLORS } from './Leaderboard';
+
+interface BenchmarkComparisonPanelProps {
+  holdings: Holding[];
+  priceHistory: PriceHistory;
+  fxRates: FxRates;
+  baseCurrency: Currency;
+  benchmarkPoints: BenchmarkPoint[];
+  // Daily values of each source's picks at each day's FX rates
+  sourceValues: DailyValueSeries['sources'];
+  benchmarkIds: BenchmarkId[];
+}
+
+const PERIOD_LABELS: Record<HistoryRange, string> = {
+  '1W': '1週間',
+  '1M': '1ヶ月',
+  '6M': '6ヶ月',
+  '1Y': '1年',
+  'ALL': '全期間',
+};
+
+const formatPercent = (value?: number) => value === undefined ? '-' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+const toneOf = (value?: number) => value === undefined ? 'text-slate-400' : value >= 0 ? 'text-green-600' : 'text-red-600';
+
+// Return columns shared by the period and AI source tables
+const ComparisonCells: React.FC<{ row: BenchmarkComparison }> = ({ row }) => (
+  <>
+    <td className={`p-3 text-right font-bold ${toneOf(row.portfolioReturn)}`}>{formatPercent(row.portfolioReturn)}</td>
+    <td className={`p-3 text-right ${toneOf(row.benchmarkReturn)}`}>{formatPercent(row.benchmarkReturn)}</td>
+    <td className={`p-3 text-right font-black ${toneOf(row.excessReturn)}`}>{formatPercent(row.excessReturn)}</td>
+    <td className="p-3 text-right text-slate-700">{row.beta !== undefined ? row.beta.toFixed(2) : '-'}</td>
+    <td className={`p-3 text-right font-bold ${toneOf(row.alpha)}`}>{formatPercent(row.alpha)}</td>
+  </>
+);
+
+const HEADERS = ['ポートフォリオ', 'ベンチマーク', '超過リターン', 'ベータ', 'アルファ'];
+
+export const BenchmarkComparisonPanel: React.FC<BenchmarkComparisonPanelProps> = ({
+  holdings,
+  priceHistory,
+  fxRates,
+  baseCurrency,
+  benchmarkPoints,
+  sourceValues,
+  benchmarkIds
+}) => {
+  const [sourcePeriod, setSourcePeriod] = useState<HistoryRange>('ALL');
+  const [sourceBenchmark, setSourceBenchmark] = useState<BenchmarkId | null>(null);
+  // Falls back to the first selected benchmark when the chosen one is deselected
+  const activeSourceBenchmark = sourceBenchmark && benchmarkIds.includes(sourceBenchmark) ? sourceBenchmark : benchmarkIds[0];
+
+  const periodRows = useMemo(
+    () => benchmarkIds.flatMap(id => COMPARISON_PERIODS.map(period => compareWithBenchmark(benchmarkPoints, id, period, baseCurrency))),
+    [benchmarkPoints, benchmarkIds, baseCurrency]
+  );
+  const sourceRows = useMemo(
+    () => activeSourceBenchmark
+      ? compareSourcesWithBenchmark(holdings, sourceValues, priceHistory, fxRates, baseCurrency, activeSourceBenchmark, sourcePeriod)
+      : [],
+    [holdings, sourceValues, priceHistory, fxRates, baseCurrency, activeSourceBenchmark, sourcePeriod]
+  );
+
+  if (benchmarkIds.length === 0 || benchmarkPoints.length === 0) return null;
+
+  return (
+    <section>
+      <h3 className="text-lg sm:text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Scale className="w-5 h-5 text-slate-400" /> ベンチマーク比較
+      </h3>
+      <div className="bg-white border border-slate-200 rounded-2xl shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs md:text-sm">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="text-left font-bold p-3">ベンチマーク</th>
+                <th className="text-left font-bold p-3">期間</th>
+                {HEADERS.map(h => <th key={h} className="text-right font-bold p-3">{h}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {periodRows.map(row => (
+                <tr key={`${row.benchmark}-${row.period}`} className="border-t border-slate-100">
+                  <td className="p-3">
+                    <span className="flex items-center gap-2 font-bold text-slate-900">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: BENCHMARK_COLORS[row.benchmark] }} />
+                      {BENCHMARKS[row.benchmark].label}
+                    </span>
+                  </td>
+                  <td className="p-3 text-slate-700 whitespace-nowrap" title={row.from && `${row.from} 〜 ${row.to}`}>{PERIOD_LABELS[row.period]}</td>
+                  <ComparisonCells row={row} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 md:p-5 border-t border-slate-100">
+          <div className="flex items-center justify-between mb-3 gap-2 flex-wrap">
+            <p className="text-slate-500 font-bold text-xs md:text-sm">AI別の超過リターン</p>
+            <div className="flex items-center gap-2">
+              <select
+                value={activeSourceBenchmark}
+                onChange={e => setSourceBenchmark(e.target.value as BenchmarkId)}
+                className="bg-white border border-slate-200 rounded-lg px-2 py-0.5 text-xs font-bold text-slate-600 focus:outline-none focus:border-blue-300"
+              >
+                {benchmarkIds.map(id => <option key={id} value={id}>{BENCHMARKS[id].label}</option>)}
+              </select>
+              <div className="flex gap-1 bg-slate-100 p-0.5 rounded-lg">
+                {COMPARISON_PERIODS.map(p => (
+                  <button
+                    key={p}
+                    onClick={() => setSourcePeriod(p)}
+                    className={`px-2 py-0.5 text-[10px] md:text-xs font-bold rounded-md transition-all ${
+                      sourcePeriod === p ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {p}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="overflow-x-auto border border-slate-100 rounded-lg">
+            <table className="w-full text-xs md:text-sm">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="text-left font-bold p-3">AIソース</th>
+                  {HEADERS.map(h => <th key={h} className="text-right font-bold p-3">{h}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {sourceRows.map(row => (
+                  <tr key={row.source} className="border-t border-slate-100">
+                    <td className="p-3">
+                      <span className="flex items-center gap-2 font-bold text-slate-900">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SOURCE_COLORS[row.source] }} />
+                        {row.source}
+                      </span>
+                    </td>
+                    <ComparisonCells row={row} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] md:text-xs text-slate-400 mt-2">
+            時間加重リターンで比較し、各日の為替レートで{baseCurrency}に換算しています。アルファはCAPMによる期間アルファ (ベータの計算には20日以上の日次リターンが必要)。
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+};
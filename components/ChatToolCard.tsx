@@ -0,0 +1,63 @@
+import React from 'react';
+import { Check, Loader2, Wrench, X } from 'lucide-react';
+import { ChatToolCallRecord } from '../types';
+import { CHAT_TOOL_LABELS } from '../services/chatToolService';
+
+interface ChatToolCardProps {
+  call: ChatToolCallRecord;
+  onConfirm: (key: string, approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ChatToolCallRecord['status'], string> = {
+  pending: '確認待ち',
+  applied: '反映しました',
+  rejected: 'キャンセルしました',
+  failed: '失敗しました',
+  done: '完了',
+};
+
+export const ChatToolCard: React.FC<ChatToolCardProps> = ({ call, onConfirm }) => {
+  const label = CHAT_TOOL_LABELS[call.name] ?? call.name;
+  const error = typeof call.response?.error === 'string' ? call.response.error : undefined;
+
+  // Read-only tools run without asking and only leave a one-line trace
+  if (!call.summary) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-slate-500 px-1">
+        {call.response ? <Wrench className="w-3.5 h-3.5" /> : <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+        <span className="font-bold">{label}</span>
+        {typeof call.args.ticker === 'string' && <span>{call.args.ticker}</span>}
+        {call.response && <span className={call.status === 'failed' ? 'text-red-600' : ''}>({STATUS_LABELS[call.status]})</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full bg-white border border-blue-200 rounded-xl p-3 shadow-sm text-sm">
+      <p className="text-xs font-bold text-blue-600 flex items-center gap-1.5 mb-1">
+        <Wrench className="w-3.5 h-3.5" /> {label}
+      </p>
+      <p className="text-slate-800 leading-relaxed">{call.summary}</p>
+      {call.status === 'pending' ? (
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={() => onConfirm(call.key, true)}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-bold py-1.5 rounded-lg transition-colors flex items-center justify-center gap-1"
+          >
+            <Check className="w-4 h-4" /> 反映する
+          </button>
+          <button
+            onClick={() => onConfirm(call.key, false)}
+            className="flex-1 bg-slate-100 hover:bg-slate-200 text-slate-700 font-bold py-1.5 rounded-lg transition-colors flex items-center justify-center gap-1"
+          >
+            <X className="w-4 h-4" /> キャンセル
+          </button>
+        </div>
+      ) : (
+        <p className={`text-xs font-bold mt-2 ${call.status === 'applied' ? 'text-green-600' : call.status === 'failed' ? 'text-red-600' : 'text-slate-400'}`}>
+          {call.status === 'failed' && error ? error : STATUS_LABELS[call.status]}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,81 +1,185 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { StockAsset, NewsItem, PortfolioSummary, AISource, PortfolioHistoryItem } from '../types';
-import { TrendingUp, TrendingDown, Newspaper, ExternalLink, Plus, Wallet, ArrowRight, RefreshCw, DollarSign, JapaneseYen } from 'lucide-react';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
-import { fetchStockNews } from '../services/geminiService';
+import React, { useMemo, useState } from 'react';
+import { Holding, PortfolioSummary, AISource, PortfolioHistoryItem, PriceHistory, Currency, FxRates, AlertRule, AlertEvent, HoldingAction, Portfolio, PortfolioKind, BenchmarkId, NewsSentiment } from '../types';
+import { TrendingUp, TrendingDown, Newspaper, ExternalLink, Plus, Wallet, ArrowRight, RefreshCw, ArrowLeftRight, ShieldAlert, Pencil, HandCoins, Trash2, FileSpreadsheet, Landmark, Coins, CheckCheck, Clock } from 'lucide-react';
+import { normalizeTicker, summarizeHoldings } from '../services/ledgerService';
+import { NEWS_WINDOWS, SENTIMENT_LABELS, sentimentByTicker, sentimentOf } from '../services/newsService';
+import { convertAmount, EXCHANGE_LABELS, FOREIGN_CURRENCIES } from '../services/currencyService';
+import { ALL_PORTFOLIOS, countsTowardTotal } from '../services/portfolioService';
+import { alignBenchmarks } from '../services/benchmarkService';
+import { PerformanceSeries } from '../services/performanceService';
+import { STORAGE_KEYS } from '../services/storageService';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { useNewsFeed } from '../hooks/useNewsFeed';
+import { formatMoney } from '../utils/format';
+import { HoldingDetailModal } from './HoldingDetailModal';
+import { PortfolioHistoryChart } from './PortfolioHistoryChart';
+import { Leaderboard } from './Leaderboard';
+import { AlertCenter } from './AlertCenter';
+import { EditHoldingModal } from './EditHoldingModal';
+import { SellHoldingModal } from './SellHoldingModal';
+import { RecordDividendModal } from './RecordDividendModal';
+import { DividendCalendar } from './DividendCalendar';
+import { AnalyticsPanel } from './AnalyticsPanel';
+import { BenchmarkComparisonPanel } from './BenchmarkComparisonPanel';
+import { PortfolioKindBadge, PortfolioSwitcher } from './PortfolioSwitcher';
+import { RefreshScheduler } from '../hooks/useRefreshScheduler';
+import { StockIcons } from '../hooks/useStockIcons';
+import { RefreshWaitReason } from '../services/refreshScheduler';
 
 interface DashboardProps {
-  assets: StockAsset[];
+  holdings: Holding[];
+  portfolioHistory: PortfolioHistoryItem[];
+  priceHistory: PriceHistory;
+  // Daily values of the holdings, shared by the analytics, benchmark and leaderboard panels
+  performance: PerformanceSeries;
+  // Resolves to whether the past prices of every holding and the benchmark were received
+  onFetchPriceHistory: (from: string, to: string) => Promise<boolean>;
   onOpenAddModal: () => void;
-  usdJpyRate: number;
-  onRateChange: (rate: number) => void;
-  onRefreshMarketData: () => Promise<void>;
+  onOpenImportModal: () => void;
+  onOpenTaxReport: () => void;
+  fxRates: FxRates;
+  onFxRatesChange: (rates: FxRates) => void;
+  baseCurrency: Currency;
+  onBaseCurrencyChange: (currency: Currency) => void;
+  refreshScheduler: RefreshScheduler;
+  stockIcons: StockIcons;
+  onAcceptPendingQuote: (assetId: string) => void;
+  onRejectPendingQuote: (assetId: string) => void;
+  // Edit, sell, record a dividend or delete; returns an error message when rejected
+  onHoldingAction: (action: HoldingAction) => string | null;
   isRefreshing: boolean;
+  alertRules: AlertRule[];
+  onAlertRulesChange: (rules: AlertRule[]) => void;
+  alertEvents: AlertEvent[];
+  onAlertEventsChange: (events: AlertEvent[]) => void;
+  portfolios: Portfolio[];
+  // A portfolio id, or ALL_PORTFOLIOS for the read-only aggregated view
+  activePortfolioId: string;
+  portfolioSummaries: Record<string, PortfolioSummary>;
+  onSelectPortfolio: (id: string) => void;
+  onAddPortfolio: (name: string, kind: PortfolioKind) => void;
+  onRenamePortfolio: (id: string, name: string) => void;
+  onDeletePortfolio: (id: string) => string | null;
 }
 
+const REFRESH_INTERVAL_OPTIONS = [0, 15, 30, 60, 120];
+
+const SENTIMENT_STYLES: Record<NewsSentiment, string> = {
+  positive: 'bg-green-50 text-green-700 border-green-200',
+  neutral: 'bg-slate-100 text-slate-500 border-slate-200',
+  negative: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const SentimentBadge: React.FC<{ score: number; title?: string }> = ({ score, title }) => (
+  <span title={title} className={`text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap ${SENTIMENT_STYLES[sentimentOf(score)]}`}>
+    {SENTIMENT_LABELS[sentimentOf(score)]}
+  </span>
+);
+
+const WAIT_REASON_LABELS: Record<RefreshWaitReason, string> = {
+  interval: '',
+  backoff: '失敗のため再試行',
+  market_closed: '次の取引時間',
+  budget: '本日の上限に到達',
+};
+
+const formatRefreshTime = (time: number) =>
+  new Date(time).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Keeps what is typed until it is a usable rate; an empty or non-positive value reverts on blur
+const FxRateInput: React.FC<{ rate: number; onChange: (rate: number) => void }> = ({ rate, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <input
+      type="number"
+      value={draft ?? rate}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const value = parseFloat(e.target.value);
+        if (isFinite(value) && value > 0) onChange(value);
+      }}
+      onBlur={() => setDraft(null)}
+      className="w-14 md:w-16 text-right font-bold text-slate-900 bg-transparent focus:outline-none border-b border-transparent focus:border-blue-500 transition-colors text-sm md:text-base"
+      step="0.1"
+    />
+  );
+};
+
 export const Dashboard: React.FC<DashboardProps> = ({ 
-  assets, 
+  holdings, 
+  portfolioHistory,
+  priceHistory,
+  performance,
+  onFetchPriceHistory,
   onOpenAddModal, 
-  usdJpyRate, 
-  onRateChange,
-  onRefreshMarketData,
-  isRefreshing
+  onOpenImportModal,
+  onOpenTaxReport,
+  fxRates, 
+  onFxRatesChange,
+  baseCurrency,
+  onBaseCurrencyChange,
+  refreshScheduler,
+  stockIcons,
+  onAcceptPendingQuote,
+  onRejectPendingQuote,
+  onHoldingAction,
+  isRefreshing,
+  alertRules,
+  onAlertRulesChange,
+  alertEvents,
+  onAlertEventsChange,
+  portfolios,
+  activePortfolioId,
+  portfolioSummaries,
+  onSelectPortfolio,
+  onAddPortfolio,
+  onRenamePortfolio,
+  onDeletePortfolio
 }) => {
-  const [news, setNews] = useState<NewsItem[]>([]);
-  const [loadingNews, setLoadingNews] = useState(false);
+  // Ticker whose stories are shown, or null for all of them
+  const [newsTicker, setNewsTicker] = useState<string | null>(null);
+  // Rows are tracked by asset id, since the all-accounts view can list a ticker more than once
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [sellingId, setSellingId] = useState<string | null>(null);
+  const [dividendId, setDividendId] = useState<string | null>(null);
+
+  const selectedHolding = holdings.find(h => h.id === selectedId);
+  const editingHolding = holdings.find(h => h.id === editingId);
+  const sellingHolding = holdings.find(h => h.id === sellingId);
+  const dividendHolding = holdings.find(h => h.id === dividendId);
+
+  const [benchmarkIds, setBenchmarkIds] = usePersistentState<BenchmarkId[]>(STORAGE_KEYS.BENCHMARKS, ['SP500']);
+  const benchmarkPoints = useMemo(
+    () => alignBenchmarks(holdings, performance.atDailyRates.portfolio, priceHistory, fxRates, baseCurrency),
+    [holdings, performance, priceHistory, fxRates, baseCurrency]
+  );
+
+  const newsTickers = [...new Set(holdings.map(h => normalizeTicker(h.ticker)))];
+  const newsFeed = useNewsFeed(newsTickers);
+  const news = newsFeed.items;
+  const tickerSentiment = useMemo(() => sentimentByTicker(news), [news]);
+  // A sold-out ticker's chip disappears, so its filter falls back to all stories
+  const activeNewsTicker = newsTicker && newsTickers.includes(newsTicker) ? newsTicker : null;
+  const unreadCount = (ticker: string | null) =>
+    news.filter(item => newsFeed.isUnread(item) && (!ticker || (item.ticker && normalizeTicker(item.ticker) === ticker))).length;
+  const visibleNews = activeNewsTicker ? news.filter(item => item.ticker && normalizeTicker(item.ticker) === activeNewsTicker) : news;
+
+  // The aggregated view only reads; changes go through a single portfolio
+  const isAllAccounts = activePortfolioId === ALL_PORTFOLIOS;
+
+  // Row action buttons sit inside the clickable row
+  const rowAction = (handler: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler();
+  };
 
   // Derived State for Summary
-  const summary: PortfolioSummary = assets.reduce((acc, asset) => {
-    const currentVal = asset.quantity * asset.currentPrice;
-    const costBasis = asset.quantity * asset.avgPrice;
-    return {
-      totalValue: acc.totalValue + currentVal,
-      totalCost: acc.totalCost + costBasis,
-      totalGain: acc.totalGain + (currentVal - costBasis),
-      gainPercentage: 0 // calculated below
-    };
-  }, { totalValue: 0, totalCost: 0, totalGain: 0, gainPercentage: 0 });
-
-  summary.gainPercentage = summary.totalCost > 0 ? (summary.totalGain / summary.totalCost) * 100 : 0;
-
-  // Mock History Generation based on current Total Value
-  const historyData: PortfolioHistoryItem[] = useMemo(() => {
-    if (summary.totalValue === 0) return [];
-    
-    const data: PortfolioHistoryItem[] = [];
-    let currentValue = summary.totalValue;
-    
-    // Generate 6 months of data points backwards
-    for (let i = 0; i < 6; i++) {
-      const date = new Date();
-      date.setMonth(date.getMonth() - i);
-      const monthLabel = `${date.getMonth() + 1}月`;
-      
-      data.unshift({
-        date: monthLabel,
-        value: currentValue
-      });
-
-      const change = (Math.random() * 0.15) - 0.05;
-      currentValue = currentValue / (1 + change);
-    }
-    return data;
-  }, [summary.totalValue]);
-
-  useEffect(() => {
-    const getNews = async () => {
-      if (assets.length > 0) {
-        setLoadingNews(true);
-        const items = await fetchStockNews(assets.map(a => a.ticker));
-        setNews(items);
-        setLoadingNews(false);
-      }
-    };
-    getNews();
-  }, [assets.length]);
-
-  const formatUSD = (num: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(num);
-  const formatJPY = (num: number) => new Intl.NumberFormat('ja-JP', { style: 'currency', currency: 'JPY' }).format(num);
+  const summary: PortfolioSummary = summarizeHoldings(holdings, fxRates, baseCurrency);
+
+  // Secondary currency shown under amounts: JPY, or USD when JPY is already the base
+  const altCurrency = baseCurrency === Currency.JPY ? Currency.USD : Currency.JPY;
+  const toBase = (amount: number, from: Currency) => convertAmount(amount, from, baseCurrency, fxRates);
 
   return (
     <div className="flex-1 overflow-y-auto p-4 md:p-8 pb-24 md:pb-8 bg-slate-50">
@@ -89,46 +193,97 @@ export const Dashboard: React.FC<DashboardProps> = ({
                         米国株<span className="text-blue-600">資産管理</span>
                     </h1>
                     <p className="text-slate-500 mt-1 text-sm sm:text-base">AI駆動型ポートフォリオ・トラッキング</p>
+                    <div className="mt-2">
+                        <PortfolioSwitcher
+                            portfolios={portfolios}
+                            activePortfolioId={activePortfolioId}
+                            summaries={portfolioSummaries}
+                            baseCurrency={baseCurrency}
+                            onSelect={onSelectPortfolio}
+                            onAdd={onAddPortfolio}
+                            onRename={onRenamePortfolio}
+                            onDelete={onDeletePortfolio}
+                        />
+                    </div>
+                    <p className="text-slate-400 mt-1 text-xs">
+                        最終更新: {refreshScheduler.lastSuccessAt ? formatRefreshTime(refreshScheduler.lastSuccessAt) : '未取得'}
+                        <span className="mx-1.5">·</span>
+                        次回: {refreshScheduler.next
+                            ? `${formatRefreshTime(refreshScheduler.next.at)}${WAIT_REASON_LABELS[refreshScheduler.next.reason] && ` (${WAIT_REASON_LABELS[refreshScheduler.next.reason]})`}`
+                            : '自動更新オフ'}
+                        <span className="mx-1.5">·</span>
+                        本日残り {refreshScheduler.remainingRequests} 回
+                    </p>
                 </div>
                 <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between sm:justify-end gap-3 w-full sm:w-auto">
                     
-                     {/* Market Refresh Button */}
-                    <button
-                        onClick={onRefreshMarketData}
-                        disabled={isRefreshing}
-                        className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl font-bold text-sm transition-all shadow-sm border ${
-                            isRefreshing 
-                            ? 'bg-slate-100 text-slate-400 border-slate-200 cursor-not-allowed' 
-                            : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50 hover:text-blue-600 hover:border-blue-200'
-                        }`}
-                    >
-                        <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-                        <span className="whitespace-nowrap">
-                            {isRefreshing ? '市場データ取得中...' : '市場データを更新'}
-                        </span>
-                    </button>
+                     {/* Market Refresh Button & Auto Refresh Interval */}
+                    <div className="flex items-stretch gap-2">
+                        <button
+                            onClick={refreshScheduler.refresh}
+                            disabled={isRefreshing || refreshScheduler.remainingRequests === 0}
+                            title={refreshScheduler.remainingRequests === 0 ? '本日の取得回数の上限に達しました' : undefined}
+                            className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl font-bold text-sm transition-all shadow-sm border ${
+                                isRefreshing 
+                                ? 'bg-slate-100 text-slate-400 border-slate-200 cursor-not-allowed' 
+                                : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50 hover:text-blue-600 hover:border-blue-200'
+                            }`}
+                        >
+                            <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                            <span className="whitespace-nowrap">
+                                {isRefreshing ? '市場データ取得中...' : '市場データを更新'}
+                            </span>
+                        </button>
+                        <select
+                            value={refreshScheduler.intervalMinutes}
+                            onChange={(e) => refreshScheduler.setIntervalMinutes(Number(e.target.value))}
+                            title="自動更新の間隔 (取引時間中のみ)"
+                            className="bg-white border border-slate-200 rounded-xl px-2 text-xs font-bold text-slate-600 shadow-sm focus:outline-none focus:border-blue-300"
+                        >
+                            {REFRESH_INTERVAL_OPTIONS.map(m => (
+                                <option key={m} value={m}>{m === 0 ? '自動オフ' : `${m}分毎`}</option>
+                            ))}
+                        </select>
+                    </div>
 
-                    {/* USD/JPY Rate Input */}
-                    <div className="bg-white border border-slate-200 rounded-xl p-2 px-3 md:px-4 flex items-center gap-2 md:gap-3 shadow-sm flex-1 sm:flex-none justify-center">
-                        <div className="flex items-center gap-1 text-slate-500 text-xs md:text-sm font-bold">
-                            <DollarSign className="w-3 h-3" /> / <JapaneseYen className="w-3 h-3" />
-                        </div>
-                        <input 
-                            type="number" 
-                            value={usdJpyRate}
-                            onChange={(e) => onRateChange(parseFloat(e.target.value) || 0)}
-                            className="w-16 md:w-20 text-right font-bold text-slate-900 bg-transparent focus:outline-none border-b border-transparent focus:border-blue-500 transition-colors text-sm md:text-base"
-                            step="0.1"
-                        />
-                        <span className="text-[10px] md:text-xs text-slate-400 font-medium">JPY</span>
+                    {/* Alert Inbox & Rules */}
+                    <AlertCenter
+                        holdings={holdings}
+                        rules={alertRules}
+                        onRulesChange={onAlertRulesChange}
+                        events={alertEvents}
+                        onEventsChange={onAlertEventsChange}
+                    />
+
+                    {/* Base Currency & FX Rate Inputs */}
+                    <div className="bg-white border border-slate-200 rounded-xl p-2 px-3 md:px-4 flex items-center gap-2 md:gap-3 shadow-sm flex-1 sm:flex-none justify-center flex-wrap">
+                        <select
+                            value={baseCurrency}
+                            onChange={(e) => onBaseCurrencyChange(e.target.value as Currency)}
+                            title="基準通貨"
+                            className="font-bold text-slate-900 bg-slate-100 rounded-md px-1.5 py-0.5 text-xs md:text-sm focus:outline-none"
+                        >
+                            {Object.values(Currency).map(c => (
+                                <option key={c} value={c}>{c}</option>
+                            ))}
+                        </select>
+                        <ArrowLeftRight className="w-3 h-3 text-slate-400" />
+                        {FOREIGN_CURRENCIES.map(currency => (
+                            <label key={currency} className="flex items-center gap-1">
+                                <span className="text-[10px] md:text-xs text-slate-500 font-bold">{currency}/JPY</span>
+                                <FxRateInput rate={fxRates[currency]} onChange={rate => onFxRatesChange({ ...fxRates, [currency]: rate })} />
+                            </label>
+                        ))}
                     </div>
 
-                    <button 
-                        onClick={onOpenAddModal}
-                        className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-lg shadow-blue-600/20 hover:shadow-blue-600/30 transform hover:-translate-y-0.5 text-sm sm:text-base whitespace-nowrap justify-center"
-                    >
-                        <Plus className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="inline">銘柄を追加</span>
-                    </button>
+                    {!isAllAccounts && (
+                        <button 
+                            onClick={onOpenAddModal}
+                            className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-lg shadow-blue-600/20 hover:shadow-blue-600/30 transform hover:-translate-y-0.5 text-sm sm:text-base whitespace-nowrap justify-center"
+                        >
+                            <Plus className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="inline">銘柄を追加</span>
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -140,9 +295,9 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     </div>
                     <p className="text-slate-500 font-bold text-xs md:text-sm mb-1">総資産評価額</p>
                     <div className="flex flex-col">
-                        <h2 className="text-3xl sm:text-4xl font-black text-slate-900 tracking-tight">{formatUSD(summary.totalValue)}</h2>
+                        <h2 className="text-3xl sm:text-4xl font-black text-slate-900 tracking-tight">{formatMoney(summary.totalValue, baseCurrency)}</h2>
                         <p className="text-base sm:text-lg font-bold text-slate-400 mt-1">
-                           ≈ {formatJPY(summary.totalValue * usdJpyRate)}
+                           ≈ {formatMoney(convertAmount(summary.totalValue, baseCurrency, altCurrency, fxRates), altCurrency)}
                         </p>
                     </div>
                     <div className="mt-4 flex items-center gap-2">
@@ -150,79 +305,92 @@ export const Dashboard: React.FC<DashboardProps> = ({
                             {summary.totalGain >= 0 ? <TrendingUp className="w-3 h-3 md:w-4 md:h-4"/> : <TrendingDown className="w-3 h-3 md:w-4 md:h-4"/>}
                             {summary.totalGain >= 0 ? '+' : ''}{summary.gainPercentage.toFixed(2)}%
                         </span>
-                        <span className="text-slate-400 text-xs md:text-sm font-medium">全期間リターン (USD)</span>
+                        <span className="text-slate-400 text-xs md:text-sm font-medium">全期間リターン ({baseCurrency})</span>
                     </div>
+                    {summary.realizedGain !== 0 && (
+                        <p className="mt-2 text-xs md:text-sm font-bold text-slate-500">
+                            実現損益 <span className={summary.realizedGain >= 0 ? 'text-green-600' : 'text-red-600'}>{formatMoney(summary.realizedGain, baseCurrency)}</span>
+                        </p>
+                    )}
                 </div>
 
                 {/* Card 2: Chart (Asset History) */}
-                <div className="bg-white rounded-2xl p-5 md:p-6 border border-slate-200 shadow-sm col-span-1 md:col-span-2 flex flex-col hover:shadow-md transition-shadow">
-                     <div className="flex items-center justify-between mb-4">
-                        <h3 className="text-slate-500 font-bold text-xs md:text-sm">資産推移 (過去6ヶ月/USD)</h3>
-                        <span className="text-[10px] md:text-xs text-slate-400 bg-slate-100 px-2 py-1 rounded-full">シミュレーション</span>
-                     </div>
-                     <div className="flex-1 min-h-[150px]">
-                        <ResponsiveContainer width="100%" height="100%">
-                            <AreaChart data={historyData}>
-                                <defs>
-                                    <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
-                                        <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
-                                        <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-                                    </linearGradient>
-                                </defs>
-                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                                <XAxis 
-                                    dataKey="date" 
-                                    stroke="#94a3b8" 
-                                    fontSize={12} 
-                                    tickLine={false} 
-                                    axisLine={false} 
-                                    tickMargin={10}
-                                />
-                                <YAxis 
-                                    hide={true} 
-                                    domain={['dataMin - 100', 'dataMax + 100']} 
-                                />
-                                <Tooltip 
-                                    cursor={{stroke: '#94a3b8', strokeWidth: 1, strokeDasharray: '5 5'}}
-                                    contentStyle={{ backgroundColor: '#ffffff', borderColor: '#e2e8f0', color: '#0f172a', borderRadius: '0.75rem', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
-                                    itemStyle={{ color: '#2563eb', fontWeight: 'bold' }}
-                                    formatter={(value: number) => [formatUSD(value), '評価額']}
-                                />
-                                <Area 
-                                    type="monotone" 
-                                    dataKey="value" 
-                                    stroke="#2563eb" 
-                                    strokeWidth={3}
-                                    fillOpacity={1} 
-                                    fill="url(#colorValue)" 
-                                />
-                            </AreaChart>
-                        </ResponsiveContainer>
-                     </div>
-                </div>
+                <PortfolioHistoryChart
+                    history={portfolioHistory}
+                    baseCurrency={baseCurrency}
+                    fxRates={fxRates}
+                    benchmarkPoints={benchmarkPoints}
+                    benchmarkIds={benchmarkIds}
+                    onBenchmarkIdsChange={setBenchmarkIds}
+                />
             </div>
+
+            {/* Per-Portfolio Breakdown (All Accounts only) */}
+            {isAllAccounts && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mt-4">
+                    {portfolios.map(portfolio => {
+                        const portfolioSummary = portfolioSummaries[portfolio.id];
+                        if (!portfolioSummary) return null;
+                        return (
+                            <button
+                                key={portfolio.id}
+                                onClick={() => onSelectPortfolio(portfolio.id)}
+                                className={`text-left bg-white rounded-xl p-4 border border-slate-200 shadow-sm hover:shadow-md hover:border-blue-200 transition-all ${countsTowardTotal(portfolio) ? '' : 'opacity-60'}`}
+                            >
+                                <div className="flex items-center gap-2 mb-1">
+                                    <p className="font-bold text-slate-800 text-sm truncate">{portfolio.name}</p>
+                                    <PortfolioKindBadge kind={portfolio.kind} />
+                                </div>
+                                <p className="font-black text-slate-900 text-lg">{formatMoney(portfolioSummary.totalValue, baseCurrency)}</p>
+                                <p className={`text-xs font-bold ${portfolioSummary.totalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {portfolioSummary.totalGain >= 0 ? '+' : ''}{formatMoney(portfolioSummary.totalGain, baseCurrency)} ({portfolioSummary.gainPercentage.toFixed(1)}%)
+                                </p>
+                                {!countsTowardTotal(portfolio) && <p className="text-[10px] text-slate-400 mt-1">合計には含まれません</p>}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
         </header>
 
         {/* Stock List */}
         <section>
-            <h3 className="text-lg sm:text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
-                <Wallet className="w-5 h-5 text-slate-400" /> 保有銘柄
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg sm:text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Wallet className="w-5 h-5 text-slate-400" /> 保有銘柄
+                </h3>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={onOpenTaxReport}
+                        className="text-xs sm:text-sm font-bold text-slate-500 hover:text-blue-600 flex items-center gap-1.5 px-3 py-1.5 rounded-lg hover:bg-blue-50 transition-colors"
+                    >
+                        <Landmark className="w-4 h-4" /> 税務レポート
+                    </button>
+                    {!isAllAccounts && (
+                        <button
+                            onClick={onOpenImportModal}
+                            className="text-xs sm:text-sm font-bold text-slate-500 hover:text-blue-600 flex items-center gap-1.5 px-3 py-1.5 rounded-lg hover:bg-blue-50 transition-colors"
+                        >
+                            <FileSpreadsheet className="w-4 h-4" /> インポート / エクスポート
+                        </button>
+                    )}
+                </div>
+            </div>
             <div className="grid grid-cols-1 gap-3 md:gap-4">
-                {assets.map(asset => {
+                {holdings.map(asset => {
                     const gain = (asset.currentPrice - asset.avgPrice) * asset.quantity;
-                    const gainPercent = ((asset.currentPrice - asset.avgPrice) / asset.avgPrice) * 100;
+                    const gainPercent = asset.avgPrice > 0 ? ((asset.currentPrice - asset.avgPrice) / asset.avgPrice) * 100 : 0;
                     
                     return (
-                        <div key={asset.id} className="bg-white hover:bg-slate-50 border border-slate-200 hover:border-slate-300 rounded-xl p-4 sm:p-5 flex flex-col sm:flex-row items-start sm:items-center gap-4 sm:gap-5 transition-all group shadow-sm">
+                        <div 
+                            key={asset.id} 
+                            onClick={() => setSelectedId(asset.id)}
+                            className="bg-white hover:bg-slate-50 border border-slate-200 hover:border-slate-300 rounded-xl p-4 sm:p-5 flex flex-col sm:flex-row items-start sm:items-center gap-4 sm:gap-5 transition-all group shadow-sm cursor-pointer"
+                        >
                             {/* Left: Icon & Info */}
                             <div className="flex items-center gap-4 w-full sm:flex-1">
                                 <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-slate-100 border border-slate-200 overflow-hidden flex-shrink-0 flex items-center justify-center shadow-inner relative">
-                                    {asset.iconUrl ? (
-                                        <img src={asset.iconUrl} alt={asset.ticker} className="w-full h-full object-cover" />
-                                    ) : (
-                                        <span className="text-sm font-bold text-slate-500">{asset.ticker}</span>
-                                    )}
+                                    <img src={stockIcons.urlOf(asset.ticker)} alt={asset.ticker} className={`w-full h-full object-cover ${stockIcons.isGenerating(asset.ticker) ? 'animate-pulse' : ''}`} />
                                 </div>
                                 
                                 <div className="flex-1 min-w-0">
@@ -231,9 +399,39 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                         <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 border border-slate-200 uppercase tracking-wide whitespace-nowrap">
                                             {asset.source}
                                         </span>
+                                        {asset.portfolioName && (
+                                            <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600 border border-indigo-100 whitespace-nowrap">
+                                                {asset.portfolioName}
+                                            </span>
+                                        )}
+                                        {asset.exchange && (
+                                            <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-blue-50 text-blue-600 border border-blue-100 whitespace-nowrap">
+                                                {EXCHANGE_LABELS[asset.exchange]} · {asset.currency}
+                                            </span>
+                                        )}
+                                        {tickerSentiment.has(normalizeTicker(asset.ticker)) && (
+                                            <SentimentBadge score={tickerSentiment.get(normalizeTicker(asset.ticker))!} title="最新ニュースの論調" />
+                                        )}
+                                        {asset.awaitingQuote && (
+                                            <span 
+                                                title="取得単価を表示中です。市場価格を取得すると更新されます。"
+                                                className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 border border-slate-200 whitespace-nowrap flex items-center gap-1"
+                                            >
+                                                <Clock className="w-3 h-3" /> 株価取得中
+                                            </span>
+                                        )}
+                                        {asset.pendingQuote && (
+                                            <span 
+                                                title={asset.pendingQuote.reason}
+                                                className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200 whitespace-nowrap flex items-center gap-1"
+                                            >
+                                                <ShieldAlert className="w-3 h-3" /> 未検証 {formatMoney(asset.pendingQuote.price, asset.currency)}
+                                            </span>
+                                        )}
                                     </div>
                                     <div className="text-slate-500 text-xs sm:text-sm mt-1 font-medium truncate">
-                                        {asset.quantity}株 <span className="text-slate-300 mx-1">|</span> 平均 {formatUSD(asset.avgPrice)}
+                                        {asset.quantity}株 <span className="text-slate-300 mx-1">|</span> 平均 {formatMoney(asset.avgPrice, asset.currency)}
+                                        <span className="text-slate-300 mx-1">|</span> 取引 {asset.transactions.length}件
                                     </div>
                                 </div>
                             </div>
@@ -243,21 +441,59 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                 <span className="sm:hidden text-xs font-bold text-slate-400">現在評価額</span>
                                 
                                 <div className="text-right">
-                                    <div className="font-black text-slate-900 text-lg sm:text-xl leading-none mb-1">{formatUSD(asset.currentPrice * asset.quantity)}</div>
-                                    <div className="text-slate-400 text-xs sm:text-sm font-bold mb-1">
-                                        ≈ {formatJPY(asset.currentPrice * asset.quantity * usdJpyRate)}
-                                    </div>
+                                    <div className="font-black text-slate-900 text-lg sm:text-xl leading-none mb-1">{formatMoney(asset.currentPrice * asset.quantity, asset.currency)}</div>
+                                    {asset.currency !== baseCurrency && (
+                                        <div className="text-slate-400 text-xs sm:text-sm font-bold mb-1">
+                                            ≈ {formatMoney(toBase(asset.currentPrice * asset.quantity, asset.currency), baseCurrency)}
+                                        </div>
+                                    )}
                                     <div className={`text-xs sm:text-sm font-bold flex items-center justify-end gap-1 ${gain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                                         {gain >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
-                                        {formatUSD(gain)} ({gainPercent.toFixed(1)}%)
+                                        {formatMoney(gain, asset.currency)} ({gainPercent.toFixed(1)}%)
                                     </div>
                                 </div>
                             </div>
+
+                            {/* Row Actions */}
+                            {!isAllAccounts && (
+                                <div className="flex sm:flex-col gap-1 self-end sm:self-center">
+                                    <button
+                                        onClick={rowAction(() => setEditingId(asset.id))}
+                                        title="編集"
+                                        className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                                    >
+                                        <Pencil className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={rowAction(() => setSellingId(asset.id))}
+                                        disabled={asset.quantity <= 0}
+                                        title="売却"
+                                        className="p-1.5 rounded-lg text-slate-400 hover:text-orange-600 hover:bg-orange-50 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                                    >
+                                        <HandCoins className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={rowAction(() => setDividendId(asset.id))}
+                                        disabled={asset.quantity <= 0}
+                                        title="配当を記録"
+                                        className="p-1.5 rounded-lg text-slate-400 hover:text-green-600 hover:bg-green-50 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                                    >
+                                        <Coins className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={rowAction(() => onHoldingAction({ type: 'delete', ticker: asset.ticker }))}
+                                        title="削除"
+                                        className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     );
                 })}
 
-                {assets.length === 0 && (
+                {holdings.length === 0 && (
                     <div className="text-center py-16 bg-white border-dashed border-2 border-slate-200 rounded-xl">
                         <p className="text-slate-400 font-bold mb-2 text-lg">資産がまだありません。</p>
                         <p className="text-slate-500 text-sm">「銘柄を追加」ボタンから手動入力するか、<br/>取引スクショをアップロードしてください。</p>
@@ -266,46 +502,190 @@ export const Dashboard: React.FC<DashboardProps> = ({
             </div>
         </section>
 
+        {/* Allocation, Concentration & Risk */}
+        <AnalyticsPanel
+            holdings={holdings}
+            dailyValues={performance.atCurrentRates.portfolio}
+            priceHistory={priceHistory}
+            fxRates={fxRates}
+            baseCurrency={baseCurrency}
+            onFetchPriceHistory={onFetchPriceHistory}
+        />
+
+        {/* Returns Against Index Benchmarks, Overall and per AI Source */}
+        <BenchmarkComparisonPanel
+            holdings={holdings}
+            priceHistory={priceHistory}
+            fxRates={fxRates}
+            baseCurrency={baseCurrency}
+            benchmarkPoints={benchmarkPoints}
+            sourceValues={performance.atDailyRates.sources}
+            benchmarkIds={benchmarkIds}
+        />
+
+        {/* Projected Dividend Income & Upcoming Payments */}
+        <DividendCalendar holdings={holdings} fxRates={fxRates} />
+
+        {/* Per-AI Source Leaderboard */}
+        <Leaderboard 
+            holdings={holdings} 
+            sourceValues={performance.atCurrentRates.sources} 
+            fxRates={fxRates} 
+            baseCurrency={baseCurrency} 
+        />
+
         {/* Google Search Grounding News */}
         <section>
-             <h3 className="text-lg sm:text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
-                <Newspaper className="w-5 h-5 text-slate-400" /> 
-                関連ニュース (Google Grounding)
-            </h3>
+            <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+                <h3 className="text-lg sm:text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Newspaper className="w-5 h-5 text-slate-400" /> 
+                    関連ニュース (Google Grounding)
+                </h3>
+                <div className="flex items-center gap-2">
+                    <div className="flex gap-1 bg-slate-100 p-0.5 rounded-lg">
+                        {(Object.keys(NEWS_WINDOWS) as (keyof typeof NEWS_WINDOWS)[]).map(w => (
+                            <button
+                                key={w}
+                                onClick={() => newsFeed.setNewsWindow(w)}
+                                className={`px-2 py-0.5 text-[10px] md:text-xs font-bold rounded-md transition-all ${
+                                    newsFeed.newsWindow === w ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'
+                                }`}
+                            >
+                                {NEWS_WINDOWS[w].label}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => newsFeed.refresh()}
+                        disabled={newsFeed.isLoading || holdings.length === 0}
+                        title="すべての銘柄のニュースを再取得"
+                        className="p-1.5 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-50"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${newsFeed.isLoading ? 'animate-spin' : ''}`} />
+                    </button>
+                </div>
+            </div>
             
-            {loadingNews && (
+            {newsFeed.isLoading && news.length === 0 && (
                 <div className="flex items-center gap-2 text-slate-500 text-sm animate-pulse bg-white p-4 rounded-xl border border-slate-200">
                     <RefreshCw className="w-4 h-4 animate-spin text-blue-600" /> 市場データを取得中...
                 </div>
             )}
 
-            {!loadingNews && news.length > 0 && (
+            {news.length > 0 && (
+                <>
+                <div className="flex items-center justify-between gap-2 mb-3 flex-wrap">
+                    <div className="flex flex-wrap gap-1.5">
+                        {[null, ...newsTickers].map(ticker => (
+                            <button
+                                key={ticker ?? 'all'}
+                                onClick={() => setNewsTicker(ticker)}
+                                className={`text-xs font-bold px-3 py-1 rounded-full border transition-colors ${
+                                    activeNewsTicker === ticker ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'
+                                }`}
+                            >
+                                {ticker ?? 'すべて'}
+                                {unreadCount(ticker) > 0 && <span className="ml-1 opacity-75">{unreadCount(ticker)}</span>}
+                            </button>
+                        ))}
+                    </div>
+                    {unreadCount(activeNewsTicker) > 0 && (
+                        <button
+                            onClick={() => newsFeed.markRead(visibleNews)}
+                            className="text-xs font-bold text-slate-500 hover:text-blue-600 flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-blue-50 transition-colors"
+                        >
+                            <CheckCheck className="w-3.5 h-3.5" /> すべて既読にする
+                        </button>
+                    )}
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {news.map((item, idx) => (
-                        <div key={idx} className="bg-white border border-slate-200 rounded-xl p-4 sm:p-5 shadow-sm hover:shadow-md transition-shadow">
-                             <h4 className="font-bold text-sm sm:text-base text-blue-700 mb-2 line-clamp-2">{item.headline}</h4>
-                             <p className="text-slate-600 text-xs sm:text-sm leading-relaxed line-clamp-3 mb-3">{item.summary}</p>
-                             <div className="flex items-center justify-between mt-auto">
-                                <span className="text-xs font-medium text-slate-400">{item.source}</span>
-                                {item.url && (
-                                    <a href={item.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-slate-400 font-bold text-xs hover:text-blue-600 transition-colors">
-                                        <ExternalLink className="w-3 h-3" /> 読む
-                                    </a>
+                    {visibleNews.map((item, idx) => (
+                        <div key={idx} className="bg-white border border-slate-200 rounded-xl p-4 sm:p-5 shadow-sm hover:shadow-md transition-shadow flex flex-col">
+                             <div className="flex items-center gap-1.5 mb-2 flex-wrap">
+                                {newsFeed.isUnread(item) && (
+                                    <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-blue-600 text-white">未読</span>
                                 )}
+                                {item.ticker && (
+                                    <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 border border-slate-200">{item.ticker}</span>
+                                )}
+                                {item.sentiment !== undefined && <SentimentBadge score={item.sentiment} title={`スコア ${item.sentiment.toFixed(2)}`} />}
+                                {item.publishedAt && <span className="text-[10px] font-medium text-slate-400 ml-auto">{item.publishedAt}</span>}
+                             </div>
+                             <h4 className={`font-bold text-sm sm:text-base mb-2 line-clamp-2 ${newsFeed.isUnread(item) ? 'text-blue-700' : 'text-slate-600'}`}>{item.headline}</h4>
+                             <p className="text-slate-600 text-xs sm:text-sm leading-relaxed line-clamp-3 mb-3">{item.summary}</p>
+                             <div className="flex items-center justify-between gap-2 mt-auto">
+                                <span className="text-xs font-medium text-slate-400 truncate">{item.source}</span>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    {item.citations.map((citation, i) => (
+                                        <a key={citation.url} href={citation.url} target="_blank" rel="noopener noreferrer" title={citation.title} onClick={() => newsFeed.markRead([item])} className="inline-flex items-center gap-1 text-slate-400 font-bold text-xs hover:text-blue-600 transition-colors">
+                                            <ExternalLink className="w-3 h-3" /> {i === 0 ? '読む' : `出典${i + 1}`}
+                                        </a>
+                                    ))}
+                                </div>
                              </div>
                         </div>
                     ))}
                 </div>
+                {visibleNews.length === 0 && (
+                    <div className="text-slate-500 text-sm italic bg-white p-4 rounded-xl border border-slate-200">
+                        {activeNewsTicker} に関するニュースはありません。
+                    </div>
+                )}
+                </>
             )}
 
-            {!loadingNews && news.length === 0 && assets.length > 0 && (
+            {!newsFeed.isLoading && news.length === 0 && holdings.length > 0 && (
                 <div className="text-slate-500 text-sm italic bg-white p-4 rounded-xl border border-slate-200">
                     保有銘柄に関する重要なニュースは見つかりませんでした。
                 </div>
             )}
+
+            {holdings.length > 0 && (
+                <p className="text-[10px] md:text-xs text-slate-400 mt-2">
+                    最終取得: {newsFeed.lastFetchedAt ? formatRefreshTime(newsFeed.lastFetchedAt) : '未取得'}
+                    {newsFeed.failed && <span className="ml-1.5 font-bold text-red-600">ニュースを取得できませんでした。保存済みの記事を表示しています。</span>}
+                </p>
+            )}
         </section>
 
       </div>
+
+      {selectedHolding && (
+        <HoldingDetailModal 
+          holding={selectedHolding} 
+          priceHistory={priceHistory[selectedHolding.ticker.toUpperCase()] ?? []}
+          fxRates={fxRates}
+          baseCurrency={baseCurrency}
+          stockIcons={stockIcons}
+          onAcceptPendingQuote={() => onAcceptPendingQuote(selectedHolding.id)}
+          onRejectPendingQuote={() => onRejectPendingQuote(selectedHolding.id)}
+          onClose={() => setSelectedId(null)} 
+        />
+      )}
+
+      {editingHolding && (
+        <EditHoldingModal
+          holding={editingHolding}
+          onSubmit={onHoldingAction}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+
+      {sellingHolding && (
+        <SellHoldingModal
+          holding={sellingHolding}
+          onSubmit={onHoldingAction}
+          onClose={() => setSellingId(null)}
+        />
+      )}
+
+      {dividendHolding && (
+        <RecordDividendModal
+          holding={dividendHolding}
+          onSubmit={onHoldingAction}
+          onClose={() => setDividendId(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { Currency, FxRates, Holding, UpcomingDividend } from '../types';
+import { projectAnnualIncome, upcomingDividends, DIVIDEND_FREQUENCY_LABELS } from '../services/dividendService';
+import { convertAmount } from '../services/currencyService';
+import { formatMoney } from '../utils/format';
+import { parseDateKey } from '../utils/date';
+
+interface DividendCalendarProps {
+  holdings: Holding[];
+  fxRates: FxRates;
+}
+
+// Every amount is shown in both, whatever the base currency
+const DISPLAY_CURRENCIES = [Currency.USD, Currency.JPY];
+
+// JPY amounts are shown with USD next to them, everything else with JPY
+const altOf = (currency: Currency) => currency === Currency.JPY ? Currency.USD : Currency.JPY;
+
+const formatMonth = (date: string) =>
+  parseDateKey(date).toLocaleDateString('ja-JP', { year: 'numeric', month: 'long' });
+
+const formatDay = (date: string) =>
+  parseDateKey(date).toLocaleDateString('ja-JP', { month: 'numeric', day: 'numeric' });
+
+export const DividendCalendar: React.FC<DividendCalendarProps> = ({ holdings, fxRates }) => {
+  const income = useMemo(
+    () => holdings
+      .filter(h => h.dividend && h.quantity > 0)
+      .map(h => ({ holding: h, ...projectAnnualIncome(h) }))
+      .sort((a, b) => convertAmount(b.net, b.holding.currency, Currency.JPY, fxRates) - convertAmount(a.net, a.holding.currency, Currency.JPY, fxRates)),
+    [holdings, fxRates]
+  );
+  const months = useMemo(() => {
+    const grouped = new Map<string, UpcomingDividend[]>();
+    for (const payment of upcomingDividends(holdings)) {
+      const month = payment.payDate.slice(0, 7);
+      grouped.set(month, [...(grouped.get(month) ?? []), payment]);
+    }
+    return [...grouped.values()];
+  }, [holdings]);
+
+  if (income.length === 0) return null;
+
+  const totalIn = (currency: Currency, pick: (row: typeof income[number]) => number) =>
+    income.reduce((sum, row) => sum + convertAmount(pick(row), row.holding.currency, currency, fxRates), 0);
+  const totalValueJpy = income.reduce(
+    (sum, row) => sum + convertAmount(row.holding.currentPrice * row.holding.quantity, row.holding.currency, Currency.JPY, fxRates),
+    0
+  );
+  const grossJpy = totalIn(Currency.JPY, row => row.gross);
+
+  // In the all-accounts view holdings carry their portfolio name
+  const byPortfolio = new Map<string, number>();
+  for (const row of income) {
+    if (!row.holding.portfolioName) continue;
+    const netJpy = convertAmount(row.net, row.holding.currency, Currency.JPY, fxRates);
+    byPortfolio.set(row.holding.portfolioName, (byPortfolio.get(row.holding.portfolioName) ?? 0) + netJpy);
+  }
+
+  const sumIn = (payments: UpcomingDividend[], currency: Currency) =>
+    payments.reduce((sum, p) => sum + convertAmount(p.net, p.currency, currency, fxRates), 0);
+
+  return (
+    <section>
+      <h3 className="text-lg sm:text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <CalendarDays className="w-5 h-5 text-slate-400" /> 配当カレンダー
+      </h3>
+      <div className="bg-white border border-slate-200 rounded-2xl shadow-sm overflow-hidden">
+        {/* Projected annual income */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 p-4 md:p-5 border-b border-slate-100">
+          <div>
+            <p className="text-slate-500 font-bold text-xs md:text-sm mb-1">予想年間配当 (税引後)</p>
+            {DISPLAY_CURRENCIES.map(currency => (
+              <p key={currency} className={currency === Currency.USD ? 'text-2xl font-black text-slate-900' : 'text-sm font-bold text-slate-400'}>
+                {currency === Currency.JPY && '≈ '}{formatMoney(totalIn(currency, row => row.net), currency)}
+              </p>
+            ))}
+          </div>
+          <div>
+            <p className="text-slate-500 font-bold text-xs md:text-sm mb-1">税引前</p>
+            {DISPLAY_CURRENCIES.map(currency => (
+              <p key={currency} className={currency === Currency.USD ? 'text-lg font-black text-slate-700' : 'text-sm font-bold text-slate-400'}>
+                {currency === Currency.JPY && '≈ '}{formatMoney(totalIn(currency, row => row.gross), currency)}
+              </p>
+            ))}
+          </div>
+          <div>
+            <p className="text-slate-500 font-bold text-xs md:text-sm mb-1">配当利回り (税引前)</p>
+            <p className="text-lg font-black text-green-600">{totalValueJpy > 0 ? ((grossJpy / totalValueJpy) * 100).toFixed(2) : '0.00'}%</p>
+            <p className="text-[10px] text-slate-400">配当予定のある銘柄の評価額に対して</p>
+          </div>
+        </div>
+
+        {byPortfolio.size > 0 && (
+          <div className="flex flex-wrap gap-2 px-4 md:px-5 py-3 border-b border-slate-100">
+            {[...byPortfolio].map(([name, netJpy]) => (
+              <span key={name} className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600 border border-indigo-100 whitespace-nowrap">
+                {name} {formatMoney(netJpy, Currency.JPY)} / 年
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Upcoming payments by month */}
+        <div className="p-4 md:p-5 border-b border-slate-100">
+          <p className="text-slate-500 font-bold text-xs md:text-sm mb-3">今後12ヶ月の受取予定</p>
+          {months.length === 0 ? (
+            <p className="text-slate-400 text-xs italic">支払日が登録された配当予定はありません。銘柄の編集から設定できます。</p>
+          ) : (
+            <div className="space-y-4">
+              {months.map(payments => (
+                <div key={payments[0].payDate.slice(0, 7)}>
+                  <div className="flex items-baseline justify-between mb-1.5">
+                    <p className="text-sm font-bold text-slate-800">{formatMonth(payments[0].payDate)}</p>
+                    <p className="text-xs font-bold text-slate-500">
+                      {formatMoney(sumIn(payments, Currency.USD), Currency.USD)}
+                      <span className="text-slate-400 ml-1.5">≈ {formatMoney(sumIn(payments, Currency.JPY), Currency.JPY)}</span>
+                    </p>
+                  </div>
+                  <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                    {payments.map(payment => (
+                      <div key={`${payment.assetId}-${payment.payDate}`} className="flex items-center gap-3 px-3 py-2 text-xs">
+                        <span className="w-12 font-bold text-slate-500">{formatDay(payment.payDate)}</span>
+                        <span className="font-bold text-slate-900 w-16 truncate">{payment.ticker}</span>
+                        <span className="flex-1 min-w-0 truncate text-slate-400">
+                          {payment.exDate && `権利落ち ${formatDay(payment.exDate)}`}
+                          {payment.portfolioName && <span className="ml-1.5 text-indigo-500">{payment.portfolioName}</span>}
+                          {payment.projected && <span className="ml-1.5">(推定)</span>}
+                        </span>
+                        <span className="text-right whitespace-nowrap">
+                          <span className="font-bold text-green-600">{formatMoney(payment.net, payment.currency)}</span>
+                          <span className="block text-slate-400">
+                            ≈ {formatMoney(convertAmount(payment.net, payment.currency, altOf(payment.currency), fxRates), altOf(payment.currency))}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Projected income per holding */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs md:text-sm">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="text-left font-bold p-3">銘柄</th>
+                <th className="text-left font-bold p-3">頻度</th>
+                <th className="text-right font-bold p-3">1株配当</th>
+                <th className="text-right font-bold p-3">利回り</th>
+                <th className="text-right font-bold p-3">年間 (税引後)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {income.map(({ holding, net, yieldPercent }) => (
+                <tr key={holding.id} className="border-t border-slate-100">
+                  <td className="p-3 font-bold text-slate-900">{holding.ticker}</td>
+                  <td className="p-3 text-slate-700">{DIVIDEND_FREQUENCY_LABELS[holding.dividend!.frequency]}</td>
+                  <td className="p-3 text-right text-slate-700">{formatMoney(holding.dividend!.perShare, holding.currency)}</td>
+                  <td className="p-3 text-right font-bold text-green-600">{yieldPercent.toFixed(2)}%</td>
+                  <td className="p-3 text-right font-bold text-slate-900 whitespace-nowrap">
+                    {formatMoney(net, holding.currency)}
+                    {holding.currency !== Currency.JPY && (
+                      <span className="text-slate-400 font-medium ml-1">(≈ {formatMoney(convertAmount(net, holding.currency, Currency.JPY, fxRates), Currency.JPY)})</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+};
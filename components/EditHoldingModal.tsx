@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { X, Pencil, Trash2 } from 'lucide-react';
+import { AISource, Currency, DividendFrequency, Exchange, Holding, HoldingAction, InstrumentType, Transaction, TransactionType } from '../types';
+import { EXCHANGE_COUNTRIES, EXCHANGE_LABELS } from '../services/currencyService';
+import { TRANSACTION_LABELS } from '../services/ledgerService';
+import { DIVIDEND_FREQUENCY_LABELS, withholdingRateOf } from '../services/dividendService';
+
+interface EditHoldingModalProps {
+  holding: Holding;
+  // Returns an error message when the change is rejected
+  onSubmit: (action: HoldingAction) => string | null;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors";
+const cellInputClass = "w-full bg-slate-50 border border-slate-300 rounded-md px-1.5 py-1 text-xs text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none";
+
+export const EditHoldingModal: React.FC<EditHoldingModalProps> = ({ holding, onSubmit, onClose }) => {
+  const [companyName, setCompanyName] = useState(holding.companyName);
+  const [source, setSource] = useState(holding.source);
+  const [exchange, setExchange] = useState<Exchange | ''>(holding.exchange ?? '');
+  const [currency, setCurrency] = useState(holding.currency);
+  const [instrumentType, setInstrumentType] = useState(holding.instrumentType ?? InstrumentType.STOCK);
+  const [sector, setSector] = useState(holding.sector ?? '');
+  const [country, setCountry] = useState(holding.country ?? '');
+  const [transactions, setTransactions] = useState<Transaction[]>(holding.transactions);
+  // Dividend schedule; an empty amount removes it
+  const [perShare, setPerShare] = useState(holding.dividend?.perShare.toString() ?? '');
+  const [frequency, setFrequency] = useState<DividendFrequency>(holding.dividend?.frequency ?? 4);
+  const [exDate, setExDate] = useState(holding.dividend?.exDate ?? '');
+  const [payDate, setPayDate] = useState(holding.dividend?.payDate ?? '');
+  const [withholdingPercent, setWithholdingPercent] = useState((withholdingRateOf(holding) * 100).toString());
+  const [error, setError] = useState<string | null>(null);
+
+  const updateTransaction = (id: string, changes: Partial<Transaction>) => {
+    setTransactions(prev => prev.map(tx => tx.id === id ? { ...tx, ...changes } : tx));
+  };
+
+  const numberOrUndefined = (value: string) => value === '' ? undefined : parseFloat(value);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = onSubmit({
+      type: 'edit',
+      ticker: holding.ticker,
+      changes: {
+        companyName: companyName.trim() || holding.ticker,
+        source,
+        exchange: exchange || undefined,
+        currency,
+        instrumentType,
+        sector: sector.trim() || undefined,
+        country: country.trim() || undefined,
+        transactions,
+        dividend: perShare
+          ? {
+              perShare: parseFloat(perShare) || 0,
+              frequency,
+              exDate: exDate || undefined,
+              payDate: payDate || undefined,
+              withholdingRate: withholdingPercent === '' ? undefined : parseFloat(withholdingPercent) / 100
+            }
+          : null
+      }
+    });
+    if (result) {
+      setError(result);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl border border-slate-200 w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Pencil className="w-5 h-5 text-blue-600" /> {holding.ticker} を編集
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 md:p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm font-medium">{error}</div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">銘柄名</label>
+              <input type="text" value={companyName} onChange={e => setCompanyName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">選定AIソース</label>
+              <select value={source} onChange={e => setSource(e.target.value as AISource)} className={inputClass}>
+                {Object.values(AISource).map(s => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">市場</label>
+              <select value={exchange} onChange={e => setExchange(e.target.value as Exchange | '')} className={inputClass}>
+                <option value="">未設定</option>
+                {Object.values(Exchange).map(ex => (
+                  <option key={ex} value={ex}>{EXCHANGE_LABELS[ex]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">通貨</label>
+              <select value={currency} onChange={e => setCurrency(e.target.value as Currency)} className={inputClass}>
+                {Object.values(Currency).map(c => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">種別</label>
+              <select value={instrumentType} onChange={e => setInstrumentType(e.target.value as InstrumentType)} className={inputClass}>
+                <option value={InstrumentType.STOCK}>個別株</option>
+                <option value={InstrumentType.ETF}>ETF</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">セクター</label>
+              <input type="text" value={sector} onChange={e => setSector(e.target.value)} placeholder="未分類" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">国・地域</label>
+              <input type="text" value={country} onChange={e => setCountry(e.target.value)} placeholder={exchange ? EXCHANGE_COUNTRIES[exchange] : '不明'} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">配当予定 ({currency})</label>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+              <input type="number" step="any" value={perShare} onChange={e => setPerShare(e.target.value)} placeholder="1株配当" title="1回あたりの1株配当" className={inputClass} />
+              <select value={frequency} onChange={e => setFrequency(Number(e.target.value) as DividendFrequency)} title="支払頻度" className={inputClass}>
+                {(Object.keys(DIVIDEND_FREQUENCY_LABELS).map(Number) as DividendFrequency[]).map(f => (
+                  <option key={f} value={f}>{DIVIDEND_FREQUENCY_LABELS[f]}</option>
+                ))}
+              </select>
+              <input type="date" value={exDate} onChange={e => setExDate(e.target.value)} title="次回の権利落ち日" className={inputClass} />
+              <input type="date" value={payDate} onChange={e => setPayDate(e.target.value)} title="次回の支払日" className={inputClass} />
+              <input type="number" step="any" value={withholdingPercent} onChange={e => setWithholdingPercent(e.target.value)} title="現地源泉徴収率 (%)" className={inputClass} />
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">1株配当・頻度・次回の権利落ち日・支払日・源泉徴収率 (%)。支払日から先は頻度に合わせて推定します。</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">取引履歴 ({currency})</label>
+            <div className="overflow-x-auto border border-slate-200 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="text-left font-bold p-2">種類</th>
+                    <th className="text-left font-bold p-2">約定日</th>
+                    <th className="text-left font-bold p-2">数量</th>
+                    <th className="text-left font-bold p-2">単価 / 金額</th>
+                    <th className="text-left font-bold p-2">手数料 / 源泉税</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transactions.map(tx => (
+                    <tr key={tx.id} className="border-t border-slate-100">
+                      <td className="p-2 font-bold text-slate-600 whitespace-nowrap">{TRANSACTION_LABELS[tx.type]}</td>
+                      <td className="p-2">
+                        <input type="date" value={tx.date} onChange={e => updateTransaction(tx.id, { date: e.target.value })} className={cellInputClass} />
+                      </td>
+                      <td className="p-2">
+                        {tx.type === TransactionType.SPLIT ? (
+                          <input type="number" step="any" value={tx.splitRatio ?? ''} title="分割比率" onChange={e => updateTransaction(tx.id, { splitRatio: numberOrUndefined(e.target.value) })} className={cellInputClass} />
+                        ) : (
+                          <input type="number" step="any" value={tx.quantity} onChange={e => updateTransaction(tx.id, { quantity: parseFloat(e.target.value) || 0 })} className={cellInputClass} />
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {tx.type === TransactionType.DIVIDEND ? (
+                          <input type="number" step="any" value={tx.amount ?? ''} onChange={e => updateTransaction(tx.id, { amount: numberOrUndefined(e.target.value) })} className={cellInputClass} />
+                        ) : tx.type === TransactionType.SPLIT ? (
+                          <span className="text-slate-400">-</span>
+                        ) : (
+                          <input type="number" step="any" value={tx.price} onChange={e => updateTransaction(tx.id, { price: parseFloat(e.target.value) || 0 })} className={cellInputClass} />
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {tx.type === TransactionType.DIVIDEND ? (
+                          <input type="number" step="any" value={tx.withholdingTax ?? ''} title="源泉徴収税" onChange={e => updateTransaction(tx.id, { withholdingTax: numberOrUndefined(e.target.value) })} className={cellInputClass} />
+                        ) : (
+                          <input type="number" step="any" value={tx.fees ?? ''} onChange={e => updateTransaction(tx.id, { fees: numberOrUndefined(e.target.value) })} className={cellInputClass} />
+                        )}
+                      </td>
+                      <td className="p-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setTransactions(prev => prev.filter(t => t.id !== tx.id))}
+                          title="取引を削除"
+                          className="text-slate-300 hover:text-red-600 transition-colors"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {transactions.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="p-4 text-center text-slate-400">取引がありません。</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-lg mt-2 transition-colors flex items-center justify-center gap-2 shadow-lg shadow-blue-600/20"
+          >
+            変更を保存
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,321 @@
+import React, { useRef, useState } from 'react';
+import { X, History, LineChart as LineChartIcon, ShieldAlert, Check, Lightbulb, RefreshCw, Upload } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Holding, PricePoint, PickVerdict, TransactionType, Currency, FxRates } from '../types';
+import { convertAmount } from '../services/currencyService';
+import { knownPrices } from '../services/historyService';
+import { TRANSACTION_LABELS } from '../services/ledgerService';
+import { projectAnnualIncome, upcomingDividends } from '../services/dividendService';
+import { evaluatePick, HORIZON_LABELS, VERDICT_LABELS } from '../services/pickService';
+import { formatMoney } from '../utils/format';
+import { StockIcons } from '../hooks/useStockIcons';
+
+interface HoldingDetailModalProps {
+  holding: Holding;
+  priceHistory: PricePoint[];
+  fxRates: FxRates;
+  baseCurrency: Currency;
+  stockIcons: StockIcons;
+  onAcceptPendingQuote: () => void;
+  onRejectPendingQuote: () => void;
+  onClose: () => void;
+}
+
+const VERDICT_STYLES: Record<PickVerdict, string> = {
+  target_hit: 'bg-green-100 text-green-700',
+  stopped_out: 'bg-red-100 text-red-700',
+  expired_gain: 'bg-green-50 text-green-700',
+  expired_loss: 'bg-red-50 text-red-700',
+  open: 'bg-slate-100 text-slate-600',
+};
+
+const TRANSACTION_BADGE_STYLES: Record<TransactionType, string> = {
+  [TransactionType.BUY]: 'bg-blue-50 text-blue-700 border-blue-100',
+  [TransactionType.SELL]: 'bg-orange-50 text-orange-700 border-orange-100',
+  [TransactionType.DIVIDEND]: 'bg-green-50 text-green-700 border-green-100',
+  [TransactionType.SPLIT]: 'bg-slate-100 text-slate-600 border-slate-200',
+};
+
+export const HoldingDetailModal: React.FC<HoldingDetailModalProps> = ({ 
+  holding, 
+  priceHistory, 
+  fxRates, 
+  baseCurrency, 
+  stockIcons,
+  onAcceptPendingQuote, 
+  onRejectPendingQuote, 
+  onClose 
+}) => {
+  const formatPrice = (num: number) => formatMoney(num, holding.currency);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [iconError, setIconError] = useState<string | null>(null);
+
+  const handleRegenerateIcon = async () => {
+    setIconError(null);
+    if (!(await stockIcons.regenerate(holding.ticker))) setIconError('アイコンを生成できませんでした');
+  };
+
+  const handleUploadIcon = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setIconError(await stockIcons.upload(holding.ticker, file));
+  };
+
+  const stats = [
+    { label: '保有数量', value: `${holding.quantity}株` },
+    { label: '平均取得単価 (移動平均)', value: formatPrice(holding.avgPrice) },
+    { label: '平均取得単価 (FIFO)', value: formatPrice(holding.fifoAvgPrice) },
+    { label: '実現損益 (移動平均)', value: formatPrice(holding.realizedGain), tone: holding.realizedGain },
+    { label: '実現損益 (FIFO)', value: formatPrice(holding.fifoRealizedGain), tone: holding.fifoRealizedGain },
+    { label: '受取配当', value: formatPrice(holding.dividendIncome) },
+  ];
+  if (holding.dividend) {
+    const income = projectAnnualIncome(holding);
+    const next = upcomingDividends([holding])[0];
+    stats.push(
+      { label: '予想年間配当 (税引後)', value: `${formatPrice(income.net)} (${income.yieldPercent.toFixed(2)}%)` },
+      { label: '次回の配当', value: next ? `${next.payDate} ${formatPrice(next.net)}` : '未定' },
+    );
+  }
+
+  const pickOutcome = holding.pick
+    ? evaluatePick(holding.pick, knownPrices(holding, priceHistory), holding.currentPrice)
+    : undefined;
+
+  // Newest first for display
+  const transactions = [...holding.transactions].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl border border-slate-200 w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
+          <div className="flex items-center gap-3 min-w-0">
+            <img
+              src={stockIcons.urlOf(holding.ticker)}
+              alt={holding.ticker}
+              className={`w-10 h-10 rounded-full border border-slate-200 object-cover flex-shrink-0 ${stockIcons.isGenerating(holding.ticker) ? 'animate-pulse' : ''}`}
+            />
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-slate-800">{holding.ticker}</h3>
+              <p className="text-xs text-slate-500 font-medium">{holding.companyName}</p>
+              {iconError && <p className="text-[10px] font-bold text-red-600">{iconError}</p>}
+            </div>
+            <div className="flex items-center gap-0.5">
+              <button
+                onClick={handleRegenerateIcon}
+                disabled={stockIcons.isGenerating(holding.ticker)}
+                title="アイコンを再生成"
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${stockIcons.isGenerating(holding.ticker) ? 'animate-spin' : ''}`} />
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                title="アイコン画像をアップロード"
+                className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+              </button>
+              <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUploadIcon} />
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 md:p-6 overflow-y-auto space-y-6">
+          {holding.pendingQuote && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3">
+              <div className="flex items-start gap-2 text-amber-800">
+                <ShieldAlert className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-bold text-sm">未検証の株価: {formatPrice(holding.pendingQuote.price)}</p>
+                  <p className="text-xs mt-1">
+                    {holding.pendingQuote.reason} (前回 {formatPrice(holding.pendingQuote.previousPrice)} /
+                    取得 {new Date(holding.pendingQuote.receivedAt).toLocaleString('ja-JP')})
+                  </p>
+                </div>
+              </div>
+              {holding.pendingQuote.raw && (
+                <details className="text-xs">
+                  <summary className="cursor-pointer font-bold text-amber-700">モデルの生出力を表示</summary>
+                  <pre className="mt-2 p-3 bg-white border border-amber-100 rounded-lg overflow-x-auto whitespace-pre-wrap text-slate-700">
+                    {holding.pendingQuote.raw}
+                  </pre>
+                </details>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={onAcceptPendingQuote}
+                  className="flex-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-1"
+                >
+                  <Check className="w-4 h-4" /> この価格を採用
+                </button>
+                <button
+                  onClick={onRejectPendingQuote}
+                  className="flex-1 bg-white hover:bg-slate-50 text-slate-600 border border-slate-200 text-xs font-bold py-2 rounded-lg transition-colors"
+                >
+                  破棄
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                <p className="text-[10px] md:text-xs font-bold text-slate-500 mb-1">{stat.label}</p>
+                <p className={`font-black text-sm md:text-base ${
+                  stat.tone === undefined ? 'text-slate-900' : stat.tone >= 0 ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {holding.pick && pickOutcome && (
+            <div>
+              <h4 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+                <Lightbulb className="w-4 h-4 text-slate-400" /> {holding.source} の推奨と結果
+              </h4>
+              <div className="border border-slate-200 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={`text-xs font-bold px-2.5 py-1 rounded-md ${VERDICT_STYLES[pickOutcome.verdict]}`}>
+                    {VERDICT_LABELS[pickOutcome.verdict]}
+                  </span>
+                  <span className="text-xs text-slate-500 font-medium">推奨日 {holding.pick.recommendedAt}</span>
+                  {holding.pick.horizon && (
+                    <span className="text-xs text-slate-500 font-medium">
+                      {HORIZON_LABELS[holding.pick.horizon]} / 期限 {pickOutcome.horizonEndsOn}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">{holding.pick.recommendation}</p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                  <div className="bg-slate-50 rounded-lg p-2">
+                    <p className="text-slate-500 font-bold">推奨時価格</p>
+                    <p className="font-black text-slate-900">
+                      {pickOutcome.priceAtRecommendation !== undefined ? formatPrice(pickOutcome.priceAtRecommendation) : '-'}
+                    </p>
+                  </div>
+                  <div className="bg-slate-50 rounded-lg p-2">
+                    <p className="text-slate-500 font-bold">推奨後リターン</p>
+                    <p className={`font-black ${(pickOutcome.returnSinceRecommendation ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {pickOutcome.returnSinceRecommendation !== undefined ? `${(pickOutcome.returnSinceRecommendation * 100).toFixed(1)}%` : '-'}
+                    </p>
+                  </div>
+                  <div className="bg-slate-50 rounded-lg p-2">
+                    <p className="text-slate-500 font-bold">目標株価</p>
+                    <p className="font-black text-slate-900">
+                      {holding.pick.targetPrice !== undefined ? formatPrice(holding.pick.targetPrice) : '-'}
+                    </p>
+                    {pickOutcome.targetHitOn && <p className="text-green-600 font-bold">{pickOutcome.targetHitOn} 到達</p>}
+                  </div>
+                  <div className="bg-slate-50 rounded-lg p-2">
+                    <p className="text-slate-500 font-bold">損切りライン</p>
+                    <p className="font-black text-slate-900">
+                      {holding.pick.stopLoss !== undefined ? formatPrice(holding.pick.stopLoss) : '-'}
+                    </p>
+                    {pickOutcome.stopHitOn && <p className="text-red-600 font-bold">{pickOutcome.stopHitOn} 到達</p>}
+                  </div>
+                </div>
+                {holding.pick.prompt && (
+                  <details className="text-xs">
+                    <summary className="cursor-pointer font-bold text-slate-500">使用したプロンプト</summary>
+                    <pre className="mt-2 p-3 bg-slate-50 border border-slate-100 rounded-lg whitespace-pre-wrap text-slate-700">
+                      {holding.pick.prompt}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <LineChartIcon className="w-4 h-4 text-slate-400" /> 株価推移
+            </h4>
+            {priceHistory.length < 2 ? (
+              <p className="text-xs text-slate-400 bg-slate-50 border border-slate-200 rounded-xl p-4 text-center">
+                株価履歴は市場データの更新ごとに記録されます。
+              </p>
+            ) : (
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={priceHistory}>
+                    <XAxis dataKey="date" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis hide={true} domain={['auto', 'auto']} />
+                    <Tooltip formatter={(value: number) => [formatPrice(value), '株価']} />
+                    {holding.avgPrice > 0 && (
+                      <ReferenceLine y={holding.avgPrice} stroke="#94a3b8" strokeDasharray="5 5" />
+                    )}
+                    {holding.pick?.targetPrice !== undefined && (
+                      <ReferenceLine y={holding.pick.targetPrice} stroke="#16a34a" strokeDasharray="3 3" />
+                    )}
+                    {holding.pick?.stopLoss !== undefined && (
+                      <ReferenceLine y={holding.pick.stopLoss} stroke="#dc2626" strokeDasharray="3 3" />
+                    )}
+                    <Line type="monotone" dataKey="price" stroke="#2563eb" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <History className="w-4 h-4 text-slate-400" /> 取引履歴
+            </h4>
+            <div className="overflow-x-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-xs md:text-sm">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="text-left font-bold p-2.5">約定日</th>
+                    <th className="text-left font-bold p-2.5">種別</th>
+                    <th className="text-right font-bold p-2.5">数量</th>
+                    <th className="text-right font-bold p-2.5">単価 / 金額</th>
+                    <th className="text-right font-bold p-2.5">手数料</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transactions.map(tx => (
+                    <tr key={tx.id} className="border-t border-slate-100">
+                      <td className="p-2.5 text-slate-700 font-medium whitespace-nowrap">{tx.date}</td>
+                      <td className="p-2.5">
+                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap ${TRANSACTION_BADGE_STYLES[tx.type]}`}>
+                          {TRANSACTION_LABELS[tx.type]}
+                        </span>
+                      </td>
+                      <td className="p-2.5 text-right text-slate-700">
+                        {tx.type === TransactionType.SPLIT ? `${tx.splitRatio ?? 1}:1` : tx.quantity || '-'}
+                      </td>
+                      <td className="p-2.5 text-right text-slate-900 font-bold whitespace-nowrap">
+                        {tx.type === TransactionType.DIVIDEND
+                          ? formatPrice(tx.amount ?? 0)
+                          : tx.type === TransactionType.SPLIT ? '-' : formatPrice(tx.price)}
+                      </td>
+                      <td className="p-2.5 text-right text-slate-500">{tx.fees ? formatPrice(tx.fees) : '-'}</td>
+                    </tr>
+                  ))}
+                  {transactions.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="p-4 text-center text-slate-400">取引履歴はありません。</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] md:text-xs text-slate-400 mt-2">
+              評価額 {formatPrice(holding.currentPrice * holding.quantity)} ≈ {formatMoney(convertAmount(holding.currentPrice * holding.quantity, holding.currency, baseCurrency, fxRates), baseCurrency)}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
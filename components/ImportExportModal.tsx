@@ -0,0 +1,360 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, FileSpreadsheet, Upload, Download, AlertTriangle } from 'lucide-react';
+import { AISource, BrokerPresetId, ColumnMapping, Currency, Holding, ImportField, Ledger, StockAsset } from '../types';
+import { decodeCsvFile, parseCsv } from '../services/csvService';
+import {
+  BROKER_PRESETS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  applyImport,
+  buildImportPreview,
+  detectPreset,
+  findHeaderRow,
+  getPreset,
+  mapColumns,
+} from '../services/importService';
+import { PortfolioBackup, createBackup, holdingsToCsv, mergeBackup, parseBackup, transactionsToCsv } from '../services/exportService';
+import { TRANSACTION_LABELS } from '../services/ledgerService';
+import { downloadFile } from '../utils/download';
+import { formatMoney } from '../utils/format';
+import { toDateKey } from '../utils/date';
+
+interface ImportExportModalProps {
+  assets: StockAsset[];
+  ledger: Ledger;
+  holdings: Holding[];
+  onImport: (assets: StockAsset[], ledger: Ledger) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const selectClass = "w-full bg-slate-50 border border-slate-300 rounded-lg p-2 text-sm text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors";
+
+export const ImportExportModal: React.FC<ImportExportModalProps> = ({ assets, ledger, holdings, onImport, onClose }) => {
+  const [activeTab, setActiveTab] = useState<'import' | 'export'>('import');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [headerIndex, setHeaderIndex] = useState(0);
+  const [presetId, setPresetId] = useState<BrokerPresetId>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultCurrency, setDefaultCurrency] = useState<Currency>(Currency.USD);
+  const [source, setSource] = useState<AISource>(AISource.OTHER);
+  const [backup, setBackup] = useState<PortfolioBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const header = rows[headerIndex] ?? [];
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter(f => mapping[f] === undefined);
+  const preview = useMemo(
+    () => rows.length > 0 && missingFields.length === 0
+      ? buildImportPreview(rows, headerIndex, mapping, defaultCurrency, ledger)
+      : null,
+    [rows, headerIndex, mapping, defaultCurrency, ledger]
+  );
+
+  const applyPreset = (id: BrokerPresetId, headerRow: string[]) => {
+    setPresetId(id);
+    setMapping(mapColumns(headerRow, id));
+    const presetCurrency = getPreset(id).currency;
+    if (presetCurrency) setDefaultCurrency(presetCurrency);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setResult(null);
+    setBackup(null);
+    setRows([]);
+    setFileName(file.name);
+
+    const text = await decodeCsvFile(file);
+    if (file.name.toLowerCase().endsWith('.json')) {
+      const parsed = await parseBackup(text);
+      if (parsed) setBackup(parsed);
+      else setError('バックアップファイルとして読み込めませんでした。');
+      return;
+    }
+
+    const parsedRows = parseCsv(text);
+    if (parsedRows.length < 2) {
+      setError('CSVにデータ行がありません。');
+      return;
+    }
+    const index = findHeaderRow(parsedRows);
+    setRows(parsedRows);
+    setHeaderIndex(index);
+    applyPreset(detectPreset(parsedRows[index]), parsedRows[index]);
+  };
+
+  const handleImportCsv = () => {
+    if (!preview || preview.rows.length === 0) return;
+    const next = applyImport(assets, ledger, preview.rows, source);
+    onImport(next.assets, next.ledger);
+    setResult(`${preview.rows.length}件の取引を取り込みました。` +
+      (preview.duplicates.length > 0 ? ` 重複 ${preview.duplicates.length}件はスキップしました。` : ''));
+    setRows([]);
+    setFileName('');
+  };
+
+  const handleRestoreBackup = () => {
+    if (!backup) return;
+    const next = mergeBackup(assets, ledger, backup);
+    onImport(next.assets, next.ledger);
+    setResult(`バックアップから${next.addedTransactions}件の取引を復元しました。`);
+    setBackup(null);
+    setFileName('');
+  };
+
+  const today = toDateKey();
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl border border-slate-200 w-full max-w-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-green-600" /> インポート / エクスポート
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 md:p-6 overflow-y-auto">
+          {/* Tabs */}
+          <div className="flex gap-2 mb-6 bg-slate-100 p-1 rounded-lg">
+            {(['import', 'export'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${activeTab === tab ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {tab === 'import' ? 'インポート' : 'エクスポート'}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm font-medium">{error}</div>
+          )}
+          {result && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm font-medium">{result}</div>
+          )}
+
+          {activeTab === 'import' ? (
+            <div className="space-y-4">
+              <div className="border-2 border-dashed border-slate-300 rounded-xl p-6 text-center hover:border-blue-500 hover:bg-slate-50 transition-colors cursor-pointer relative group">
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={handleFileChange}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                />
+                <div className="flex flex-col items-center gap-2 pointer-events-none">
+                  <Upload className="w-6 h-6 text-blue-600" />
+                  <p className="text-slate-900 font-medium">{fileName || 'CSV または JSON バックアップを選択'}</p>
+                  <p className="text-slate-500 text-xs">SBI証券・楽天証券・マネックス証券の取引履歴CSV (Shift_JIS可)</p>
+                </div>
+              </div>
+
+              {rows.length > 0 && (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">形式</label>
+                      <select value={presetId} onChange={e => applyPreset(e.target.value as BrokerPresetId, header)} className={selectClass}>
+                        {BROKER_PRESETS.map(p => (
+                          <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">通貨 (列がない場合)</label>
+                      <select value={defaultCurrency} onChange={e => setDefaultCurrency(e.target.value as Currency)} className={selectClass}>
+                        {Object.values(Currency).map(c => (
+                          <option key={c} value={c}>{c}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">新規銘柄のAIソース</label>
+                      <select value={source} onChange={e => setSource(e.target.value as AISource)} className={selectClass}>
+                        {Object.values(AISource).map(s => (
+                          <option key={s} value={s}>{s}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {/* Column Mapping */}
+                  <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-xs font-bold text-slate-600">列の割り当て</p>
+                      <label className="text-xs text-slate-500 flex items-center gap-1">
+                        見出し行
+                        <input
+                          type="number"
+                          min={1}
+                          max={rows.length}
+                          value={headerIndex + 1}
+                          onChange={e => {
+                            const index = Math.min(Math.max(0, Number(e.target.value) - 1), rows.length - 1);
+                            setHeaderIndex(index);
+                            setMapping(mapColumns(rows[index], presetId));
+                          }}
+                          className="w-14 bg-white border border-slate-300 rounded-md px-1.5 py-0.5 text-slate-900"
+                        />
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => (
+                        <div key={field}>
+                          <label className="block text-[10px] font-bold text-slate-500 mb-0.5">
+                            {IMPORT_FIELD_LABELS[field]}{REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                          </label>
+                          <select
+                            value={mapping[field] ?? ''}
+                            onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                            className="w-full bg-white border border-slate-300 rounded-md p-1 text-xs text-slate-900 focus:border-blue-500 focus:outline-none"
+                          >
+                            <option value="">(なし)</option>
+                            {header.map((name, i) => (
+                              <option key={i} value={i}>{name || `列${i + 1}`}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {missingFields.length > 0 && (
+                    <p className="text-xs font-bold text-amber-700">
+                      必須の列を割り当ててください: {missingFields.map(f => IMPORT_FIELD_LABELS[f]).join('、')}
+                    </p>
+                  )}
+
+                  {preview && (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap gap-2 text-xs font-bold">
+                        <span className="px-2 py-1 rounded-md bg-blue-50 text-blue-700">取込 {preview.rows.length}件</span>
+                        <span className="px-2 py-1 rounded-md bg-slate-100 text-slate-600">重複 {preview.duplicates.length}件</span>
+                        <span className={`px-2 py-1 rounded-md ${preview.errors.length > 0 ? 'bg-red-50 text-red-700' : 'bg-slate-100 text-slate-600'}`}>
+                          エラー {preview.errors.length}件
+                        </span>
+                      </div>
+
+                      <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                        <table className="w-full text-xs">
+                          <thead className="bg-slate-50 text-slate-500">
+                            <tr>
+                              <th className="text-left font-bold p-2">行</th>
+                              <th className="text-left font-bold p-2">ティッカー</th>
+                              <th className="text-left font-bold p-2">種類</th>
+                              <th className="text-left font-bold p-2">約定日</th>
+                              <th className="text-right font-bold p-2">数量</th>
+                              <th className="text-right font-bold p-2">単価</th>
+                              <th className="text-right font-bold p-2">手数料</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {preview.rows.slice(0, PREVIEW_ROWS).map(row => (
+                              <tr key={row.line} className="border-t border-slate-100">
+                                <td className="p-2 text-slate-400">{row.line}</td>
+                                <td className="p-2 font-bold text-slate-800">{row.ticker}</td>
+                                <td className="p-2">{TRANSACTION_LABELS[row.type]}</td>
+                                <td className="p-2">{row.date}</td>
+                                <td className="p-2 text-right">{row.quantity}</td>
+                                <td className="p-2 text-right">{formatMoney(row.price, row.currency)}</td>
+                                <td className="p-2 text-right">{row.fees ? formatMoney(row.fees, row.currency) : '-'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {preview.rows.length > PREVIEW_ROWS && (
+                          <p className="text-center text-[10px] text-slate-400 py-1.5 border-t border-slate-100">他 {preview.rows.length - PREVIEW_ROWS}件</p>
+                        )}
+                      </div>
+
+                      {preview.errors.length > 0 && (
+                        <details className="text-xs text-red-700">
+                          <summary className="cursor-pointer font-bold flex items-center gap-1">
+                            <AlertTriangle className="w-3.5 h-3.5" /> 読み取れなかった行
+                          </summary>
+                          <ul className="mt-1 space-y-0.5 pl-5 list-disc">
+                            {preview.errors.map(e => (
+                              <li key={e.line}>{e.line}行目: {e.message}</li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+
+                      <button
+                        onClick={handleImportCsv}
+                        disabled={preview.rows.length === 0}
+                        className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-lg transition-colors disabled:opacity-50 shadow-lg shadow-blue-600/20"
+                      >
+                        {preview.rows.length}件の取引を取り込む
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {backup && (
+                <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+                  <p className="text-sm text-slate-700">
+                    <span className="font-bold">{new Date(backup.exportedAt).toLocaleString('ja-JP')}</span> のバックアップ:
+                    銘柄 {backup.assets.length}件、取引 {Object.values(backup.ledger).flat().length}件
+                  </p>
+                  <p className="text-xs text-slate-500">既存のデータは残したまま、含まれていない銘柄と取引だけを追加します。</p>
+                  <button
+                    onClick={handleRestoreBackup}
+                    className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-lg transition-colors shadow-lg shadow-blue-600/20"
+                  >
+                    バックアップを復元
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {[
+                {
+                  label: '保有銘柄 (CSV)',
+                  description: '数量・平均取得単価・評価額・実現損益',
+                  onClick: () => downloadFile(`holdings-${today}.csv`, holdingsToCsv(holdings), 'text/csv')
+                },
+                {
+                  label: '取引履歴 (CSV)',
+                  description: '全取引。汎用形式でそのまま再インポートできます',
+                  onClick: () => downloadFile(`transactions-${today}.csv`, transactionsToCsv(ledger, assets), 'text/csv')
+                },
+                {
+                  label: 'バックアップ (JSON)',
+                  description: '銘柄情報と取引履歴をすべて含みます',
+                  onClick: () => downloadFile(`portfolio-backup-${today}.json`, createBackup(assets, ledger), 'application/json')
+                },
+              ].map(item => (
+                <button
+                  key={item.label}
+                  onClick={item.onClick}
+                  className="w-full flex items-center gap-3 p-4 bg-white border border-slate-200 rounded-xl hover:border-blue-300 hover:bg-blue-50/50 transition-colors text-left"
+                >
+                  <Download className="w-5 h-5 text-blue-600 flex-shrink-0" />
+                  <div>
+                    <p className="font-bold text-slate-800 text-sm">{item.label}</p>
+                    <p className="text-xs text-slate-500">{item.description}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { Trophy } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from 'recharts';
+import { AISource, Currency, FxRates, Holding } from '../types';
+import { DailyValueSeries, computeSourceEquityCurves, computeSourcePerformance } from '../services/performanceService';
+import { formatMoney } from '../utils/format';
+
+interface LeaderboardProps {
+  holdings: Holding[];
+  // Daily values of each source's picks at today's FX rates
+  sourceValues: DailyValueSeries['sources'];
+  fxRates: FxRates;
+  baseCurrency: Currency;
+}
+
+export const SOURCE_COLORS: Record<AISource, string> = {
+  [AISource.GEMINI]: '#2563eb',
+  [AISource.CHATGPT]: '#10b981',
+  [AISource.CLAUDE]: '#d97706',
+  [AISource.MANUS]: '#8b5cf6',
+  [AISource.OTHER]: '#64748b',
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ holdings, sourceValues, fxRates, baseCurrency }) => {
+  const rows = useMemo(
+    () => computeSourcePerformance(holdings, sourceValues, fxRates, baseCurrency),
+    [holdings, sourceValues, fxRates, baseCurrency]
+  );
+  const curves = useMemo(() => computeSourceEquityCurves(sourceValues), [sourceValues]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <section>
+      <h3 className="text-lg sm:text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Trophy className="w-5 h-5 text-slate-400" /> AI別パフォーマンス
+      </h3>
+      <div className="bg-white border border-slate-200 rounded-2xl shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs md:text-sm">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="text-left font-bold p-3">順位</th>
+                <th className="text-left font-bold p-3">AIソース</th>
+                <th className="text-right font-bold p-3">時間加重リターン</th>
+                <th className="text-right font-bold p-3">損益 ({baseCurrency})</th>
+                <th className="text-right font-bold p-3">勝率</th>
+                <th className="text-right font-bold p-3">平均保有日数</th>
+                <th className="text-right font-bold p-3">銘柄数</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, idx) => (
+                <tr key={row.source} className="border-t border-slate-100">
+                  <td className="p-3 font-black text-slate-400">{idx + 1}</td>
+                  <td className="p-3">
+                    <span className="flex items-center gap-2 font-bold text-slate-900">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SOURCE_COLORS[row.source] }} />
+                      {row.source}
+                    </span>
+                  </td>
+                  <td className={`p-3 text-right font-black ${row.timeWeightedReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatPercent(row.timeWeightedReturn * 100)}
+                  </td>
+                  <td className={`p-3 text-right font-bold whitespace-nowrap ${row.totalReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatMoney(row.totalReturn, baseCurrency)}
+                    <span className="text-slate-400 font-medium ml-1">({formatPercent(row.returnPercentage)})</span>
+                  </td>
+                  <td className="p-3 text-right text-slate-700 font-bold">{(row.winRate * 100).toFixed(0)}%</td>
+                  <td className="p-3 text-right text-slate-700">{Math.round(row.avgHoldingDays)}日</td>
+                  <td className="p-3 text-right text-slate-700">
+                    {row.picks}
+                    <span className="text-slate-400 ml-1">(保有中 {row.openPositions})</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {curves.length > 1 && (
+          <div className="p-4 md:p-5 border-t border-slate-100">
+            <p className="text-slate-500 font-bold text-xs md:text-sm mb-3">資産曲線 (時間加重, 開始=100)</p>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={curves}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="date" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} domain={['auto', 'auto']} width={40} />
+                  <Tooltip formatter={(value: number, name: string) => [value.toFixed(1), name]} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {rows.map(row => (
+                    <Line
+                      key={row.source}
+                      type="monotone"
+                      dataKey={row.source}
+                      stroke={SOURCE_COLORS[row.source]}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState, useMemo } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from 'recharts';
+import { BenchmarkId, Currency, FxRates, HistoryRange, PortfolioHistoryItem } from '../types';
+import { filterByRange, snapshotInCurrency } from '../services/historyService';
+import { BENCHMARKS, BENCHMARK_COLORS, BENCHMARK_IDS, BenchmarkPoint, benchmarkCurves } from '../services/benchmarkService';
+import { formatMoney } from '../utils/format';
+
+interface PortfolioHistoryChartProps {
+  history: PortfolioHistoryItem[];
+  baseCurrency: Currency;
+  fxRates: FxRates; // Fallback for snapshots recorded without rates
+  benchmarkPoints: BenchmarkPoint[];
+  benchmarkIds: BenchmarkId[];
+  onBenchmarkIdsChange: (ids: BenchmarkId[]) => void;
+}
+
+const RANGES: HistoryRange[] = ['1W', '1M', '6M', '1Y', 'ALL'];
+
+type ChartMode = 'value' | 'benchmark';
+
+const formatDateLabel = (date: string) => {
+  const [, month, day] = date.split('-');
+  return `${Number(month)}/${Number(day)}`;
+};
+
+export const PortfolioHistoryChart: React.FC<PortfolioHistoryChartProps> = ({
+  history,
+  baseCurrency,
+  fxRates,
+  benchmarkPoints,
+  benchmarkIds,
+  onBenchmarkIdsChange
+}) => {
+  const [range, setRange] = useState<HistoryRange>('1M');
+  const [mode, setMode] = useState<ChartMode>('value');
+
+  const data = useMemo(
+    () => filterByRange(history, range).map(item => snapshotInCurrency(item, baseCurrency, fxRates)),
+    [history, range, baseCurrency, fxRates]
+  );
+  const curves = useMemo(
+    () => benchmarkCurves(benchmarkPoints, benchmarkIds, range),
+    [benchmarkPoints, benchmarkIds, range]
+  );
+
+  const toggleBenchmark = (id: BenchmarkId) => {
+    onBenchmarkIdsChange(benchmarkIds.includes(id) ? benchmarkIds.filter(b => b !== id) : BENCHMARK_IDS.filter(b => b === id || benchmarkIds.includes(b)));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-5 md:p-6 border border-slate-200 shadow-sm col-span-1 md:col-span-2 flex flex-col hover:shadow-md transition-shadow">
+      <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+        <div className="flex gap-1 bg-slate-100 p-0.5 rounded-lg">
+          {([['value', `資産推移 (${baseCurrency})`], ['benchmark', 'ベンチマーク比較']] as [ChartMode, string][]).map(([m, label]) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2 py-0.5 text-[10px] md:text-xs font-bold rounded-md transition-all ${
+                mode === m ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 bg-slate-100 p-0.5 rounded-lg">
+          {RANGES.map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2 py-0.5 text-[10px] md:text-xs font-bold rounded-md transition-all ${
+                range === r ? 'bg-white text-blue-600 shadow ring-1 ring-black/5' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+      {mode === 'benchmark' && (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {BENCHMARK_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => toggleBenchmark(id)}
+              className={`text-[10px] md:text-xs font-bold px-2 py-0.5 rounded-full border transition-colors ${
+                benchmarkIds.includes(id) ? 'bg-white text-slate-700 border-slate-300' : 'bg-slate-50 text-slate-400 border-slate-200'
+              }`}
+            >
+              <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: benchmarkIds.includes(id) ? BENCHMARK_COLORS[id] : '#cbd5e1' }} />
+              {BENCHMARKS[id].label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex-1 min-h-[150px]">
+        {mode === 'benchmark' ? (
+          curves.length < 2 ? (
+            <div className="h-full flex items-center justify-center text-center text-slate-400 text-xs md:text-sm font-medium">
+              この期間の保有銘柄とベンチマークの価格履歴が足りません。<br />
+              「資産配分とリスク」の「1年分の価格履歴を取得」で補完できます。
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={curves}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis
+                  dataKey="date"
+                  stroke="#94a3b8"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={10}
+                  tickFormatter={formatDateLabel}
+                />
+                <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} domain={['auto', 'auto']} width={40} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#ffffff', borderColor: '#e2e8f0', color: '#0f172a', borderRadius: '0.75rem', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                  formatter={(value: number, name: string) => [`${value.toFixed(1)} (${value >= 100 ? '+' : ''}${(value - 100).toFixed(1)}%)`, name]}
+                />
+                <Legend iconType="plainline" wrapperStyle={{ fontSize: 12 }} />
+                <Line type="monotone" dataKey="portfolio" name={`ポートフォリオ (${baseCurrency}, 時間加重)`} stroke="#2563eb" strokeWidth={3} dot={false} />
+                {benchmarkIds.map(id => (
+                  <Line key={id} type="monotone" dataKey={id} name={BENCHMARKS[id].label} stroke={BENCHMARK_COLORS[id]} strokeWidth={2} dot={false} />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )
+        ) : data.length < 2 ? (
+          <div className="h-full flex items-center justify-center text-center text-slate-400 text-xs md:text-sm font-medium">
+            市場データを更新するたびに1日1件のスナップショットが記録されます。<br />
+            2日分以上のデータが集まるとグラフが表示されます。
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data}>
+              <defs>
+                <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
+                  <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="date"
+                stroke="#94a3b8"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                tickMargin={10}
+                tickFormatter={formatDateLabel}
+              />
+              <YAxis
+                hide={true}
+                domain={['dataMin - 100', 'dataMax + 100']}
+              />
+              <Tooltip
+                cursor={{stroke: '#94a3b8', strokeWidth: 1, strokeDasharray: '5 5'}}
+                contentStyle={{ backgroundColor: '#ffffff', borderColor: '#e2e8f0', color: '#0f172a', borderRadius: '0.75rem', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                labelFormatter={(label: string) => label}
+                formatter={(value: number, name: string) => [formatMoney(value, baseCurrency), name]}
+              />
+              <Legend iconType="plainline" wrapperStyle={{ fontSize: 12 }} />
+              <Area
+                type="monotone"
+                dataKey="value"
+                name="評価額"
+                stroke="#2563eb"
+                strokeWidth={3}
+                fillOpacity={1}
+                fill="url(#colorValue)"
+              />
+              <Line
+                type="stepAfter"
+                dataKey="costBasis"
+                name="取得原価"
+                stroke="#94a3b8"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
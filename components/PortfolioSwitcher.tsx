@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Briefcase, ChevronDown, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Currency, Portfolio, PortfolioKind, PortfolioSummary } from '../types';
+import { ALL_PORTFOLIOS, PORTFOLIO_KIND_LABELS, countsTowardTotal } from '../services/portfolioService';
+import { formatMoney } from '../utils/format';
+
+interface PortfolioSwitcherProps {
+  portfolios: Portfolio[];
+  activePortfolioId: string;
+  summaries: Record<string, PortfolioSummary>;
+  baseCurrency: Currency;
+  onSelect: (id: string) => void;
+  onAdd: (name: string, kind: PortfolioKind) => void;
+  onRename: (id: string, name: string) => void;
+  // Returns an error message when rejected
+  onDelete: (id: string) => string | null;
+}
+
+const KIND_BADGE_CLASSES: Record<PortfolioKind, string> = {
+  [PortfolioKind.TAXABLE]: 'bg-slate-100 text-slate-500 border-slate-200',
+  [PortfolioKind.NISA]: 'bg-green-50 text-green-700 border-green-100',
+  [PortfolioKind.PAPER]: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+export const PortfolioKindBadge: React.FC<{ kind: PortfolioKind }> = ({ kind }) => (
+  <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap ${KIND_BADGE_CLASSES[kind]}`}>
+    {PORTFOLIO_KIND_LABELS[kind]}
+  </span>
+);
+
+export const PortfolioSwitcher: React.FC<PortfolioSwitcherProps> = ({
+  portfolios,
+  activePortfolioId,
+  summaries,
+  baseCurrency,
+  onSelect,
+  onAdd,
+  onRename,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New portfolio form
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<PortfolioKind>(PortfolioKind.TAXABLE);
+
+  // Inline rename
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const active = portfolios.find(p => p.id === activePortfolioId);
+
+  const handleSelect = (id: string) => {
+    onSelect(id);
+    setIsOpen(false);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onAdd(name, kind);
+    setName('');
+    setIsOpen(false);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renamingId) onRename(renamingId, renameValue);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (portfolio: Portfolio) => {
+    if (!window.confirm(`「${portfolio.name}」を削除しますか？`)) return;
+    setError(onDelete(portfolio.id));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setError(null); }}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 hover:border-blue-200 shadow-sm transition-all text-sm font-bold"
+      >
+        <Briefcase className="w-4 h-4 text-blue-600" />
+        <span className="truncate max-w-[12rem]">{active ? active.name : '全口座'}</span>
+        {active && <PortfolioKindBadge kind={active.kind} />}
+        <ChevronDown className="w-4 h-4 text-slate-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-[22rem] max-w-[calc(100vw-2rem)] bg-white border border-slate-200 rounded-2xl shadow-2xl z-30 overflow-hidden">
+          <div className="flex items-center justify-between p-3 border-b border-slate-200 bg-slate-50">
+            <p className="text-xs font-bold text-slate-500">口座を切り替え</p>
+            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-600 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            <button
+              onClick={() => handleSelect(ALL_PORTFOLIOS)}
+              className={`w-full text-left px-3 py-2.5 border-b border-slate-100 hover:bg-slate-50 transition-colors ${activePortfolioId === ALL_PORTFOLIOS ? 'bg-blue-50/50' : ''}`}
+            >
+              <p className="text-sm font-bold text-slate-800">全口座</p>
+              <p className="text-[10px] text-slate-400 mt-0.5">ペーパー口座を除く合算 (閲覧のみ)</p>
+            </button>
+
+            {portfolios.map(portfolio => {
+              const summary = summaries[portfolio.id];
+              return (
+                <div
+                  key={portfolio.id}
+                  className={`flex items-center gap-2 px-3 py-2.5 border-b border-slate-100 hover:bg-slate-50 transition-colors ${portfolio.id === activePortfolioId ? 'bg-blue-50/50' : ''}`}
+                >
+                  {renamingId === portfolio.id ? (
+                    <form onSubmit={handleRename} className="flex-1 flex gap-2">
+                      <input
+                        type="text"
+                        value={renameValue}
+                        onChange={e => setRenameValue(e.target.value)}
+                        autoFocus
+                        className="flex-1 bg-white border border-slate-300 rounded-lg px-2 py-1 text-xs text-slate-900 focus:border-blue-500 focus:outline-none"
+                      />
+                      <button type="submit" className="text-slate-400 hover:text-blue-600 transition-colors">
+                        <Check className="w-4 h-4" />
+                      </button>
+                    </form>
+                  ) : (
+                    <button onClick={() => handleSelect(portfolio.id)} className="flex-1 text-left min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-bold text-slate-800 truncate">{portfolio.name}</p>
+                        <PortfolioKindBadge kind={portfolio.kind} />
+                      </div>
+                      {summary && (
+                        <p className="text-[10px] text-slate-500 mt-0.5">
+                          {formatMoney(summary.totalValue, baseCurrency)}
+                          <span className={`ml-1.5 font-bold ${summary.totalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {summary.totalGain >= 0 ? '+' : ''}{summary.gainPercentage.toFixed(1)}%
+                          </span>
+                          {!countsTowardTotal(portfolio) && <span className="ml-1.5 text-slate-400">合算対象外</span>}
+                        </p>
+                      )}
+                    </button>
+                  )}
+                  {renamingId !== portfolio.id && (
+                    <>
+                      <button
+                        onClick={() => { setRenamingId(portfolio.id); setRenameValue(portfolio.name); }}
+                        title="名前を変更"
+                        className="text-slate-300 hover:text-blue-600 transition-colors"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(portfolio)}
+                        title="削除"
+                        className="text-slate-300 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {error && <p className="text-xs font-bold text-red-600 px-3 pt-2">{error}</p>}
+
+          <form onSubmit={handleAdd} className="p-3 flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="新しい口座名"
+              className="flex-1 min-w-0 bg-white border border-slate-300 rounded-lg p-2 text-xs text-slate-900 focus:border-blue-500 focus:outline-none"
+            />
+            <select
+              value={kind}
+              onChange={e => setKind(e.target.value as PortfolioKind)}
+              className="bg-white border border-slate-300 rounded-lg p-2 text-xs text-slate-900 focus:border-blue-500 focus:outline-none"
+            >
+              {Object.values(PortfolioKind).map(k => (
+                <option key={k} value={k}>{PORTFOLIO_KIND_LABELS[k]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold px-3 rounded-lg flex items-center gap-1 disabled:opacity-50"
+            >
+              <Plus className="w-3 h-3" /> 追加
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
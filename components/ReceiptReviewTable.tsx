@@ -0,0 +1,173 @@
+import React from 'react';
+import { FileText, Trash2 } from 'lucide-react';
+import { Currency, Ledger, ParsedTradeField, TransactionType } from '../types';
+import { ReceiptRow, findDuplicateRows, isLowConfidence, validateReceiptRow } from '../services/receiptService';
+import { TRANSACTION_LABELS } from '../services/ledgerService';
+
+interface ReceiptReviewTableProps {
+  rows: ReceiptRow[];
+  ledger: Ledger;
+  onChange: (rows: ReceiptRow[]) => void;
+}
+
+const cellInputClass = "w-full border rounded-md px-1.5 py-1 text-xs text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none";
+
+export const ReceiptReviewTable: React.FC<ReceiptReviewTableProps> = ({ rows, ledger, onChange }) => {
+  const duplicates = findDuplicateRows(rows, ledger);
+
+  const updateRow = (id: string, changes: Partial<ReceiptRow>) => {
+    onChange(rows.map(row => row.id === id ? { ...row, ...changes } : row));
+  };
+
+  const numberOrUndefined = (value: string) => value === '' ? undefined : parseFloat(value);
+
+  // Low-confidence fields are outlined in amber until they are edited
+  const fieldProps = (row: ReceiptRow, field: ParsedTradeField) => {
+    const confidence = row.confidence[field];
+    const low = isLowConfidence(row, field);
+    return {
+      className: `${cellInputClass} ${low ? 'bg-amber-50 border-amber-400' : 'bg-slate-50 border-slate-300'}`,
+      title: confidence === undefined ? undefined : `信頼度 ${Math.round(confidence * 100)}%`,
+    };
+  };
+
+  const edit = (row: ReceiptRow, field: ParsedTradeField, changes: Partial<ReceiptRow>) =>
+    updateRow(row.id, { ...changes, confidence: { ...row.confidence, [field]: 1 } });
+
+  return (
+    <div className="overflow-x-auto border border-slate-200 rounded-lg">
+      <table className="w-full text-xs">
+        <thead className="bg-slate-50 text-slate-500">
+          <tr>
+            <th className="p-2"></th>
+            <th className="text-left font-bold p-2">読み取り元</th>
+            <th className="text-left font-bold p-2 min-w-[6rem]">ティッカー</th>
+            <th className="text-left font-bold p-2">売買</th>
+            <th className="text-left font-bold p-2">約定日</th>
+            <th className="text-left font-bold p-2 min-w-[4.5rem]">数量</th>
+            <th className="text-left font-bold p-2 min-w-[5.5rem]">単価</th>
+            <th className="text-left font-bold p-2 min-w-[4.5rem]">手数料</th>
+            <th className="text-left font-bold p-2">通貨</th>
+            <th className="p-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const error = row.include ? validateReceiptRow(row, rows, ledger) : null;
+            return (
+              <React.Fragment key={row.id}>
+                <tr className={`border-t border-slate-100 align-top ${row.include ? '' : 'opacity-40'}`}>
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={row.include}
+                      onChange={e => updateRow(row.id, { include: e.target.checked })}
+                      className="mt-1.5"
+                    />
+                  </td>
+                  <td className="p-2 w-40">
+                    {row.crop ? (
+                      <a href={row.crop} target="_blank" rel="noopener noreferrer" title={row.fileName}>
+                        <img src={row.crop} alt={row.fileName} className="max-h-16 w-full object-contain rounded border border-slate-200 bg-white" />
+                      </a>
+                    ) : (
+                      <div className="flex items-center gap-1 text-slate-500" title={row.fileName}>
+                        <FileText className="w-4 h-4 flex-shrink-0" />
+                        <span className="truncate">{row.fileName}{row.page ? ` p.${row.page}` : ''}</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="text"
+                      value={row.ticker}
+                      onChange={e => edit(row, 'ticker', { ticker: e.target.value.toUpperCase() })}
+                      {...fieldProps(row, 'ticker')}
+                    />
+                    {row.companyName && <p className="text-[10px] text-slate-400 mt-0.5 truncate max-w-[8rem]">{row.companyName}</p>}
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={row.side}
+                      onChange={e => edit(row, 'side', { side: e.target.value as ReceiptRow['side'] })}
+                      {...fieldProps(row, 'side')}
+                    >
+                      {[TransactionType.BUY, TransactionType.SELL].map(type => (
+                        <option key={type} value={type}>{TRANSACTION_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="date"
+                      value={row.tradeDate}
+                      onChange={e => edit(row, 'tradeDate', { tradeDate: e.target.value })}
+                      {...fieldProps(row, 'tradeDate')}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      step="any"
+                      value={row.quantity ?? ''}
+                      onChange={e => edit(row, 'quantity', { quantity: numberOrUndefined(e.target.value) })}
+                      {...fieldProps(row, 'quantity')}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      step="any"
+                      value={row.price ?? ''}
+                      onChange={e => edit(row, 'price', { price: numberOrUndefined(e.target.value) })}
+                      {...fieldProps(row, 'price')}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      step="any"
+                      value={row.fees ?? ''}
+                      placeholder="0"
+                      onChange={e => edit(row, 'fees', { fees: numberOrUndefined(e.target.value) })}
+                      {...fieldProps(row, 'fees')}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={row.currency}
+                      onChange={e => edit(row, 'currency', { currency: e.target.value as Currency })}
+                      {...fieldProps(row, 'currency')}
+                    >
+                      {Object.values(Currency).map(c => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <button
+                      type="button"
+                      onClick={() => onChange(rows.filter(r => r.id !== row.id))}
+                      className="p-1 text-slate-400 hover:text-red-600 transition-colors"
+                      title="行を削除"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+                {row.include && (error || duplicates.has(row.id)) && (
+                  <tr>
+                    <td></td>
+                    <td colSpan={9} className={`px-2 pb-2 text-[11px] font-bold ${error ? 'text-red-600' : 'text-amber-700'}`}>
+                      {error ?? '同じ銘柄・約定日・売買・数量・単価の取引が既に登録されています'}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
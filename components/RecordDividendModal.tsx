@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { X, Coins } from 'lucide-react';
+import { Holding, HoldingAction, DividendOrder } from '../types';
+import { dividendOrderFromSchedule } from '../services/dividendService';
+import { formatMoney } from '../utils/format';
+
+interface RecordDividendModalProps {
+  holding: Holding;
+  // Returns an error message when the payment is rejected
+  onSubmit: (action: HoldingAction) => string | null;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors";
+
+export const RecordDividendModal: React.FC<RecordDividendModalProps> = ({ holding, onSubmit, onClose }) => {
+  // Prefilled from the schedule, when the holding has one
+  const initial = dividendOrderFromSchedule(holding);
+  const [payDate, setPayDate] = useState(initial.payDate);
+  const [exDate, setExDate] = useState(initial.exDate ?? '');
+  const [perShare, setPerShare] = useState(initial.perShare ? initial.perShare.toString() : '');
+  const [qty, setQty] = useState(initial.quantity.toString());
+  const [withholding, setWithholding] = useState(initial.withholdingTax ? initial.withholdingTax.toFixed(2) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const order: DividendOrder = {
+    payDate,
+    exDate: exDate || undefined,
+    perShare: parseFloat(perShare) || 0,
+    quantity: parseFloat(qty) || 0,
+    withholdingTax: withholding ? parseFloat(withholding) : undefined
+  };
+  const gross = order.perShare * order.quantity;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = onSubmit({ type: 'dividend', ticker: holding.ticker, dividend: order });
+    if (result) {
+      setError(result);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl border border-slate-200 w-full max-w-md shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Coins className="w-5 h-5 text-green-600" /> {holding.ticker} の配当を記録
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 md:p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm font-medium">{error}</div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">支払日</label>
+              <input required type="date" value={payDate} onChange={e => setPayDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">権利落ち日</label>
+              <input type="date" value={exDate} onChange={e => setExDate(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">1株あたり配当 ({holding.currency})</label>
+              <input required type="number" step="any" value={perShare} onChange={e => setPerShare(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">対象株数</label>
+              <input required type="number" step="any" value={qty} onChange={e => setQty(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">源泉徴収税 ({holding.currency})</label>
+            <input type="number" step="any" value={withholding} onChange={e => setWithholding(e.target.value)} placeholder="0" className={inputClass} />
+          </div>
+
+          {gross > 0 && (
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-slate-500 font-medium">配当総額 (税引前)</span>
+                <span className="font-bold text-slate-700">{formatMoney(gross, holding.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-500 font-medium">受取額</span>
+                <span className="font-bold text-green-600">{formatMoney(gross - (order.withholdingTax ?? 0), holding.currency)}</span>
+              </div>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-3 rounded-lg mt-2 transition-colors flex items-center justify-center gap-2 shadow-lg shadow-green-600/20"
+          >
+            配当を記録
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { X, HandCoins } from 'lucide-react';
+import { Holding, HoldingAction, SellOrder } from '../types';
+import { previewSell } from '../services/holdingService';
+import { formatMoney } from '../utils/format';
+import { toDateKey } from '../utils/date';
+
+interface SellHoldingModalProps {
+  holding: Holding;
+  // Returns an error message when the sell is rejected
+  onSubmit: (action: HoldingAction) => string | null;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-300 rounded-lg p-2.5 text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none transition-colors";
+
+export const SellHoldingModal: React.FC<SellHoldingModalProps> = ({ holding, onSubmit, onClose }) => {
+  const [qty, setQty] = useState(holding.quantity.toString());
+  const [price, setPrice] = useState(holding.currentPrice.toString());
+  const [tradeDate, setTradeDate] = useState(toDateKey());
+  const [fees, setFees] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const order: SellOrder = {
+    quantity: parseFloat(qty) || 0,
+    price: parseFloat(price) || 0,
+    date: tradeDate,
+    fees: fees ? parseFloat(fees) : undefined
+  };
+  const preview = order.quantity > 0 && order.quantity <= holding.quantity && order.price > 0
+    ? previewSell(holding, order)
+    : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = onSubmit({ type: 'sell', ticker: holding.ticker, order });
+    if (result) {
+      setError(result);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl border border-slate-200 w-full max-w-md shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <HandCoins className="w-5 h-5 text-orange-500" /> {holding.ticker} を売却
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 md:p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm font-medium">{error}</div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1 flex justify-between">
+                売却数量
+                <button type="button" onClick={() => setQty(holding.quantity.toString())} className="text-blue-600 hover:underline">
+                  全数 ({holding.quantity})
+                </button>
+              </label>
+              <input required type="number" step="any" value={qty} onChange={e => setQty(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">売却単価 ({holding.currency})</label>
+              <input required type="number" step="any" value={price} onChange={e => setPrice(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">約定日</label>
+              <input required type="date" value={tradeDate} onChange={e => setTradeDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">手数料 ({holding.currency})</label>
+              <input type="number" step="any" value={fees} onChange={e => setFees(e.target.value)} placeholder="0" className={inputClass} />
+            </div>
+          </div>
+
+          {preview && (
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-slate-500 font-medium">実現損益 (移動平均)</span>
+                <span className={`font-bold ${preview.realizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatMoney(preview.realizedGain, holding.currency)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-500 font-medium">実現損益 (FIFO)</span>
+                <span className={`font-bold ${preview.fifoRealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatMoney(preview.fifoRealizedGain, holding.currency)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-500 font-medium">売却後の保有数量</span>
+                <span className="font-bold text-slate-700">{preview.remainingQuantity}株</span>
+              </div>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="w-full bg-orange-500 hover:bg-orange-400 text-white font-bold py-3 rounded-lg mt-2 transition-colors flex items-center justify-center gap-2 shadow-lg shadow-orange-500/20"
+          >
+            売却を記録
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
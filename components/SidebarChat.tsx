@@ -1,21 +1,91 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Bot, User } from 'lucide-react';
-import { StockAsset, ChatMessage } from '../types';
-import { streamPortfolioChat } from '../services/geminiService';
+import { Holding, ChatMessage, FxRates, PriceHistory, Currency, HoldingAction, ChatPart, ChatToolCallRecord, PortfolioChatRequest } from '../types';
+import { fetchStockNews, streamPortfolioChat } from '../services/geminiService';
+import { STORAGE_KEYS } from '../services/storageService';
+import { CHAT_COMMAND_HELP, describeHoldingAction, parseChatCommand } from '../services/chatCommandService';
+import { toChatHistory, toolCallToAction } from '../services/chatToolService';
+import { computePortfolioMetrics } from '../services/metricsService';
+import { dailyValues } from '../services/performanceService';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { createId } from '../utils/id';
+import { ChatToolCard } from './ChatToolCard';
 
 interface SidebarChatProps {
-  assets: StockAsset[];
-  usdJpyRate: number;
+  holdings: Holding[];
+  priceHistory: PriceHistory;
+  fxRates: FxRates;
+  baseCurrency: Currency;
+  // Applies a change typed as a chat command or confirmed from a tool call to the given portfolio;
+  // returns an error message when rejected
+  onHoldingAction: (action: HoldingAction, portfolioId: string) => string | null;
+  // Resolves to whether prices were updated
+  onRefreshPrices: () => Promise<boolean>;
+  // The chat only sees the holdings of this portfolio
+  portfolioId: string;
+  portfolioName: string;
 }
 
-export const SidebarChat: React.FC<SidebarChatProps> = ({ assets, usdJpyRate }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: "こんにちは！Geminiポートフォリオアシスタントです。保有している米国株について質問するか、購入レシートをアップロードして資産を更新してください。" }
-  ]);
+// Model replies that call tools are answered this many times per message at most
+const MAX_TOOL_ROUNDS = 5;
+// Confirmation cards left unanswered this long count as cancelled
+const CONFIRMATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+const buildPortfolioContext = (holdings: Holding[]) => JSON.stringify(holdings.map(h => ({
+  ticker: h.ticker,
+  account: h.portfolioName,
+  exchange: h.exchange,
+  sector: h.sector,
+  country: h.country,
+  currency: h.currency,
+  qty: h.quantity,
+  avg_cost: h.avgPrice,
+  fifo_avg_cost: h.fifoAvgPrice,
+  price: h.currentPrice,
+  price_updated_at: new Date(h.lastUpdated).toISOString(),
+  current_val: h.currentPrice * h.quantity,
+  realized_gain: h.realizedGain,
+  dividends: h.dividendIncome,
+  dividend_schedule: h.dividend,
+  trades: h.transactions.length,
+  ai_pick: h.pick && {
+    source: h.source,
+    thesis: h.pick.recommendation,
+    recommended_at: h.pick.recommendedAt,
+    target: h.pick.targetPrice,
+    stop_loss: h.pick.stopLoss,
+    horizon: h.pick.horizon
+  }
+})));
+
+export const SidebarChat: React.FC<SidebarChatProps> = ({ holdings, priceHistory, fxRates, baseCurrency, onHoldingAction, onRefreshPrices, portfolioId, portfolioName }) => {
+  const [messages, setMessages] = usePersistentState<ChatMessage[]>(
+    STORAGE_KEYS.CHAT_MESSAGES,
+    [{ role: 'model', text: "こんにちは！Geminiポートフォリオアシスタントです。保有している株式について質問するか、購入レシートをアップロードして資産を更新してください。" }],
+    // Drop in-flight placeholders so a reload never shows a stuck "thinking" bubble,
+    // and close confirmation cards nobody can answer after a reload
+    msgs => msgs
+      .filter(m => !m.isThinking)
+      .map(m => m.toolCall?.status === 'pending' ? { ...m, toolCall: { ...m.toolCall, status: 'rejected' } } : m)
+  );
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Tool calls run across several renders and must see the latest holdings and prices
+  const holdingsRef = useRef(holdings);
+  holdingsRef.current = holdings;
+  const priceHistoryRef = useRef(priceHistory);
+  priceHistoryRef.current = priceHistory;
+  const fxRatesRef = useRef(fxRates);
+  fxRatesRef.current = fxRates;
+  // Confirmed actions must be applied by the handler of the latest render
+  const onHoldingActionRef = useRef(onHoldingAction);
+  onHoldingActionRef.current = onHoldingAction;
+  const portfolioIdRef = useRef(portfolioId);
+  portfolioIdRef.current = portfolioId;
+  const confirmations = useRef(new Map<string, (approved: boolean) => void>());
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -24,44 +94,177 @@ export const SidebarChat: React.FC<SidebarChatProps> = ({ assets, usdJpyRate })
     scrollToBottom();
   }, [messages]);
 
+  // A card that is no longer shown can't be answered, so its wait ends as cancelled
+  useEffect(() => {
+    confirmations.current.forEach((resolve, key) => {
+      if (!messages.some(m => m.toolCall?.key === key && m.toolCall.status === 'pending')) resolve(false);
+    });
+  }, [messages]);
+
+  useEffect(() => {
+    const pending = confirmations.current;
+    return () => pending.forEach(resolve => resolve(false));
+  }, []);
+
+  const updateToolCall = (key: string, changes: Partial<ChatToolCallRecord>) => {
+    setMessages(prev => prev.map(m => m.toolCall?.key === key ? { ...m, toolCall: { ...m.toolCall, ...changes } } : m));
+  };
+
+  /** Resolves to whether the user approved the card, or false once it times out or goes away. */
+  const waitForConfirmation = (key: string) => new Promise<boolean>(resolve => {
+    const timer = setTimeout(() => settle(false), CONFIRMATION_TIMEOUT_MS);
+    const settle = (approved: boolean) => {
+      clearTimeout(timer);
+      confirmations.current.delete(key);
+      resolve(approved);
+    };
+    confirmations.current.set(key, settle);
+  });
+
+  /**
+   * Runs one tool call and returns it with the response for the model.
+   * Calls that change holdings show a confirmation card and wait for the user.
+   */
+  const runTool = async (call: ChatToolCallRecord): Promise<ChatToolCallRecord> => {
+    let summary: string | undefined;
+    const finish = (status: ChatToolCallRecord['status'], response: Record<string, unknown>) => {
+      updateToolCall(call.key, { status, response });
+      return { ...call, summary, status, response };
+    };
+
+    try {
+      switch (call.name) {
+        case 'refresh_prices': {
+          if (!(await onRefreshPrices())) {
+            return finish('failed', { error: 'Prices could not be updated (request failed or the daily refresh budget is used up).' });
+          }
+          // Let the refreshed holdings render before reading them
+          await new Promise(resolve => setTimeout(resolve, 0));
+          return finish('done', {
+            prices: Object.fromEntries(holdingsRef.current.map(h => [h.ticker, { price: h.currentPrice, currency: h.currency }])),
+          });
+        }
+        case 'fetch_news': {
+          const news = await fetchStockNews([String(call.args.ticker ?? '')]);
+          return news ? finish('done', { news }) : finish('failed', { error: 'News could not be fetched.' });
+        }
+        case 'compute_metrics': {
+          const holdingsNow = holdingsRef.current;
+          const values = dailyValues(holdingsNow, priceHistoryRef.current, fxRatesRef.current, baseCurrency);
+          return finish('done', { ...computePortfolioMetrics(holdingsNow, values, priceHistoryRef.current, fxRatesRef.current, baseCurrency) });
+        }
+        default: {
+          // The card describes this portfolio's holdings, so the change goes there even if the user switches
+          const holdingsBefore = holdingsRef.current;
+          const targetPortfolioId = portfolioIdRef.current;
+          const result = toolCallToAction(call, holdingsBefore);
+          if (result.kind !== 'action') return finish('failed', { error: result.kind === 'error' ? result.message : 'Unsupported tool' });
+
+          summary = describeHoldingAction(result.action, holdingsBefore, true);
+          updateToolCall(call.key, { summary });
+          const approved = await waitForConfirmation(call.key);
+          if (!approved) return finish('rejected', { error: 'The user cancelled this change.' });
+
+          const error = onHoldingActionRef.current(result.action, targetPortfolioId);
+          return error
+            ? finish('failed', { error })
+            : finish('applied', { ok: true, result: describeHoldingAction(result.action, holdingsBefore) });
+        }
+      }
+    } catch (error) {
+      return finish('failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleConfirm = (key: string, approved: boolean) => {
+    confirmations.current.get(key)?.(approved);
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
     const userMsg: ChatMessage = { role: 'user', text: input };
     setMessages(prev => [...prev, userMsg]);
     setInput('');
+
+    // Slash commands change holdings locally without asking the model
+    const command = parseChatCommand(userMsg.text, holdings);
+    if (command) {
+      let reply: string;
+      if (command.kind === 'help') {
+        reply = CHAT_COMMAND_HELP;
+      } else if (command.kind === 'error') {
+        reply = command.message;
+      } else {
+        const summary = describeHoldingAction(command.action, holdings);
+        reply = onHoldingActionRef.current(command.action, portfolioId) ?? summary;
+      }
+      setMessages(prev => [...prev, { role: 'model', text: reply }]);
+      return;
+    }
+
     setIsLoading(true);
 
     try {
-      const portfolioContext = JSON.stringify(assets.map(a => ({
-        ticker: a.ticker,
-        qty: a.quantity,
-        avg_cost: a.avgPrice,
-        current_val: a.currentPrice * a.quantity
-      })));
-
-      // Convert current messages to API history format
-      const history = messages.map(m => ({
-        role: m.role,
-        parts: [{ text: m.text }]
-      }));
-
-      const stream = streamPortfolioChat(history, userMsg.text, portfolioContext, usdJpyRate);
-      
-      let fullResponse = "";
-      setMessages(prev => [...prev, { role: 'model', text: '', isThinking: true }]);
-
-      for await (const chunk of stream) {
-        fullResponse += chunk;
-        setMessages(prev => {
-          const newArr = [...prev];
-          newArr[newArr.length - 1] = { role: 'model', text: fullResponse, isThinking: false };
-          return newArr;
-        });
-      }
+      // Local copy of the transcript, since state updates land after this handler reads them
+      let transcript: ChatMessage[] = [...messages, userMsg];
+      let history = toChatHistory(messages);
+      let message: string | ChatPart[] = userMsg.text;
+
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const request: PortfolioChatRequest = {
+          history,
+          message,
+          portfolioContext: buildPortfolioContext(holdingsRef.current),
+          fxRates: fxRatesRef.current,
+          baseCurrency,
+          portfolioName
+        };
+
+        let fullResponse = "";
+        const calls: ChatToolCallRecord[] = [];
+        setMessages(prev => [...prev, { role: 'model', text: '', isThinking: true }]);
+
+        for await (const event of streamPortfolioChat(request)) {
+          if (event.type === 'tool_call') {
+            calls.push({ ...event.call, key: createId(), status: 'pending' });
+            continue;
+          }
+          fullResponse += event.text;
+          setMessages(prev => {
+            const newArr = [...prev];
+            newArr[newArr.length - 1] = { role: 'model', text: fullResponse, isThinking: false };
+            return newArr;
+          });
+        }
 
+        // Replace the streamed bubble with the final text followed by one entry per tool call
+        const replies: ChatMessage[] = [
+          ...(fullResponse ? [{ role: 'model' as const, text: fullResponse }] : []),
+          ...calls.map(call => ({ role: 'model' as const, text: '', toolCall: call })),
+        ];
+        setMessages(prev => [...prev.slice(0, -1), ...replies]);
+        transcript = [...transcript, ...replies];
+        if (calls.length === 0) break;
+
+        const results = new Map<string, ChatToolCallRecord>();
+        for (const call of calls) {
+          results.set(call.key, await runTool(call));
+        }
+        transcript = transcript.map(m => m.toolCall && results.has(m.toolCall.key) ? { ...m, toolCall: results.get(m.toolCall.key) } : m);
+        if (round === MAX_TOOL_ROUNDS - 1) {
+          // The model never sees these results, so say where the reply stopped
+          setMessages(prev => [...prev, { role: 'model', text: 'ツールの呼び出し回数が上限に達したため、応答を中断しました。上の結果を確認し、必要であれば続きを指示してください。' }]);
+          break;
+        }
+
+        // The tool results become the next message; everything before them is history
+        const contents = toChatHistory(transcript);
+        message = contents.pop()!.parts;
+        history = contents;
+      }
     } catch (error) {
-      setMessages(prev => [...prev, { role: 'model', text: "申し訳ありません。リクエストの処理中にエラーが発生しました。" }]);
+      setMessages(prev => [...prev.filter(m => !m.isThinking), { role: 'model', text: "申し訳ありません。リクエストの処理中にエラーが発生しました。" }]);
     } finally {
       setIsLoading(false);
     }
@@ -77,7 +280,11 @@ export const SidebarChat: React.FC<SidebarChatProps> = ({ assets, usdJpyRate })
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-hide bg-slate-50/50">
-        {messages.map((msg, idx) => (
+        {messages.map((msg, idx) => msg.toolCall ? (
+          <div key={idx} className="flex justify-start">
+            <ChatToolCard call={msg.toolCall} onConfirm={handleConfirm} />
+          </div>
+        ) : (
           <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-[85%] rounded-2xl p-3 shadow-sm ${
               msg.role === 'user' 
@@ -106,7 +313,7 @@ export const SidebarChat: React.FC<SidebarChatProps> = ({ assets, usdJpyRate })
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="NVIDIAのポジションについて分析して..."
+            placeholder="NVIDIAのポジションについて分析して... (/help でコマンド一覧)"
             className="flex-1 bg-slate-100 border border-slate-300 rounded-lg px-4 py-2 text-sm focus:outline-none focus:border-blue-500 focus:bg-white text-slate-900 placeholder-slate-400 transition-colors"
           />
           <button 
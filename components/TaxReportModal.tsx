@@ -0,0 +1,256 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Landmark, Download, Printer, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Currency, FxRates, Holding, Portfolio, PortfolioKind, PortfolioMap, PriceHistory, TaxAccountTotals, TaxFxSource } from '../types';
+import { JP_CAPITAL_TAX_RATE, TAX_FX_SOURCE_LABELS, buildTaxReport, missingFxRanges, reportYears } from '../services/taxService';
+import { taxReportToCsv } from '../services/exportService';
+import { downloadFile, printElement } from '../utils/download';
+import { formatMoney } from '../utils/format';
+import { PortfolioKindBadge } from './PortfolioSwitcher';
+
+interface TaxReportModalProps {
+  portfolios: Portfolio[];
+  holdingsByPortfolio: PortfolioMap<Holding[]>;
+  // FX pair series such as USDJPY are read from here
+  priceHistory: PriceHistory;
+  fxRates: FxRates;
+  // Resolves to whether any rates were received
+  onFetchFxHistory: (currency: Currency, from: string, to: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const yen = (amount: number) => formatMoney(Math.floor(amount), Currency.JPY);
+
+const TotalsCard: React.FC<{ title: string; totals: TaxAccountTotals; taxed: boolean }> = ({ title, totals, taxed }) => (
+  <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 text-sm">
+    <p className="font-bold text-slate-800 mb-2">{title}</p>
+    <dl className="grid grid-cols-2 gap-y-1">
+      <dt className="text-slate-500">譲渡損益</dt>
+      <dd className={`text-right font-bold ${totals.realizedGainJpy >= 0 ? 'text-green-600' : 'text-red-600'}`}>{yen(totals.realizedGainJpy)}</dd>
+      <dt className="text-slate-500">配当 (外国税引前)</dt>
+      <dd className="text-right font-bold text-slate-900">{yen(totals.dividendGrossJpy)}</dd>
+      <dt className="text-slate-500">外国源泉税</dt>
+      <dd className="text-right font-bold text-slate-900">{yen(totals.foreignTaxJpy)}</dd>
+      {taxed ? (
+        <>
+          <dt className="text-slate-500">推定税額 ({(JP_CAPITAL_TAX_RATE * 100).toFixed(3)}%)</dt>
+          <dd className="text-right font-black text-slate-900">{yen(totals.estimatedTaxJpy)}</dd>
+          <dt className="text-slate-500">外国税額控除 (概算)</dt>
+          <dd className="text-right font-bold text-slate-900">{yen(totals.foreignTaxCreditJpy)}</dd>
+        </>
+      ) : (
+        <>
+          <dt className="text-slate-500">国内税</dt>
+          <dd className="text-right font-bold text-slate-900">非課税</dd>
+        </>
+      )}
+    </dl>
+  </div>
+);
+
+const FxCell: React.FC<{ rate: number; source: TaxFxSource }> = ({ rate, source }) => (
+  <td
+    className={`p-2 text-right ${source === 'current' ? 'text-amber-700 font-bold' : 'text-slate-600'}`}
+    title={TAX_FX_SOURCE_LABELS[source]}
+  >
+    {rate.toFixed(2)}{source === 'current' && '*'}
+  </td>
+);
+
+export const TaxReportModal: React.FC<TaxReportModalProps> = ({
+  portfolios,
+  holdingsByPortfolio,
+  priceHistory,
+  fxRates,
+  onFetchFxHistory,
+  onClose
+}) => {
+  const years = useMemo(() => reportYears(holdingsByPortfolio), [holdingsByPortfolio]);
+  const [year, setYear] = useState(years[0]);
+  const [isFetchingFx, setIsFetchingFx] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const report = useMemo(
+    () => buildTaxReport(year, portfolios, holdingsByPortfolio, priceHistory, fxRates),
+    [year, portfolios, holdingsByPortfolio, priceHistory, fxRates]
+  );
+  const missingRanges = Object.entries(missingFxRanges(report)) as [Currency, { from: string; to: string }][];
+  const estimatedCount = new Set(report.missingFx.map(m => `${m.currency}|${m.date}`)).size;
+  const hasNisa = portfolios.some(p => p.kind === PortfolioKind.NISA);
+
+  const handleFetchFx = async () => {
+    setIsFetchingFx(true);
+    setError(null);
+    const results = [];
+    for (const [currency, range] of missingRanges) {
+      results.push(await onFetchFxHistory(currency, range.from, range.to));
+    }
+    if (results.some(ok => !ok)) setError('一部の為替レートを取得できませんでした。');
+    setIsFetchingFx(false);
+  };
+
+  const handlePrint = () => {
+    if (reportRef.current && !printElement(reportRef.current, `${year}年 税務レポート`)) {
+      setError('ポップアップがブロックされました。ブラウザの設定を確認してください。');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl border border-slate-200 w-full max-w-5xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Landmark className="w-5 h-5 text-blue-600" /> 税務レポート (円換算)
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 md:p-6 overflow-y-auto space-y-4">
+          {/* Controls */}
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={year}
+              onChange={e => setYear(Number(e.target.value))}
+              className="bg-slate-50 border border-slate-300 rounded-lg p-2 text-sm font-bold text-slate-900 focus:border-blue-500 focus:bg-white focus:outline-none"
+            >
+              {years.map(y => (
+                <option key={y} value={y}>{y}年</option>
+              ))}
+            </select>
+            <div className="flex-1" />
+            <button
+              onClick={() => downloadFile(`tax-report-${year}.csv`, taxReportToCsv(report), 'text/csv')}
+              className="text-sm font-bold text-slate-600 hover:text-blue-600 flex items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-200 hover:border-blue-200 hover:bg-blue-50 transition-colors"
+            >
+              <Download className="w-4 h-4" /> CSV
+            </button>
+            <button
+              onClick={handlePrint}
+              className="text-sm font-bold text-slate-600 hover:text-blue-600 flex items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-200 hover:border-blue-200 hover:bg-blue-50 transition-colors"
+            >
+              <Printer className="w-4 h-4" /> 印刷 / PDF
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm font-medium">{error}</div>
+          )}
+
+          {estimatedCount > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex flex-col sm:flex-row sm:items-center gap-2">
+              <p className="flex-1 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                {estimatedCount}日分の為替レートがないため、現在のレートで仮計算しています (*印)。
+              </p>
+              <button
+                onClick={handleFetchFx}
+                disabled={isFetchingFx}
+                className="bg-white border border-amber-300 text-amber-800 font-bold text-xs px-3 py-1.5 rounded-lg hover:bg-amber-100 transition-colors flex items-center gap-1.5 disabled:opacity-50 whitespace-nowrap"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${isFetchingFx ? 'animate-spin' : ''}`} /> 為替レートを取得
+              </button>
+            </div>
+          )}
+
+          {/* Printable Report */}
+          <div ref={reportRef} className="space-y-6 bg-white">
+            <h4 className="text-xl font-extrabold text-slate-900">{year}年 譲渡損益・配当 (円換算)</h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <TotalsCard title="課税口座 (特定・一般)" totals={report.taxable} taxed />
+              {hasNisa && <TotalsCard title="NISA" totals={report.nisa} taxed={false} />}
+            </div>
+
+            <section>
+              <p className="text-sm font-bold text-slate-700 mb-2">譲渡 ({report.gains.length}件)</p>
+              <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="text-left font-bold p-2">口座</th>
+                      <th className="text-left font-bold p-2">約定日</th>
+                      <th className="text-left font-bold p-2">銘柄</th>
+                      <th className="text-right font-bold p-2">数量</th>
+                      <th className="text-right font-bold p-2">為替</th>
+                      <th className="text-right font-bold p-2">譲渡対価</th>
+                      <th className="text-right font-bold p-2">取得費</th>
+                      <th className="text-right font-bold p-2">損益</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.gains.map((row, i) => (
+                      <tr key={i} className="border-t border-slate-100">
+                        <td className="p-2">
+                          <span className="flex items-center gap-1.5 whitespace-nowrap">{row.portfolioName} <PortfolioKindBadge kind={row.kind} /></span>
+                        </td>
+                        <td className="p-2 text-slate-600 whitespace-nowrap">{row.date}</td>
+                        <td className="p-2 font-bold text-slate-900">{row.ticker}</td>
+                        <td className="p-2 text-right text-slate-600">{row.quantity}</td>
+                        <FxCell rate={row.fxRate} source={row.fxSource} />
+                        <td className="p-2 text-right text-slate-900">{yen(row.proceedsJpy)}</td>
+                        <td className={`p-2 text-right ${row.costFxEstimated ? 'text-amber-700 font-bold' : 'text-slate-900'}`}>
+                          {yen(row.costJpy)}{row.costFxEstimated && '*'}
+                        </td>
+                        <td className={`p-2 text-right font-bold ${row.gainJpy >= 0 ? 'text-green-600' : 'text-red-600'}`}>{yen(row.gainJpy)}</td>
+                      </tr>
+                    ))}
+                    {report.gains.length === 0 && (
+                      <tr><td colSpan={8} className="p-4 text-center text-slate-400">この年の売却はありません。</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section>
+              <p className="text-sm font-bold text-slate-700 mb-2">配当 ({report.dividends.length}件)</p>
+              <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="text-left font-bold p-2">口座</th>
+                      <th className="text-left font-bold p-2">支払日</th>
+                      <th className="text-left font-bold p-2">銘柄</th>
+                      <th className="text-right font-bold p-2">為替</th>
+                      <th className="text-right font-bold p-2">配当 (外国税引前)</th>
+                      <th className="text-right font-bold p-2">外国源泉税</th>
+                      <th className="text-right font-bold p-2">受取額</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.dividends.map((row, i) => (
+                      <tr key={i} className="border-t border-slate-100">
+                        <td className="p-2">
+                          <span className="flex items-center gap-1.5 whitespace-nowrap">{row.portfolioName} <PortfolioKindBadge kind={row.kind} /></span>
+                        </td>
+                        <td className="p-2 text-slate-600 whitespace-nowrap">{row.date}</td>
+                        <td className="p-2 font-bold text-slate-900">{row.ticker}</td>
+                        <FxCell rate={row.fxRate} source={row.fxSource} />
+                        <td className="p-2 text-right text-slate-900">{yen(row.grossJpy)}</td>
+                        <td className="p-2 text-right text-slate-900">{yen(row.foreignTaxJpy)}</td>
+                        <td className="p-2 text-right font-bold text-slate-900">{yen(row.netJpy)}</td>
+                      </tr>
+                    ))}
+                    {report.dividends.length === 0 && (
+                      <tr><td colSpan={7} className="p-4 text-center text-slate-400">この年の配当はありません。</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <ul className="text-[11px] text-slate-500 space-y-0.5 list-disc pl-4">
+              <li>各取引はその約定日・支払日の為替レート (TTM) で円換算し、取得費は円建ての移動平均 (総平均法に準ずる方法) で計算しています。</li>
+              <li>推定税額は譲渡損益と配当を申告分離課税で損益通算した場合の概算です。配当の国内課税は外国源泉税を差し引いた額に対してかかります。</li>
+              <li>外国税額控除は推定税額を上限とした概算で、実際の控除限度額は他の所得により変わります。NISA口座の外国源泉税は控除できません。</li>
+              <li>配当の記録額は外国源泉徴収後・国内課税前の受取額として扱います。ペーパー口座は含まれません。</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 10000 }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-slate-900 text-white rounded-xl shadow-2xl px-4 py-3 flex items-center gap-4 text-sm">
+      <span className="font-medium">{message}</span>
+      <button onClick={onUndo} className="flex items-center gap-1 font-bold text-blue-300 hover:text-blue-200 transition-colors">
+        <Undo2 className="w-4 h-4" /> 元に戻す
+      </button>
+      <button onClick={onDismiss} className="text-slate-400 hover:text-white transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import { InstrumentType, MarketDataProviderId } from './types';
+
+const MARKET_DATA_PROVIDERS: MarketDataProviderId[] = ['gemini', 'file', 'mock'];
+
+// Seeds a sample portfolio and, unless a provider is set, uses generated prices
+const demoMode = process.env.DEMO_MODE === '1';
+
+const parseProviderId = (value: string | undefined): MarketDataProviderId =>
+  MARKET_DATA_PROVIDERS.includes(value as MarketDataProviderId) ? value as MarketDataProviderId : demoMode ? 'mock' : 'gemini';
+
+// Build-time settings, injected through `define` in vite.config.ts
+export const config = {
+  // Base URL of the api/ endpoints that call Gemini on the server
+  apiBaseUrl: process.env.API_BASE_URL || '/api',
+  demoMode,
+  marketDataProvider: parseProviderId(process.env.MARKET_DATA_PROVIDER),
+  // CSV or JSON file served by the app, used by the 'file' provider
+  marketDataFile: process.env.MARKET_DATA_FILE || '/market-data.json',
+  priceValidation: {
+    // Largest move from the previous price accepted automatically, per trading day
+    maxDailyMovePercent: {
+      [InstrumentType.STOCK]: Number(process.env.MAX_DAILY_MOVE_PERCENT) || 25,
+      [InstrumentType.ETF]: 10,
+    } as Record<InstrumentType, number>,
+    // Same for FX rates, from the last recorded rate
+    maxDailyFxMovePercent: 5,
+    // A new asset's first quote is checked against its purchase price with this many times the usual range
+    firstQuoteToleranceFactor: 2,
+  },
+  autoRefresh: {
+    // Default interval between scheduled refreshes; 0 disables them
+    intervalMinutes: process.env.AUTO_REFRESH_MINUTES ? Number(process.env.AUTO_REFRESH_MINUTES) : 30,
+    // Market data requests allowed per day, manual refreshes included
+    maxDailyRequests: Number(process.env.MAX_DAILY_REFRESHES) || 40,
+    // Retry delay after a failure doubles from the first value up to the second
+    backoffMinutes: { initial: 2, max: 60 },
+  },
+};
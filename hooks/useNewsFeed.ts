@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { NewsCache, NewsItem, NewsWindow } from '../types';
+import { fetchStockNews } from '../services/geminiService';
+import { STORAGE_KEYS } from '../services/storageService';
+import { normalizeTicker } from '../services/ledgerService';
+import {
+  EMPTY_NEWS_CACHE,
+  NEWS_WINDOWS,
+  cachedNews,
+  lastNewsFetch,
+  mergeNews,
+  newsIdOf,
+  staleNewsTickers,
+} from '../services/newsService';
+import { usePersistentState } from './usePersistentState';
+
+export interface NewsFeed {
+  items: NewsItem[];
+  isLoading: boolean;
+  // Whether the last request failed; the cached stories are still shown
+  failed: boolean;
+  newsWindow: NewsWindow;
+  setNewsWindow: (window: NewsWindow) => void;
+  lastFetchedAt?: number;
+  isUnread: (item: NewsItem) => boolean;
+  markRead: (items: NewsItem[]) => void;
+  // Fetches every ticker again, ignoring the TTL
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Cached news of the given tickers. Fetches the tickers whose stories for
+ * the window are missing or expired, so adding a holding only asks for that ticker.
+ */
+export const useNewsFeed = (tickers: string[]): NewsFeed => {
+  const [cache, setCache, isCacheHydrated] = usePersistentState<NewsCache>(STORAGE_KEYS.NEWS_CACHE, EMPTY_NEWS_CACHE);
+  const [newsWindow, setNewsWindow, isWindowHydrated] = usePersistentState<NewsWindow>(STORAGE_KEYS.NEWS_WINDOW, '1W');
+  const [isLoading, setIsLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const tickerKey = [...new Set(tickers.map(normalizeTicker))].sort().join(',');
+  const tickerList = useMemo(() => tickerKey ? tickerKey.split(',') : [], [tickerKey]);
+
+  const cacheRef = useRef(cache);
+  cacheRef.current = cache;
+  // Tickers with a request in flight, so a re-render doesn't ask for them twice
+  const inFlight = useRef(new Set<string>());
+
+  const fetchNews = useCallback(async (targets: string[], window: NewsWindow) => {
+    const pending = targets.filter(t => !inFlight.current.has(`${t}:${window}`));
+    if (pending.length === 0) return;
+    pending.forEach(t => inFlight.current.add(`${t}:${window}`));
+    setIsLoading(true);
+    const items = await fetchStockNews(pending, NEWS_WINDOWS[window].days);
+    pending.forEach(t => inFlight.current.delete(`${t}:${window}`));
+    setIsLoading(inFlight.current.size > 0);
+    setFailed(items === null);
+    if (items) setCache(prev => mergeNews(prev, pending, window, items));
+  }, [setCache]);
+
+  useEffect(() => {
+    if (!isCacheHydrated || !isWindowHydrated) return;
+    fetchNews(staleNewsTickers(cacheRef.current, tickerList, newsWindow), newsWindow);
+  }, [isCacheHydrated, isWindowHydrated, tickerList, newsWindow, fetchNews]);
+
+  const items = useMemo(() => cachedNews(cache, tickerList, newsWindow), [cache, tickerList, newsWindow]);
+  const readIds = useMemo(() => new Set(cache.readIds), [cache.readIds]);
+
+  const markRead = useCallback((read: NewsItem[]) => {
+    setCache(prev => {
+      const ids = read.map(newsIdOf).filter(id => !prev.readIds.includes(id));
+      return ids.length > 0 ? { ...prev, readIds: [...prev.readIds, ...ids] } : prev;
+    });
+  }, [setCache]);
+
+  return {
+    items,
+    isLoading,
+    failed,
+    newsWindow,
+    setNewsWindow,
+    lastFetchedAt: lastNewsFetch(cache, tickerList, newsWindow),
+    isUnread: item => !readIds.has(newsIdOf(item)),
+    markRead,
+    refresh: () => fetchNews(tickerList, newsWindow),
+  };
+};
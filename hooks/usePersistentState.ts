@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { getItem, setItem } from '../services/storageService';
+
+/**
+ * useState backed by storageService.
+ * Starts with `initialValue`, replaces it with the stored value once loaded,
+ * and writes every subsequent change back to storage.
+ * `isHydrated` turns true once the stored value has been read. It stays false
+ * while storage is closed, so nothing is written over data that failed to migrate.
+ */
+export const usePersistentState = <T,>(
+  key: string,
+  initialValue: T,
+  serialize?: (value: T) => T
+): [T, React.Dispatch<React.SetStateAction<T>>, boolean] => {
+  const [value, setValue] = useState<T>(initialValue);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getItem<T>(key).then(stored => {
+      if (cancelled) return;
+      if (stored !== undefined) setValue(stored);
+      setIsHydrated(true);
+    }, () => {});
+    return () => { cancelled = true; };
+  }, [key]);
+
+  useEffect(() => {
+    // Don't overwrite stored data with the initial value before it has been loaded
+    if (!isHydrated) return;
+    setItem(key, serialize ? serialize(value) : value);
+  }, [key, value, isHydrated]);
+
+  return [value, setValue, isHydrated];
+};
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { Exchange, RefreshState } from '../types';
+import { config } from '../config';
+import { STORAGE_KEYS } from '../services/storageService';
+import {
+  INITIAL_REFRESH_STATE,
+  ScheduledRefresh,
+  isStale,
+  nextScheduledRefresh,
+  recordExtraRequest,
+  recordRefreshAttempt,
+  remainingRequests,
+} from '../services/refreshScheduler';
+import { usePersistentState } from './usePersistentState';
+
+export interface RefreshScheduler {
+  // Runs a refresh now, unless one is in flight or the daily budget is spent.
+  // Resolves to whether prices were updated.
+  refresh: () => Promise<boolean>;
+  // Counts one request made outside `refresh` against the daily budget.
+  // Returns false, counting nothing, when the budget is spent or not loaded yet.
+  spendRequest: () => boolean;
+  // Whether the stored budget has been loaded
+  isReady: boolean;
+  next?: ScheduledRefresh;
+  lastSuccessAt?: number;
+  remainingRequests: number;
+  intervalMinutes: number;
+  setIntervalMinutes: (minutes: number) => void;
+}
+
+/**
+ * Drives `refresh` on a timer while the given exchanges are trading.
+ * `refresh` resolves to whether the request succeeded; failures back off exponentially.
+ * Also refreshes once when enabled if the stored prices are older than one interval.
+ */
+export const useRefreshScheduler = (
+  refresh: () => Promise<boolean>,
+  exchanges: Exchange[],
+  enabled: boolean
+): RefreshScheduler => {
+  const [state, setState, isStateHydrated] = usePersistentState<RefreshState>(STORAGE_KEYS.REFRESH_STATE, INITIAL_REFRESH_STATE);
+  const [intervalMinutes, setIntervalMinutes, isIntervalHydrated] = usePersistentState<number>(
+    STORAGE_KEYS.REFRESH_INTERVAL,
+    config.autoRefresh.intervalMinutes
+  );
+  const isReady = enabled && isStateHydrated && isIntervalHydrated;
+
+  // The timer must call the latest closure, which sees the latest assets
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const inFlight = useRef(false);
+
+  const run = useCallback(async () => {
+    if (inFlight.current || remainingRequests(stateRef.current) === 0) return false;
+    inFlight.current = true;
+    try {
+      const success = await refreshRef.current();
+      setState(prev => recordRefreshAttempt(prev, success));
+      return success;
+    } finally {
+      inFlight.current = false;
+    }
+  }, [setState]);
+
+  const spendRequest = useCallback(() => {
+    if (!isReady || remainingRequests(stateRef.current) === 0) return false;
+    // Several requests may be counted before the next render
+    stateRef.current = recordExtraRequest(stateRef.current);
+    setState(prev => recordExtraRequest(prev));
+    return true;
+  }, [isReady, setState]);
+
+  const exchangeKey = [...new Set(exchanges)].sort().join(',');
+  const next = useMemo(
+    () => nextScheduledRefresh(state, intervalMinutes, exchangeKey ? exchangeKey.split(',') as Exchange[] : []),
+    [state, intervalMinutes, exchangeKey]
+  );
+
+  useEffect(() => {
+    if (isReady && isStale(stateRef.current, intervalMinutes)) run();
+  }, [isReady]);
+
+  useEffect(() => {
+    if (!isReady || !next) return;
+    const timer = setTimeout(run, Math.max(0, next.at - Date.now()));
+    return () => clearTimeout(timer);
+  }, [isReady, next, run]);
+
+  return {
+    refresh: run,
+    spendRequest,
+    isReady,
+    next,
+    lastSuccessAt: state.lastSuccessAt,
+    remainingRequests: remainingRequests(state),
+    intervalMinutes,
+    setIntervalMinutes,
+  };
+};
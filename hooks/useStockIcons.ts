@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { IconCache, StockIcon } from '../types';
+import { generateStockIcon } from '../services/geminiService';
+import { STORAGE_KEYS } from '../services/storageService';
+import { normalizeTicker } from '../services/ledgerService';
+import { downscaleIcon, iconFromFile, iconUrlOf } from '../services/iconService';
+import { usePersistentState } from './usePersistentState';
+
+export interface StockIcons {
+  // Cached image, or the ticker's monogram
+  urlOf: (ticker: string) => string;
+  isGenerating: (ticker: string) => boolean;
+  // Replaces the cached icon, uploaded ones included; resolves to whether a new image was made
+  regenerate: (ticker: string) => Promise<boolean>;
+  // Resolves to an error message when the file can't be used
+  upload: (ticker: string, file: File) => Promise<string | null>;
+}
+
+/**
+ * Icons of the given tickers. Tickers without a cached icon get one generated
+ * in the background; until then, and when generation fails, the monogram is shown.
+ */
+export const useStockIcons = (tickers: string[], enabled: boolean): StockIcons => {
+  const [icons, setIcons, isHydrated] = usePersistentState<IconCache>(STORAGE_KEYS.ICONS, {});
+  const [generating, setGenerating] = useState<string[]>([]);
+  const inFlight = useRef(new Set<string>());
+  const iconsRef = useRef(icons);
+  iconsRef.current = icons;
+
+  const setIcon = useCallback((ticker: string, icon: StockIcon) => setIcons(prev => ({ ...prev, [ticker]: icon })), [setIcons]);
+
+  // Without `keepOnFailure`, a failed attempt is stored as the monogram so it isn't retried on every load
+  const generate = useCallback(async (ticker: string, keepOnFailure: boolean) => {
+    // A background pass may reach a ticker that an earlier pass already finished
+    if (inFlight.current.has(ticker) || (!keepOnFailure && iconsRef.current[ticker])) return false;
+    inFlight.current.add(ticker);
+    setGenerating(prev => [...prev, ticker]);
+    const image = await generateStockIcon(ticker);
+    const dataUrl = image && await downscaleIcon(image).catch(() => undefined);
+    if (dataUrl) setIcon(ticker, { source: 'generated', dataUrl, updatedAt: Date.now() });
+    else if (!keepOnFailure) setIcon(ticker, { source: 'monogram', updatedAt: Date.now() });
+    inFlight.current.delete(ticker);
+    setGenerating(prev => prev.filter(t => t !== ticker));
+    return !!dataUrl;
+  }, [setIcon]);
+
+  // Icons carried over from older versions are stored at full size until downscaled here,
+  // one per run; storing it changes the key and starts the next
+  const fullSizeKey = Object.keys(icons).filter(t => icons[t].fullSize).sort().join(',');
+  useEffect(() => {
+    if (!isHydrated || !fullSizeKey) return;
+    const [ticker] = fullSizeKey.split(',');
+    const icon = iconsRef.current[ticker];
+    // Keep the full-size image if it can't be downscaled
+    (icon.dataUrl ? downscaleIcon(icon.dataUrl).catch(() => icon.dataUrl) : Promise.resolve(undefined)).then(dataUrl =>
+      // An icon replaced in the meantime is already downscaled
+      setIcons(prev => prev[ticker] === icon ? { ...prev, [ticker]: { source: icon.source, dataUrl, updatedAt: icon.updatedAt } } : prev)
+    );
+  }, [isHydrated, fullSizeKey]);
+
+  const tickerKey = [...new Set(tickers.map(normalizeTicker))].sort().join(',');
+  useEffect(() => {
+    if (!enabled || !isHydrated || !tickerKey) return;
+    // One at a time, so a large import doesn't fire a burst of image requests
+    const missing = tickerKey.split(',').filter(t => !icons[t]);
+    (async () => {
+      for (const ticker of missing) await generate(ticker, false);
+    })();
+  }, [enabled, isHydrated, tickerKey]);
+
+  return {
+    urlOf: ticker => iconUrlOf(icons, ticker),
+    isGenerating: ticker => generating.includes(normalizeTicker(ticker)),
+    regenerate: ticker => generate(normalizeTicker(ticker), true),
+    upload: async (ticker, file) => {
+      try {
+        setIcon(normalizeTicker(ticker), await iconFromFile(file));
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+/**
+ * Serves the api/ endpoints from the Vite dev server, standing in for Vercel locally.
+ * Modules are loaded through Vite, so edits to api/ and server/ apply without a restart.
+ * With GEMINI_STUB=1 the endpoints answer from server/stub.ts and need no API key.
+ */
+
+const API_PREFIX = '/api/';
+
+const readBody = async (req: IncomingMessage): Promise<Uint8Array<ArrayBuffer>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new Uint8Array(Buffer.concat(chunks));
+};
+
+const toRequest = async (req: IncomingMessage): Promise<Request> => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(name, value);
+    else if (Array.isArray(value)) value.forEach(v => headers.append(name, v));
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(`http://${req.headers.host ?? 'localhost'}${req.url}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? await readBody(req) : undefined,
+  });
+};
+
+const sendResponse = async (response: Response, res: ServerResponse) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  }
+  res.end();
+};
+
+// `env` fills in server-only variables from .env files without exposing them to the client bundle
+export const apiDevServer = (env: Record<string, string>): Plugin => ({
+  name: 'api-dev-server',
+  configureServer(server) {
+    for (const key of ['GEMINI_API_KEY', 'API_KEY', 'GEMINI_STUB']) {
+      if (env[key] && !process.env[key]) process.env[key] = env[key];
+    }
+
+    server.middlewares.use(async (req, res, next) => {
+      const name = req.url?.startsWith(API_PREFIX) ? req.url.slice(API_PREFIX.length).split(/[?#]/)[0] : undefined;
+      const file = name && /^[a-z-]+$/.test(name) ? path.join(server.config.root, 'api', `${name}.ts`) : undefined;
+      if (!file || !fs.existsSync(file)) return next();
+
+      try {
+        const handlers = await server.ssrLoadModule(file);
+        const handler = handlers[req.method ?? 'GET'];
+        if (typeof handler !== 'function') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+        await sendResponse(await handler(await toRequest(req)), res);
+      } catch (error) {
+        next(error);
+      }
+    });
+  },
+});
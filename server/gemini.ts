@@ -0,0 +1,494 @@
+import { FunctionDeclaration, GoogleGenAI, Modality, Type } from "@google/genai";
+import { NewsCitation, NewsItem, ParsedTrade, ParsedTradeField, PricePoint, Instrument, Currency, MarketPriceUpdate, PortfolioChatRequest, TransactionType, AISource, Exchange, ChatStreamEvent, ChatToolName } from "../types";
+import { FOREIGN_CURRENCIES, fxPairSymbol } from "../services/currencyService";
+import { toDateKey } from "../utils/date";
+
+/**
+ * Gemini calls, run on the server so the API key never reaches the browser.
+ * Served to the app by the endpoints in api/; errors propagate to the endpoint.
+ */
+
+let client: GoogleGenAI | undefined;
+
+const getClient = () => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) throw new Error("GEMINI_API_KEY is not set");
+  client ??= new GoogleGenAI({ apiKey });
+  return client;
+};
+
+// e.g. "7203 (TSE, JPY)" so the model looks up the right listing and currency
+const describeInstrument = (instrument: Instrument) =>
+  `${instrument.ticker} (${[instrument.exchange, instrument.currency].filter(Boolean).join(", ")})`;
+
+/**
+ * 1. Nano Banana: Generate Icon for Stock
+ * Uses 'gemini-2.5-flash-image'
+ */
+export const generateStockIcon = async (ticker: string): Promise<string | undefined> => {
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: {
+      parts: [
+        {
+          text: `Create a high-quality, modern, minimalist 3D circular app icon for the stock ticker "${ticker}".
+                 The design should represent the company's industry or branding colors.
+                 Keep it clean and distinguishable. White background.`
+        },
+      ],
+    },
+    config: {
+      responseModalities: [Modality.IMAGE],
+    },
+  });
+
+  // The image isn't always the first part; text may come before it
+  const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  return image ? `data:${image.mimeType ?? 'image/png'};base64,${image.data}` : undefined;
+};
+
+/**
+ * 2. Vision: Analyze Trade Receipts
+ * Uses 'gemini-3-pro-preview' for complex document reasoning.
+ * Accepts a screenshot or a PDF statement and returns every trade found in it.
+ */
+const PARSED_TRADE_FIELDS: ParsedTradeField[] = ['ticker', 'companyName', 'side', 'tradeDate', 'quantity', 'price', 'fees', 'currency'];
+
+// Model output is parsed JSON, so every field is checked before use
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toParsedTrade = (raw: unknown): ParsedTrade | null => {
+  if (!isRecord(raw) || typeof raw.ticker !== 'string' || typeof raw.quantity !== 'number' || typeof raw.price !== 'number') return null;
+  const confidence: ParsedTrade['confidence'] = {};
+  const rawConfidence = isRecord(raw.confidence) ? raw.confidence : {};
+  for (const field of PARSED_TRADE_FIELDS) {
+    const value = rawConfidence[field];
+    if (typeof value === 'number') confidence[field] = Math.min(1, Math.max(0, value));
+  }
+  const box = Array.isArray(raw.box) && raw.box.length === 4 && raw.box.every((n: unknown) => typeof n === 'number')
+    ? raw.box.map((n: number) => Math.min(1000, Math.max(0, n))) as ParsedTrade['box']
+    : undefined;
+  return {
+    ticker: raw.ticker.trim().toUpperCase(),
+    companyName: typeof raw.companyName === 'string' && raw.companyName ? raw.companyName : undefined,
+    side: raw.side === TransactionType.SELL ? TransactionType.SELL : raw.side === TransactionType.BUY ? TransactionType.BUY : undefined,
+    tradeDate: typeof raw.tradeDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.tradeDate) ? raw.tradeDate : undefined,
+    quantity: raw.quantity,
+    price: raw.price,
+    fees: typeof raw.fees === 'number' ? raw.fees : undefined,
+    currency: Object.values(Currency).find(currency => currency === raw.currency),
+    confidence,
+    box,
+    page: typeof raw.page === 'number' ? raw.page : undefined,
+  };
+};
+
+export const parseTradeDocument = async (base64Data: string, mimeType: string): Promise<ParsedTrade[]> => {
+  const confidenceProperties = Object.fromEntries(PARSED_TRADE_FIELDS.map(field => [field, { type: Type.NUMBER }]));
+  const response = await getClient().models.generateContent({
+    model: 'gemini-3-pro-preview',
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            data: base64Data,
+            mimeType: mimeType,
+          },
+        },
+        {
+          text: `This is a stock trade confirmation, a screenshot of a broker's trade history, or a PDF statement.
+                 It may contain several trades. Return one entry per executed trade.
+                 For each trade extract the Ticker Symbol or security code (e.g., AAPL, TSLA, 7203), the company name if visible,
+                 the side ("buy" or "sell"), the trade (execution) date as YYYY-MM-DD, the Quantity of shares, the Price per share,
+                 the total fees and commissions in the same currency as the price, and the currency of the price as an ISO code (USD, JPY or EUR).
+                 For every field, give "confidence" from 0 to 1 for how sure you are that it was read correctly; use a low value when guessing.
+                 Give "box" as [ymin, xmin, ymax, xmax] scaled to 0-1000 around the part of the page that shows the trade,
+                 and "page" as the 1-based page number for PDFs.
+                 Omit fields that are not shown. Return JSON only.`
+        },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          trades: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                ticker: { type: Type.STRING },
+                companyName: { type: Type.STRING },
+                side: { type: Type.STRING, enum: [TransactionType.BUY, TransactionType.SELL] },
+                tradeDate: { type: Type.STRING },
+                quantity: { type: Type.NUMBER },
+                price: { type: Type.NUMBER },
+                fees: { type: Type.NUMBER },
+                currency: { type: Type.STRING, enum: Object.values(Currency) },
+                confidence: { type: Type.OBJECT, properties: confidenceProperties },
+                box: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                page: { type: Type.INTEGER },
+              },
+              required: ["ticker", "quantity", "price", "confidence"]
+            }
+          }
+        },
+        required: ["trades"]
+      }
+    }
+  });
+
+  if (!response.text) return [];
+  const parsed = JSON.parse(response.text);
+  return (Array.isArray(parsed?.trades) ? parsed.trades : [])
+    .map(toParsedTrade)
+    .filter((trade: ParsedTrade | null): trade is ParsedTrade => trade !== null);
+};
+
+/**
+ * 3. Search Grounding: Get News
+ * Uses 'gemini-2.5-flash' with googleSearch tool
+ * Search grounding can't be combined with a response schema, so stories come
+ * back as one JSON object per line, and each line is cited with the search
+ * results whose grounding supports fall inside it.
+ */
+const MAX_NEWS_PER_TICKER = 3;
+const MAX_NEWS = 12;
+const MAX_FALLBACK_CITATIONS = 3;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+interface NewsLine {
+  text: string;
+  start: number; // Byte offsets into the whole response text, end exclusive
+  end: number;
+}
+
+// Lines of the response with their byte ranges; grounding segments are measured in UTF-8 bytes
+const splitLines = (text: string): NewsLine[] => {
+  const encoder = new TextEncoder();
+  let offset = 0;
+  return text.split('\n').map(line => {
+    const start = offset;
+    offset += encoder.encode(line).length + 1;
+    return { text: line, start, end: offset - 1 };
+  });
+};
+
+const toNewsItem = (line: string, tickers: Set<string>): Omit<NewsItem, 'citations'> | null => {
+  const json = line.trim().replace(/^[-*]\s*/, '').replace(/,$/, '');
+  if (!json.startsWith('{')) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || typeof raw.headline !== 'string' || !raw.headline.trim()) return null;
+  const ticker = typeof raw.ticker === 'string' ? raw.ticker.trim().toUpperCase() : undefined;
+  return {
+    ticker: ticker && tickers.has(ticker) ? ticker : undefined,
+    headline: raw.headline.trim(),
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+    sentiment: typeof raw.sentiment === 'number' && isFinite(raw.sentiment) ? Math.max(-1, Math.min(1, raw.sentiment)) : undefined,
+    publishedAt: typeof raw.published === 'string' && DATE_KEY.test(raw.published) ? raw.published : undefined,
+  };
+};
+
+export const fetchStockNews = async (tickers: string[], days: number = 7): Promise<NewsItem[]> => {
+  if (tickers.length === 0) return [];
+
+  const tickerString = tickers.join(", ");
+  const since = toDateKey(Date.now() - days * 24 * 60 * 60 * 1000);
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: `Find the latest significant financial news for these stocks: ${tickerString}.
+               Only include stories published on or after ${since}.
+               Report at most ${MAX_NEWS_PER_TICKER} distinct stories per stock and ${MAX_NEWS} in total, newest first.
+               Output one JSON object per line and nothing else, with no markdown, numbering or code fences:
+               {"ticker": "<one of the tickers above>", "headline": "...", "summary": "...", "sentiment": <-1.0 to 1.0>, "published": "YYYY-MM-DD"}
+               sentiment is how positive the story is for that stock's shareholders (-1 very negative, 0 neutral, 1 very positive).
+               published is the article's publication date; leave it out when unknown.
+               Write headline and summary in Japanese.`,
+    config: {
+      tools: [{ googleSearch: {} }],
+    },
+  });
+
+  const candidate = response.candidates?.[0];
+  const metadata = candidate?.groundingMetadata;
+  const chunks = metadata?.groundingChunks ?? [];
+  const citationOf = (index: number): NewsCitation | undefined => {
+    const web = chunks[index]?.web;
+    return web?.uri ? { url: web.uri, title: web.title } : undefined;
+  };
+
+  // Segments are offsets into their own part; shift them onto the joined text
+  const encoder = new TextEncoder();
+  const textParts = (candidate?.content?.parts ?? []).map(part => part.thought ? '' : part.text ?? '');
+  const partOffsets = textParts.reduce<number[]>((offsets, part, i) => [...offsets, offsets[i] + encoder.encode(part).length], [0]);
+  const supports = (metadata?.groundingSupports ?? []).map(support => ({
+    start: partOffsets[support.segment?.partIndex ?? 0] + (support.segment?.startIndex ?? 0),
+    end: partOffsets[support.segment?.partIndex ?? 0] + (support.segment?.endIndex ?? 0),
+    chunks: support.groundingChunkIndices ?? [],
+  }));
+
+  const requested = new Set(tickers.map(t => t.trim().toUpperCase()));
+  const text = textParts.join('');
+  const newsItems: NewsItem[] = [];
+  for (const line of splitLines(text)) {
+    const item = toNewsItem(line.text, requested);
+    if (!item) continue;
+    const citations = new Map<string, NewsCitation>();
+    for (const support of supports) {
+      if (support.start >= line.end || support.end <= line.start) continue;
+      for (const index of support.chunks) {
+        const citation = citationOf(index);
+        if (citation && !citations.has(citation.url)) citations.set(citation.url, citation);
+      }
+    }
+    const cited = [...citations.values()];
+    newsItems.push({ ...item, citations: cited, url: cited[0]?.url, source: cited[0]?.title ?? "Google Search" });
+  }
+
+  // Fallback if parsing fails or returns nothing
+  if (newsItems.length === 0 && text.trim().length > 0) {
+    const citations = chunks.map((_, i) => citationOf(i)).filter((c): c is NewsCitation => !!c).slice(0, MAX_FALLBACK_CITATIONS);
+    return [{
+      headline: "市場ニュース",
+      summary: text.trim(),
+      citations,
+      url: citations[0]?.url,
+      source: citations[0]?.title ?? "Google Search",
+    }];
+  }
+
+  return newsItems.slice(0, MAX_NEWS);
+};
+
+/**
+ * 4. Search Grounding: Update Market Prices
+ * Uses 'gemini-2.5-flash' with googleSearch tool to get real-time-ish data
+ */
+export const updateMarketPrices = async (instruments: Instrument[]): Promise<MarketPriceUpdate | null> => {
+  let prompt = "";
+  const fxPairs = FOREIGN_CURRENCIES.map(c => `${c} to JPY`).join(", ");
+  // Define the expected JSON structure instructions
+  const jsonInstruction = `
+    Return the result strictly as a valid JSON object without markdown code blocks (no \`\`\`json).
+    The JSON structure must be:
+    {
+      "prices": { "TICKER_SYMBOL": PRICE_NUMBER, ... },
+      "fx": { ${FOREIGN_CURRENCIES.map(c => `"${fxPairSymbol(c)}": EXCHANGE_RATE_NUMBER`).join(", ")} }
+    }
+    Each price must be in the listing's own trading currency given in parentheses.
+    If no stock prices are requested or found, return an empty object for "prices".
+  `;
+
+  if (instruments.length > 0) {
+      const listingString = instruments.map(describeInstrument).join(", ");
+      prompt = `
+        Find the latest market price (real-time or delayed by 15min) for the following stock listings: ${listingString}.
+        Also find the current real-time exchange rates for ${fxPairs}.
+        ${jsonInstruction}
+      `;
+  } else {
+      prompt = `
+        Find the current real-time exchange rates for ${fxPairs}.
+        ${jsonInstruction}
+      `;
+  }
+
+  // NOTE: Do NOT use responseSchema or responseMimeType when using googleSearch tool.
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      tools: [{ googleSearch: {} }],
+    },
+  });
+
+  const raw = response.text || "";
+
+  // Clean up potential markdown formatting
+  const text = raw.replace(/```json/g, '').replace(/```/g, '').trim();
+
+  if (text) {
+    try {
+      const parsed = JSON.parse(text);
+      const fxRates: MarketPriceUpdate['fxRates'] = {};
+      for (const currency of FOREIGN_CURRENCIES) {
+        const rate = parsed.fx?.[fxPairSymbol(currency)];
+        if (typeof rate === 'number') fxRates[currency] = rate;
+      }
+      // Prices are passed on unchanged, so the client's validation can reject and report bad values
+      const prices = isRecord(parsed.prices) ? parsed.prices : {};
+      // Keep the unparsed model output so suspicious prices can be reviewed
+      return { prices, fxRates, raw };
+    } catch (e) {
+      console.error("Failed to parse JSON from market update:", text);
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * 5. Search Grounding: Price History
+ * Uses 'gemini-2.5-flash' with googleSearch tool to look up daily closing prices
+ */
+export const fetchPriceHistory = async (instrument: Instrument, from: string, to: string): Promise<PricePoint[]> => {
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: `Find the daily closing prices of ${describeInstrument(instrument)} from ${from} to ${to} (inclusive), in its trading currency.
+               Return the result strictly as a valid JSON array without markdown code blocks (no \`\`\`json).
+               The JSON structure must be: [{ "date": "YYYY-MM-DD", "price": CLOSE_PRICE_NUMBER }, ...]
+               Include trading days only, oldest first. Return [] if no data is found.`,
+    config: {
+      tools: [{ googleSearch: {} }],
+    },
+  });
+
+  const text = (response.text || "").replace(/```json/g, '').replace(/```/g, '').trim();
+  if (!text) return [];
+
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter((p): p is PricePoint =>
+    typeof p?.date === 'string' && typeof p?.price === 'number' && p.date >= from && p.date <= to
+  );
+};
+
+/**
+ * 6. Chat Analysis with tools
+ * The app runs the tools; changes to holdings are applied only after the user confirms them.
+ */
+const enumOf = (values: string[]) => ({ type: Type.STRING, enum: values });
+
+const CHAT_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'add_holding',
+    description: 'Record a purchase. Adds the ticker as a new holding if it is not held yet.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ticker: { type: Type.STRING, description: 'Ticker symbol or security code, e.g. AAPL or 7203' },
+        quantity: { type: Type.NUMBER },
+        price: { type: Type.NUMBER, description: 'Price per share in the listing currency' },
+        date: { type: Type.STRING, description: 'Trade date, YYYY-MM-DD. Defaults to today' },
+        fees: { type: Type.NUMBER },
+        company_name: { type: Type.STRING },
+        currency: enumOf(Object.values(Currency)),
+        exchange: enumOf(Object.values(Exchange)),
+        source: { ...enumOf(Object.values(AISource)), description: 'Which AI recommended the stock' },
+      },
+      required: ['ticker', 'quantity', 'price'],
+    },
+  },
+  {
+    name: 'update_holding',
+    description: 'Correct details of a held stock. quantity, price and date correct its most recent purchase.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ticker: { type: Type.STRING },
+        company_name: { type: Type.STRING },
+        source: enumOf(Object.values(AISource)),
+        exchange: enumOf(Object.values(Exchange)),
+        currency: enumOf(Object.values(Currency)),
+        sector: { type: Type.STRING, description: 'Industry sector, e.g. Technology' },
+        country: { type: Type.STRING, description: 'Country of the issuer, in Japanese (e.g. 米国, ブラジル)' },
+        quantity: { type: Type.NUMBER },
+        price: { type: Type.NUMBER },
+        date: { type: Type.STRING, description: 'YYYY-MM-DD' },
+      },
+      required: ['ticker'],
+    },
+  },
+  {
+    name: 'sell_holding',
+    description: 'Record a sale of a held stock.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ticker: { type: Type.STRING },
+        quantity: { type: Type.NUMBER },
+        sell_all: { type: Type.BOOLEAN, description: 'Sell the whole position instead of quantity' },
+        price: { type: Type.NUMBER, description: 'Price per share in the holding currency' },
+        date: { type: Type.STRING, description: 'Trade date, YYYY-MM-DD. Defaults to today' },
+        fees: { type: Type.NUMBER },
+      },
+      required: ['ticker', 'price'],
+    },
+  },
+  {
+    name: 'refresh_prices',
+    description: 'Fetch the latest market prices and FX rates for all holdings. Returns the updated prices.',
+  },
+  {
+    name: 'fetch_news',
+    description: 'Fetch the latest news for one ticker.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { ticker: { type: Type.STRING } },
+      required: ['ticker'],
+    },
+  },
+  {
+    name: 'compute_metrics',
+    description: 'Compute portfolio totals, gains, per-holding weights, allocation by holding / sector / country / AI source with concentration warnings, and risk metrics (annualized volatility, max drawdown, beta vs. the S&P 500, Sharpe ratio) in the base currency.',
+  },
+];
+
+export const streamPortfolioChat = async function* ({
+  history,
+  message,
+  portfolioContext,
+  fxRates,
+  baseCurrency,
+  portfolioName
+}: PortfolioChatRequest): AsyncGenerator<ChatStreamEvent> {
+  const rateLines = FOREIGN_CURRENCIES.map(c => `1 ${c} = ${fxRates[c]}円`).join("、");
+
+  const chat = getClient().chats.create({
+    model: 'gemini-2.5-flash',
+    config: {
+      systemInstruction: `あなたはシニア金融アナリストのアシスタントです。
+      ユーザーは米国株・日本株・欧州株などを含む複数通貨のポートフォリオを持っています。
+      ユーザーは口座 (NISA・課税口座・ペーパートレードなど) を分けて管理しており、現在「${portfolioName}」を表示しています。
+      この口座のポートフォリオのJSONデータはこちらです: ${portfolioContext}.
+      "account" がある場合は、各銘柄を保有している口座名です。
+      各銘柄の価格は "currency" に示された通貨建てで、"price_updated_at" 時点の値です。
+
+      現在の為替レートは ${rateLines} です。
+      資産価値や利益を合計する際は、このレートで基準通貨 (${baseCurrency}) に換算し、必要に応じて日本円換算の数値も提示してください。
+
+      彼らの保有資産について質問に答えたり、利益を計算したり、分析を提供してください。
+      最新の株価が必要な場合は refresh_prices、特定銘柄のニュースは fetch_news、合計・比率・配分・リスク指標は compute_metrics を使ってください。
+      買付・売却・銘柄情報の修正を頼まれた場合は add_holding / sell_holding / update_holding を呼び出してください。
+      これらはユーザーが確認画面で承認するまで反映されないため、不明な数量や価格は推測せず、先にユーザーに確認してください。
+      削除はツールでは行えません。チャットの /delete コマンドを案内してください。
+
+      回答は常に日本語で行ってください。簡潔かつ専門的に振る舞ってください。`,
+      tools: [{ functionDeclarations: CHAT_TOOLS }],
+    },
+    history: history,
+  });
+
+  const result = await chat.sendMessageStream({ message });
+
+  for await (const chunk of result) {
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+      if (part.functionCall?.name) {
+        yield {
+          type: 'tool_call',
+          call: { id: part.functionCall.id, name: part.functionCall.name as ChatToolName, args: part.functionCall.args ?? {} },
+        };
+      } else if (part.text && !part.thought) {
+        yield { type: 'text', text: part.text };
+      }
+    }
+  }
+};
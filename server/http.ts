@@ -0,0 +1,75 @@
+/**
+ * Helpers for the api/ endpoints, written against the Web Request/Response API
+ * so the same handlers run on Vercel and in the local dev server.
+ */
+
+export const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+export const errorResponse = (status: number, message: string) => json({ error: message }, status);
+
+// Thrown from a handler to reject the request body
+export const badRequest = (message: string) => errorResponse(400, message);
+
+const parseBody = async <T>(request: Request): Promise<T> => {
+  try {
+    return await request.json();
+  } catch {
+    throw badRequest('Request body must be JSON');
+  }
+};
+
+const toErrorResponse = (error: unknown) => {
+  if (error instanceof Response) return error;
+  console.error('API error:', error);
+  return errorResponse(500, error instanceof Error ? error.message : 'Internal error');
+};
+
+/**
+ * POST endpoint that reads a JSON body and responds with the handler's result as JSON.
+ */
+export const jsonEndpoint = <Body, Result>(handle: (body: Body) => Promise<Result>) =>
+  async (request: Request): Promise<Response> => {
+    try {
+      return json(await handle(await parseBody<Body>(request)));
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+
+/**
+ * POST endpoint that streams the handler's events as newline-delimited JSON.
+ * Errors before the first event become a JSON error response; later ones end the stream.
+ */
+export const eventStreamEndpoint = <Body, Event>(handle: (body: Body) => AsyncGenerator<Event>) =>
+  async (request: Request): Promise<Response> => {
+    try {
+      const events = handle(await parseBody<Body>(request));
+      const first = await events.next();
+      const encoder = new TextEncoder();
+      const encode = (event: Event) => encoder.encode(JSON.stringify(event) + '\n');
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (first.done) controller.close();
+          else controller.enqueue(encode(first.value));
+        },
+        async pull(controller) {
+          try {
+            const { value, done } = await events.next();
+            if (done) controller.close();
+            else controller.enqueue(encode(value));
+          } catch (error) {
+            controller.error(error);
+          }
+        },
+      });
+      return new Response(stream, {
+        headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' },
+      });
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
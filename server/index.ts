@@ -0,0 +1,5 @@
+import * as gemini from './gemini';
+import * as stub from './stub';
+
+// GEMINI_STUB=1 serves every endpoint from the local stand-in instead of Gemini
+export const geminiApi: typeof gemini = process.env.GEMINI_STUB === '1' ? stub : gemini;
@@ -0,0 +1,84 @@
+import { ChatStreamEvent, Currency, Instrument, NewsItem, ParsedTrade, PortfolioChatRequest, PricePoint, MarketPriceUpdate, TransactionType } from "../types";
+import { createMockProvider, mockFxRatesOn, mockPriceOn } from "../services/marketData/mockProvider";
+import { toDateKey } from "../utils/date";
+
+/**
+ * Stand-in for server/gemini.ts with the same exports.
+ * Answers deterministically without an API key or network, for development and tests.
+ */
+
+export const generateStockIcon = async (ticker: string): Promise<string | undefined> => undefined;
+
+export const parseTradeDocument = async (base64Data: string, mimeType: string): Promise<ParsedTrade[]> => {
+  const today = toDateKey();
+  return [
+    {
+      ticker: 'AAPL',
+      companyName: 'Apple Inc.',
+      side: TransactionType.BUY,
+      tradeDate: today,
+      quantity: 10,
+      price: mockPriceOn('AAPL', today),
+      fees: 0.5,
+      currency: Currency.USD,
+      confidence: { ticker: 0.98, companyName: 0.95, side: 0.9, tradeDate: 0.85, quantity: 0.97, price: 0.93, fees: 0.4, currency: 0.9 },
+      box: [120, 40, 260, 960],
+      page: mimeType === 'application/pdf' ? 1 : undefined,
+    },
+    {
+      ticker: 'MSFT',
+      companyName: 'Microsoft Corp.',
+      side: TransactionType.BUY,
+      tradeDate: today,
+      quantity: 3,
+      price: mockPriceOn('MSFT', today),
+      currency: Currency.USD,
+      confidence: { ticker: 0.6, companyName: 0.9, side: 0.9, tradeDate: 0.5, quantity: 0.95, price: 0.9, currency: 0.9 },
+      box: [300, 40, 440, 960],
+      page: mimeType === 'application/pdf' ? 1 : undefined,
+    },
+  ];
+};
+
+export const fetchStockNews = async (tickers: string[], _days?: number): Promise<NewsItem[]> =>
+  tickers.map((ticker, i) => ({
+    ticker: ticker.toUpperCase(),
+    headline: `${ticker} の最新ニュース (スタブ)`,
+    summary: `${ticker} に関するテスト用のニュースです。`,
+    source: 'Stub',
+    citations: [],
+    // Cycles through positive, neutral and negative so every badge can be seen
+    sentiment: [0.6, 0, -0.6][i % 3],
+    publishedAt: toDateKey(),
+  }));
+
+export const updateMarketPrices = async (instruments: Instrument[]): Promise<MarketPriceUpdate | null> => {
+  const today = toDateKey();
+  const prices = Object.fromEntries(instruments.map(({ ticker }) => [ticker.toUpperCase(), mockPriceOn(ticker, today)]));
+  const { [Currency.JPY]: _, ...fxRates } = mockFxRatesOn(today);
+  return { prices, fxRates, raw: JSON.stringify({ prices, fxRates }) };
+};
+
+export const fetchPriceHistory = (instrument: Instrument, from: string, to: string): Promise<PricePoint[]> =>
+  createMockProvider().getHistory(instrument, from, to);
+
+// Messages mentioning 指標 or 買 answer with a tool call, so the confirmation flow can be tried offline
+export const streamPortfolioChat = async function* ({ message }: PortfolioChatRequest): AsyncGenerator<ChatStreamEvent> {
+  if (typeof message !== 'string') {
+    const names = message.flatMap(part => 'functionResponse' in part ? [part.functionResponse.name] : []);
+    yield { type: 'text', text: `(スタブ応答) ${names.join(', ')} の結果を受け取りました。` };
+    return;
+  }
+  if (message.includes('指標')) {
+    yield { type: 'tool_call', call: { name: 'compute_metrics', args: {} } };
+    return;
+  }
+  if (message.includes('買')) {
+    yield { type: 'text', text: 'AAPL の買付を記録します。' };
+    yield { type: 'tool_call', call: { name: 'add_holding', args: { ticker: 'AAPL', quantity: 1, price: mockPriceOn('AAPL', toDateKey()) } } };
+    return;
+  }
+  for (const text of ['(スタブ応答) ', `「${message}」`, ' を受け取りました。']) {
+    yield { type: 'text', text };
+  }
+};
@@ -0,0 +1,142 @@
+import { AlertEvent, AlertRule, AlertRuleType, PortfolioHistoryItem, PriceHistory, StockAsset } from '../types';
+import { normalizeTicker } from './ledgerService';
+import { createId } from '../utils/id';
+import { formatMoney } from '../utils/format';
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  [AlertRuleType.PRICE_ABOVE]: '価格が上回る',
+  [AlertRuleType.PRICE_BELOW]: '価格が下回る',
+  [AlertRuleType.PERCENT_MOVE]: '前回更新からの変動率',
+  [AlertRuleType.DRAWDOWN]: '高値からの下落率',
+};
+
+// Rules with a percentage threshold (the rest are prices)
+export const isPercentRule = (type: AlertRuleType) =>
+  type === AlertRuleType.PERCENT_MOVE || type === AlertRuleType.DRAWDOWN;
+
+export interface AlertContext {
+  previousAssets: StockAsset[];
+  nextAssets: StockAsset[];
+  portfolioHistory: PortfolioHistoryItem[]; // Including the snapshot just recorded
+  priceHistory: PriceHistory; // Including the prices just recorded
+}
+
+/**
+ * Target and stop-loss of each AI pick act as implicit price rules.
+ */
+export const pickAlertRules = (assets: StockAsset[]): AlertRule[] =>
+  assets.flatMap(asset => {
+    const rules: AlertRule[] = [];
+    const ticker = normalizeTicker(asset.ticker);
+    if (asset.pick?.targetPrice !== undefined) {
+      rules.push({ id: `pick-target-${ticker}`, type: AlertRuleType.PRICE_ABOVE, ticker, threshold: asset.pick.targetPrice, enabled: true, createdAt: 0 });
+    }
+    if (asset.pick?.stopLoss !== undefined) {
+      rules.push({ id: `pick-stop-${ticker}`, type: AlertRuleType.PRICE_BELOW, ticker, threshold: asset.pick.stopLoss, enabled: true, createdAt: 0 });
+    }
+    return rules;
+  });
+
+const drawdownPercent = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const peak = Math.max(...values);
+  const last = values[values.length - 1];
+  return peak > 0 ? (peak - last) / peak * 100 : 0;
+};
+
+/**
+ * Evaluates one rule against the change from the previous to the next market data.
+ * Thresholds fire when they are crossed, so a rule doesn't repeat while the condition holds.
+ */
+const evaluateRule = (rule: AlertRule, ctx: AlertContext): Omit<AlertEvent, 'id' | 'triggeredAt' | 'read'>[] => {
+  const findAsset = (assets: StockAsset[], ticker: string) =>
+    assets.find(a => normalizeTicker(a.ticker) === normalizeTicker(ticker));
+  const targets = rule.ticker
+    ? ctx.nextAssets.filter(a => normalizeTicker(a.ticker) === normalizeTicker(rule.ticker!))
+    : ctx.nextAssets;
+  const isPick = rule.id.startsWith('pick-');
+
+  switch (rule.type) {
+    case AlertRuleType.PRICE_ABOVE:
+    case AlertRuleType.PRICE_BELOW: {
+      const above = rule.type === AlertRuleType.PRICE_ABOVE;
+      return targets.flatMap(next => {
+        const prev = findAsset(ctx.previousAssets, next.ticker);
+        if (!prev || prev.currentPrice === next.currentPrice) return [];
+        const crossed = above
+          ? prev.currentPrice < rule.threshold && next.currentPrice >= rule.threshold
+          : prev.currentPrice > rule.threshold && next.currentPrice <= rule.threshold;
+        if (!crossed) return [];
+        const label = isPick ? (above ? '目標株価に到達' : '損切りラインに到達') : (above ? '価格上昇アラート' : '価格下落アラート');
+        return [{
+          ruleId: rule.id,
+          ticker: next.ticker,
+          title: `${next.ticker}: ${label}`,
+          message: `${formatMoney(next.currentPrice, next.currency)} (基準 ${formatMoney(rule.threshold, next.currency)})`,
+        }];
+      });
+    }
+    case AlertRuleType.PERCENT_MOVE:
+      return targets.flatMap(next => {
+        const prev = findAsset(ctx.previousAssets, next.ticker);
+        if (!prev || prev.currentPrice <= 0 || prev.currentPrice === next.currentPrice) return [];
+        const move = (next.currentPrice - prev.currentPrice) / prev.currentPrice * 100;
+        if (Math.abs(move) < rule.threshold) return [];
+        return [{
+          ruleId: rule.id,
+          ticker: next.ticker,
+          title: `${next.ticker}: ${move >= 0 ? '+' : ''}${move.toFixed(1)}% の変動`,
+          message: `${formatMoney(prev.currentPrice, next.currency)} → ${formatMoney(next.currentPrice, next.currency)}`,
+        }];
+      });
+    case AlertRuleType.DRAWDOWN: {
+      if (rule.ticker) {
+        const points = (ctx.priceHistory[normalizeTicker(rule.ticker)] ?? []).map(p => p.price);
+        const current = drawdownPercent(points);
+        const previous = drawdownPercent(points.slice(0, -1));
+        if (previous >= rule.threshold || current < rule.threshold) return [];
+        return [{
+          ruleId: rule.id,
+          ticker: rule.ticker,
+          title: `${rule.ticker}: 高値から ${current.toFixed(1)}% 下落`,
+          message: `ドローダウンが ${rule.threshold}% を超えました`,
+        }];
+      }
+      const values = ctx.portfolioHistory.map(s => s.value);
+      const current = drawdownPercent(values);
+      const previous = drawdownPercent(values.slice(0, -1));
+      if (previous >= rule.threshold || current < rule.threshold) return [];
+      return [{
+        ruleId: rule.id,
+        title: `ポートフォリオが高値から ${current.toFixed(1)}% 下落`,
+        message: `ドローダウンが ${rule.threshold}% を超えました`,
+      }];
+    }
+  }
+};
+
+/**
+ * Runs every enabled rule (user rules and pick target/stop rules) after a market refresh.
+ * Returns the new inbox events and the rules with updated trigger timestamps.
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  ctx: AlertContext,
+  now: number = Date.now()
+): { events: AlertEvent[]; rules: AlertRule[] } => {
+  const events: AlertEvent[] = [];
+  const triggered = new Set<string>();
+
+  for (const rule of [...rules, ...pickAlertRules(ctx.nextAssets)]) {
+    if (!rule.enabled) continue;
+    for (const event of evaluateRule(rule, ctx)) {
+      events.push({ ...event, id: createId(), triggeredAt: now, read: false });
+      triggered.add(rule.id);
+    }
+  }
+
+  return {
+    events,
+    rules: rules.map(r => triggered.has(r.id) ? { ...r, lastTriggeredAt: now } : r),
+  };
+};
@@ -0,0 +1,161 @@
+import {
+  AISource,
+  Benchmark,
+  BenchmarkComparison,
+  BenchmarkId,
+  Currency,
+  Exchange,
+  FxRates,
+  Holding,
+  HistoryRange,
+  PriceHistory,
+} from '../types';
+import { convertAmount } from './currencyService';
+import { filterByRange, fxRatesOn } from './historyService';
+import { DailyValue, DailyValueSeries, picksOf, tradingDayIndex } from './performanceService';
+import { parseDateKey } from '../utils/date';
+import { betaOf } from '../utils/stats';
+
+/**
+ * Comparison of the portfolio's time-weighted return with index ETFs.
+ * Both sides are converted at the FX rate of each day, so in the JPY view
+ * the yen's moves count for the portfolio and the benchmark alike.
+ */
+
+export const BENCHMARKS: Record<BenchmarkId, Benchmark> = {
+  SP500: { id: 'SP500', label: 'S&P 500', instrument: { ticker: 'SPY', currency: Currency.USD, exchange: Exchange.NYSE } },
+  NASDAQ100: { id: 'NASDAQ100', label: 'NASDAQ-100', instrument: { ticker: 'QQQ', currency: Currency.USD, exchange: Exchange.NASDAQ } },
+  TOPIX: { id: 'TOPIX', label: 'TOPIX', instrument: { ticker: '1306', currency: Currency.JPY, exchange: Exchange.TSE } },
+};
+
+export const BENCHMARK_IDS = Object.keys(BENCHMARKS) as BenchmarkId[];
+
+export const BENCHMARK_COLORS: Record<BenchmarkId, string> = {
+  SP500: '#ef4444',
+  NASDAQ100: '#8b5cf6',
+  TOPIX: '#0891b2',
+};
+
+// Annual yields of short government bills, used for the Sharpe ratio and alpha
+export const RISK_FREE_RATES: Record<Currency, number> = {
+  [Currency.USD]: 0.04,
+  [Currency.JPY]: 0.005,
+  [Currency.EUR]: 0.025,
+};
+
+export const COMPARISON_PERIODS: HistoryRange[] = ['1M', '6M', '1Y', 'ALL'];
+
+// Beta and alpha need at least this many daily returns in the period
+const MIN_BETA_OBSERVATIONS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One trading day of the portfolio index with each benchmark's close in the base currency
+export interface BenchmarkPoint {
+  date: string;
+  portfolio: number;
+  benchmarks: Partial<Record<BenchmarkId, number>>;
+}
+
+/**
+ * Lines the benchmarks up with the portfolio's trading days. `values` are the
+ * holdings' daily values at each day's FX rates. A benchmark close is carried
+ * forward over its own market holidays, but never before its first point.
+ */
+export const alignBenchmarks = (
+  holdings: Holding[],
+  values: DailyValue[],
+  priceHistory: PriceHistory,
+  fxRates: FxRates,
+  baseCurrency: Currency
+): BenchmarkPoint[] => {
+  const ratesOn = fxRatesOn(priceHistory, fxRates);
+  const points = tradingDayIndex(values, holdings, priceHistory);
+  const cursors = BENCHMARK_IDS.map(id => ({ id, series: priceHistory[BENCHMARKS[id].instrument.ticker] ?? [], next: 0, last: undefined as number | undefined }));
+
+  return points.map(({ date, index }) => {
+    const benchmarks: BenchmarkPoint['benchmarks'] = {};
+    for (const cursor of cursors) {
+      while (cursor.next < cursor.series.length && cursor.series[cursor.next].date <= date) {
+        cursor.last = cursor.series[cursor.next].price;
+        cursor.next++;
+      }
+      if (cursor.last !== undefined) {
+        benchmarks[cursor.id] = convertAmount(cursor.last, BENCHMARKS[cursor.id].instrument.currency, baseCurrency, ratesOn(date));
+      }
+    }
+    return { date, portfolio: index, benchmarks };
+  });
+};
+
+/**
+ * Chart rows of the period, each series rebased to 100 on the first day all of them have a value.
+ */
+export const benchmarkCurves = (points: BenchmarkPoint[], ids: BenchmarkId[], range: HistoryRange) => {
+  const inRange = filterByRange(points, range).filter(p => ids.every(id => p.benchmarks[id] !== undefined));
+  if (inRange.length === 0) return [];
+  const [first] = inRange;
+  return inRange.map(p => ({
+    date: p.date,
+    portfolio: Number(((p.portfolio / first.portfolio) * 100).toFixed(2)),
+    ...Object.fromEntries(ids.map(id => [id, Number(((p.benchmarks[id]! / first.benchmarks[id]!) * 100).toFixed(2))])),
+  }));
+};
+
+/**
+ * Return, excess return, beta and Jensen's alpha against one benchmark over a period.
+ * The risk-free return of the period is compounded from the annual rate of the base currency.
+ */
+export const compareWithBenchmark = (
+  points: BenchmarkPoint[],
+  benchmark: BenchmarkId,
+  period: HistoryRange,
+  baseCurrency: Currency
+): BenchmarkComparison => {
+  const inRange = filterByRange(points, period).filter(p => p.benchmarks[benchmark] !== undefined);
+  if (inRange.length < 2) return { period, benchmark };
+
+  const first = inRange[0];
+  const last = inRange[inRange.length - 1];
+  const portfolioReturn = last.portfolio / first.portfolio - 1;
+  const benchmarkReturn = last.benchmarks[benchmark]! / first.benchmarks[benchmark]! - 1;
+
+  const returns = inRange.slice(1).map((p, i) => p.portfolio / inRange[i].portfolio - 1);
+  const benchmarkReturns = inRange.slice(1).map((p, i) => p.benchmarks[benchmark]! / inRange[i].benchmarks[benchmark]! - 1);
+  const beta = returns.length >= MIN_BETA_OBSERVATIONS ? betaOf(returns, benchmarkReturns) : undefined;
+
+  const years = (parseDateKey(last.date).getTime() - parseDateKey(first.date).getTime()) / DAY_MS / 365;
+  const riskFree = Math.pow(1 + RISK_FREE_RATES[baseCurrency], years) - 1;
+
+  return {
+    period,
+    benchmark,
+    from: first.date,
+    to: last.date,
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn: portfolioReturn - benchmarkReturn,
+    beta,
+    alpha: beta !== undefined ? portfolioReturn - (riskFree + beta * (benchmarkReturn - riskFree)) : undefined,
+  };
+};
+
+/**
+ * The same comparison for the picks of each AI source, skipping sources without picks.
+ * `sourceValues` are each source's daily values at each day's FX rates.
+ */
+export const compareSourcesWithBenchmark = (
+  holdings: Holding[],
+  sourceValues: DailyValueSeries['sources'],
+  priceHistory: PriceHistory,
+  fxRates: FxRates,
+  baseCurrency: Currency,
+  benchmark: BenchmarkId,
+  period: HistoryRange
+): (BenchmarkComparison & { source: AISource })[] =>
+  Object.values(AISource).flatMap(source => {
+    const values = sourceValues[source];
+    if (!values) return [];
+    const points = alignBenchmarks(picksOf(holdings, source), values, priceHistory, fxRates, baseCurrency);
+    return [{ source, ...compareWithBenchmark(points, benchmark, period, baseCurrency) }];
+  });
@@ -0,0 +1,185 @@
+import { AISource, Currency, Exchange, Holding, HoldingAction, HoldingEdit, TransactionType } from '../types';
+import { normalizeTicker } from './ledgerService';
+import { previewSell } from './holdingService';
+import { EXCHANGE_CURRENCIES } from './currencyService';
+import { unknownTickerWarning } from './symbolService';
+import { formatMoney } from '../utils/format';
+import { toDateKey } from '../utils/date';
+
+/**
+ * Slash commands typed into the chat that change holdings directly,
+ * going through the same HoldingAction path as the dashboard row actions.
+ */
+
+export type ChatCommandResult =
+  | { kind: 'action'; action: HoldingAction }
+  | { kind: 'help' }
+  | { kind: 'error'; message: string };
+
+export const CHAT_COMMAND_HELP = `保有銘柄を変更するコマンド:
+/sell TICKER 数量 単価 [YYYY-MM-DD] [fee=手数料]  … 売却を記録 (数量に all で全数)
+/edit TICKER name=銘柄名 source=AIソース exchange=市場 currency=通貨 sector=セクター country=国  … 銘柄情報を修正
+/edit TICKER qty=数量 price=単価 date=YYYY-MM-DD  … 直近の買付を修正
+/delete TICKER  … 銘柄と取引を削除 (ダッシュボードで元に戻せます)`;
+
+const EDIT_FIELD_LABELS: Record<Exclude<keyof HoldingEdit, 'transactions' | 'dividend'>, string> = {
+  companyName: '銘柄名',
+  source: 'AIソース',
+  exchange: '市場',
+  currency: '通貨',
+  instrumentType: '種別',
+  sector: 'セクター',
+  country: '国・地域',
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const matchEnum = <T extends string>(values: T[], input: string): T | undefined =>
+  values.find(v => v.toLowerCase() === input.toLowerCase());
+
+const parseNumber = (value: string | undefined) => {
+  const n = Number(value);
+  return value !== undefined && value !== '' && isFinite(n) ? n : undefined;
+};
+
+// key=value arguments; values may not contain spaces except in name="..."
+const parseOptions = (args: string) => {
+  const options: Record<string, string> = {};
+  for (const match of args.matchAll(/(\w+)=("([^"]*)"|\S+)/g)) {
+    options[match[1].toLowerCase()] = match[3] ?? match[2];
+  }
+  return options;
+};
+
+/**
+ * Builds an edit from name / source / exchange / currency / sector / country / qty / price / date options.
+ * qty, price and date correct the most recent buy. Shared with the chat tools.
+ */
+export const buildHoldingEdit = (holding: Holding, options: Record<string, string | undefined>): ChatCommandResult => {
+  const changes: HoldingEdit = {};
+
+  if (options.name) changes.companyName = options.name;
+  if (options.source) {
+    changes.source = matchEnum(Object.values(AISource), options.source);
+    if (!changes.source) return { kind: 'error', message: `AIソースは ${Object.values(AISource).join(' / ')} のいずれかです。` };
+  }
+  if (options.exchange) {
+    changes.exchange = matchEnum(Object.values(Exchange), options.exchange);
+    if (!changes.exchange) return { kind: 'error', message: `市場は ${Object.values(Exchange).join(' / ')} のいずれかです。` };
+  }
+  if (options.currency) {
+    changes.currency = matchEnum(Object.values(Currency), options.currency);
+    if (!changes.currency) return { kind: 'error', message: `通貨は ${Object.values(Currency).join(' / ')} のいずれかです。` };
+  }
+
+  if (options.sector) changes.sector = options.sector;
+  if (options.country) changes.country = options.country;
+
+  if (options.qty !== undefined || options.price !== undefined || options.date !== undefined) {
+    const lastBuy = [...holding.transactions].reverse().find(tx => tx.type === TransactionType.BUY);
+    if (!lastBuy) return { kind: 'error', message: `${holding.ticker} に買付の取引がありません。` };
+    const quantity = options.qty !== undefined ? parseNumber(options.qty) : lastBuy.quantity;
+    const price = options.price !== undefined ? parseNumber(options.price) : lastBuy.price;
+    const date = options.date ?? lastBuy.date;
+    if (quantity === undefined || price === undefined || !DATE_KEY.test(date)) {
+      return { kind: 'error', message: 'qty / price は数値、date は YYYY-MM-DD で指定してください。' };
+    }
+    changes.transactions = holding.transactions.map(tx => tx.id === lastBuy.id ? { ...tx, quantity, price, date } : tx);
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { kind: 'error', message: '変更する項目を key=value で指定してください。/help で使い方を表示します。' };
+  }
+  return { kind: 'action', action: { type: 'edit', ticker: holding.ticker, changes } };
+};
+
+const parseEdit = (holding: Holding, args: string) => buildHoldingEdit(holding, parseOptions(args));
+
+/**
+ * Parses a chat message as a command. Returns null for ordinary messages.
+ */
+export const parseChatCommand = (text: string, holdings: Holding[]): ChatCommandResult | null => {
+  const match = text.trim().match(/^\/(\w+)\s*(\S*)\s*(.*)$/s);
+  if (!match) return null;
+  const [, command, tickerArg, args] = match;
+
+  if (command === 'help') return { kind: 'help' };
+  if (!['sell', 'edit', 'delete'].includes(command)) {
+    return { kind: 'error', message: `不明なコマンド /${command} です。/help で使い方を表示します。` };
+  }
+  if (!tickerArg) return { kind: 'error', message: 'ティッカーを指定してください。' };
+
+  const holding = holdings.find(h => normalizeTicker(h.ticker) === normalizeTicker(tickerArg));
+  if (!holding) return { kind: 'error', message: `${normalizeTicker(tickerArg)} は保有銘柄にありません。` };
+
+  switch (command) {
+    case 'delete':
+      return { kind: 'action', action: { type: 'delete', ticker: holding.ticker } };
+    case 'edit':
+      return parseEdit(holding, args);
+    default: {
+      const [qtyArg, priceArg, dateArg] = args.split(/\s+/).filter(a => !a.includes('='));
+      const quantity = qtyArg?.toLowerCase() === 'all' ? holding.quantity : parseNumber(qtyArg);
+      const price = parseNumber(priceArg);
+      const fees = parseNumber(parseOptions(args).fee);
+      if (quantity === undefined || price === undefined) {
+        return { kind: 'error', message: '使い方: /sell TICKER 数量 単価 [YYYY-MM-DD] [fee=手数料]' };
+      }
+      return {
+        kind: 'action',
+        action: { type: 'sell', ticker: holding.ticker, order: { quantity, price, date: dateArg ?? toDateKey(), fees } },
+      };
+    }
+  }
+};
+
+/**
+ * Confirmation shown in the chat once an action has been applied, or, with
+ * `pending`, before it is applied. Must be called with the holdings from before the action.
+ */
+export const describeHoldingAction = (action: HoldingAction, holdings: Holding[], pending = false): string => {
+  const holding = holdings.find(h => normalizeTicker(h.ticker) === normalizeTicker(action.ticker));
+  const verb = (stem: string) => pending ? `${stem}します` : `${stem}しました`;
+  switch (action.type) {
+    case 'buy': {
+      const { quantity, price, date, fees } = action.order;
+      const { exchange } = action.order;
+      const currency = holding?.currency ?? action.order.currency ?? (exchange ? EXCHANGE_CURRENCIES[exchange] : Currency.USD);
+      const feeText = fees ? ` (手数料 ${formatMoney(fees, currency)})` : '';
+      // A new ticker gets the same warning as in the add form, so confirming the card accepts it
+      const warning = !holding && pending ? unknownTickerWarning(action.ticker, exchange) : undefined;
+      return `${normalizeTicker(action.ticker)} を ${date} に ${quantity}株 @ ${formatMoney(price, currency)}${feeText} で${verb('買付')}。` +
+        (holding ? '' : '新しい保有銘柄として追加されます。') + (warning ? ` ${warning}` : '');
+    }
+    case 'sell': {
+      if (!holding) return `${action.ticker} の売却を${verb('記録')}。`;
+      const { realizedGain, remainingQuantity } = previewSell(holding, action.order);
+      const { quantity, price, date } = action.order;
+      return `${holding.ticker} を ${date} に ${quantity}株 @ ${formatMoney(price, holding.currency)} で${verb('売却')}。` +
+        `実現損益は ${formatMoney(realizedGain, holding.currency)}、残りは ${remainingQuantity}株です。`;
+    }
+    case 'edit': {
+      if (!pending) return `${action.ticker} を更新しました。`;
+      const { transactions, dividend, ...fields } = action.changes;
+      const changed = (Object.keys(fields) as (keyof typeof fields)[])
+        .filter(key => fields[key] !== undefined)
+        .map(key => `${EDIT_FIELD_LABELS[key]}を「${fields[key]}」`);
+      const steps = [
+        ...(changed.length > 0 ? [`${changed.join('、')}に変更`] : []),
+        ...(dividend !== undefined ? [dividend ? '配当予定を更新' : '配当予定を削除'] : []),
+        ...(transactions ? ['直近の買付を修正'] : []),
+      ];
+      return `${action.ticker} の${steps.join('し、')}します。`;
+    }
+    case 'dividend': {
+      const { payDate, perShare, quantity, withholdingTax } = action.dividend;
+      const currency = holding?.currency ?? Currency.USD;
+      const net = perShare * quantity - (withholdingTax ?? 0);
+      return `${normalizeTicker(action.ticker)} の ${payDate} 支払の配当 ${formatMoney(net, currency)} (${quantity}株 × ${formatMoney(perShare, currency)}、源泉徴収後) を${verb('記録')}。`;
+    }
+    case 'delete':
+      return pending
+        ? `${action.ticker} と全ての取引を削除します。`
+        : `${action.ticker} を削除しました。ダッシュボードの「元に戻す」で復元できます。`;
+  }
+};
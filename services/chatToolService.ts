@@ -0,0 +1,121 @@
+import { AISource, ChatContent, ChatMessage, ChatPart, ChatToolCall, ChatToolCallRecord, ChatToolName, Currency, Exchange, Holding } from '../types';
+import { ChatCommandResult, buildHoldingEdit } from './chatCommandService';
+import { normalizeTicker } from './ledgerService';
+import { toDateKey } from '../utils/date';
+
+/**
+ * Client side of the chat tools declared in server/gemini.ts.
+ * Calls that change holdings become HoldingActions, applied only after the user confirms.
+ */
+
+export const CHAT_TOOL_LABELS: Record<ChatToolName, string> = {
+  add_holding: '買付の記録',
+  update_holding: '銘柄情報の修正',
+  sell_holding: '売却の記録',
+  refresh_prices: '株価の更新',
+  fetch_news: 'ニュースの取得',
+  compute_metrics: 'ポートフォリオ指標の計算',
+};
+
+export const MUTATING_TOOLS: ChatToolName[] = ['add_holding', 'update_holding', 'sell_holding'];
+
+export const isChatToolName = (name: string): name is ChatToolName => name in CHAT_TOOL_LABELS;
+
+const stringArg = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+const numberArg = (value: unknown) => typeof value === 'number' && isFinite(value) ? value : undefined;
+
+const matchEnum = <T extends string>(values: T[], input: unknown): T | undefined =>
+  values.find(v => v.toLowerCase() === stringArg(input)?.toLowerCase());
+
+/**
+ * Turns a mutating tool call into the same HoldingAction the dashboard and
+ * slash commands use, or an error to send back to the model.
+ */
+export const toolCallToAction = (call: ChatToolCall, holdings: Holding[]): ChatCommandResult => {
+  const { args } = call;
+  const ticker = normalizeTicker(stringArg(args.ticker) ?? '');
+  if (!ticker) return { kind: 'error', message: 'ticker is required' };
+  const holding = holdings.find(h => normalizeTicker(h.ticker) === ticker);
+
+  switch (call.name) {
+    case 'add_holding': {
+      const quantity = numberArg(args.quantity);
+      const price = numberArg(args.price);
+      if (quantity === undefined || price === undefined) return { kind: 'error', message: 'quantity and price are required' };
+      return {
+        kind: 'action',
+        action: {
+          type: 'buy',
+          ticker,
+          order: {
+            quantity,
+            price,
+            date: stringArg(args.date) ?? toDateKey(),
+            fees: numberArg(args.fees),
+            companyName: stringArg(args.company_name),
+            currency: matchEnum(Object.values(Currency), args.currency),
+            exchange: matchEnum(Object.values(Exchange), args.exchange),
+            source: matchEnum(Object.values(AISource), args.source),
+          },
+        },
+      };
+    }
+    case 'update_holding': {
+      if (!holding) return { kind: 'error', message: `${ticker} is not held` };
+      const text = (value: unknown) => numberArg(value)?.toString() ?? stringArg(value);
+      return buildHoldingEdit(holding, {
+        name: stringArg(args.company_name),
+        source: stringArg(args.source),
+        exchange: stringArg(args.exchange),
+        currency: stringArg(args.currency),
+        sector: stringArg(args.sector),
+        country: stringArg(args.country),
+        qty: text(args.quantity),
+        price: text(args.price),
+        date: stringArg(args.date),
+      });
+    }
+    case 'sell_holding': {
+      if (!holding) return { kind: 'error', message: `${ticker} is not held` };
+      const quantity = args.sell_all === true ? holding.quantity : numberArg(args.quantity);
+      const price = numberArg(args.price);
+      if (quantity === undefined || price === undefined) return { kind: 'error', message: 'quantity (or sell_all) and price are required' };
+      return {
+        kind: 'action',
+        action: { type: 'sell', ticker, order: { quantity, price, date: stringArg(args.date) ?? toDateKey(), fees: numberArg(args.fees) } },
+      };
+    }
+    default:
+      return { kind: 'error', message: `${call.name} does not change holdings` };
+  }
+};
+
+/**
+ * Converts the transcript to Gemini history. Consecutive tool calls become one
+ * model turn of functionCall parts followed by one turn of their responses;
+ * unanswered calls are left out, and turns of the same role are merged.
+ */
+export const toChatHistory = (messages: ChatMessage[]): ChatContent[] => {
+  const contents: ChatContent[] = [];
+  const append = (role: ChatContent['role'], parts: ChatPart[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts.push(...parts);
+    else contents.push({ role, parts });
+  };
+
+  for (let i = 0; i < messages.length; i++) {
+    if (!messages[i].toolCall) {
+      if (messages[i].text) append(messages[i].role, [{ text: messages[i].text }]);
+      continue;
+    }
+    const calls: ChatToolCallRecord[] = [];
+    for (; i < messages.length && messages[i].toolCall; i++) {
+      if (messages[i].toolCall!.response) calls.push(messages[i].toolCall!);
+    }
+    i--;
+    append('model', calls.map(({ id, name, args }) => ({ functionCall: { id, name, args } })));
+    append('user', calls.map(({ id, name, response }) => ({ functionResponse: { id, name, response: response! } })));
+  }
+  return contents;
+};
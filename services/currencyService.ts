@@ -0,0 +1,55 @@
+import { Currency, Exchange, FxRates } from '../types';
+
+export const DEFAULT_FX_RATES: FxRates = {
+  [Currency.USD]: 154.5,
+  [Currency.JPY]: 1,
+  [Currency.EUR]: 167,
+};
+
+export const EXCHANGE_CURRENCIES: Record<Exchange, Currency> = {
+  [Exchange.NYSE]: Currency.USD,
+  [Exchange.NASDAQ]: Currency.USD,
+  [Exchange.TSE]: Currency.JPY,
+  [Exchange.XETRA]: Currency.EUR,
+  [Exchange.EURONEXT]: Currency.EUR,
+};
+
+export const EXCHANGE_LABELS: Record<Exchange, string> = {
+  [Exchange.NYSE]: 'NYSE',
+  [Exchange.NASDAQ]: 'NASDAQ',
+  [Exchange.TSE]: '東証',
+  [Exchange.XETRA]: 'XETRA',
+  [Exchange.EURONEXT]: 'Euronext',
+};
+
+// Country used for allocation when a holding has none set
+export const EXCHANGE_COUNTRIES: Record<Exchange, string> = {
+  [Exchange.NYSE]: '米国',
+  [Exchange.NASDAQ]: '米国',
+  [Exchange.TSE]: '日本',
+  [Exchange.XETRA]: 'ドイツ',
+  [Exchange.EURONEXT]: 'ユーロ圏',
+};
+
+// Currencies with a rate to maintain (everything except the JPY pivot)
+export const FOREIGN_CURRENCIES = Object.values(Currency).filter(c => c !== Currency.JPY);
+
+// Pair symbol used by data files and prompts, e.g. USDJPY
+export const fxPairSymbol = (currency: Currency) => `${currency}${Currency.JPY}`;
+
+export const convertAmount = (amount: number, from: Currency, to: Currency, rates: FxRates): number => {
+  if (from === to) return amount;
+  return amount * rates[from] / rates[to];
+};
+
+/**
+ * Merges freshly fetched rates into the table, ignoring missing or non-positive values.
+ */
+export const mergeFxRates = (rates: FxRates, updates: Partial<FxRates>): FxRates => {
+  const next = { ...rates };
+  for (const currency of FOREIGN_CURRENCIES) {
+    const rate = updates[currency];
+    if (typeof rate === 'number' && isFinite(rate) && rate > 0) next[currency] = rate;
+  }
+  return next;
+};
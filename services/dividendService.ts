@@ -0,0 +1,138 @@
+import { Currency, DividendFrequency, DividendOrder, DividendSchedule, Holding, Transaction, TransactionType, UpcomingDividend } from '../types';
+import { normalizeTicker } from './ledgerService';
+import { createId } from '../utils/id';
+import { parseDateKey, toDateKey } from '../utils/date';
+
+export const DIVIDEND_FREQUENCY_LABELS: Record<DividendFrequency, string> = {
+  1: '年1回',
+  2: '年2回',
+  4: '四半期',
+  12: '毎月',
+};
+
+// Treaty rate for US stocks held from Japan; other markets need the rate set per holding
+const DEFAULT_WITHHOLDING_RATES: Record<Currency, number> = {
+  [Currency.USD]: 0.1,
+  [Currency.JPY]: 0,
+  [Currency.EUR]: 0,
+};
+
+// Upcoming payments are listed this far ahead
+const CALENDAR_MONTHS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const withholdingRateOf = (holding: Pick<Holding, 'currency' | 'dividend'>) =>
+  holding.dividend?.withholdingRate ?? DEFAULT_WITHHOLDING_RATES[holding.currency];
+
+/**
+ * Dividends expected over a year at the current quantity, before and after
+ * foreign withholding, in the holding's currency.
+ */
+export const projectAnnualIncome = (holding: Holding) => {
+  const schedule = holding.dividend;
+  if (!schedule || holding.quantity <= 0) return { gross: 0, net: 0, yieldPercent: 0 };
+  const gross = schedule.perShare * schedule.frequency * holding.quantity;
+  const value = holding.currentPrice * holding.quantity;
+  return {
+    gross,
+    net: gross * (1 - withholdingRateOf(holding)),
+    yieldPercent: value > 0 ? (gross / value) * 100 : 0,
+  };
+};
+
+const addMonths = (date: string, months: number) => {
+  const d = parseDateKey(date);
+  const day = d.getDate();
+  d.setDate(1);
+  d.setMonth(d.getMonth() + months);
+  // Clamp to the end of shorter months
+  d.setDate(Math.min(day, new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate()));
+  return toDateKey(d);
+};
+
+/**
+ * Payment dates of a schedule from `from` up to `until`: the entered dates,
+ * then one every 12 / frequency months. Ex-dates move with their payment.
+ */
+const scheduleDates = (schedule: DividendSchedule, from: string, until: string) => {
+  if (!schedule.payDate) return [];
+  const step = 12 / schedule.frequency;
+  const dates: { payDate: string; exDate?: string; projected: boolean }[] = [];
+  for (let i = 0; ; i++) {
+    const payDate = addMonths(schedule.payDate, i * step);
+    if (payDate > until) break;
+    if (payDate < from) continue;
+    dates.push({ payDate, exDate: schedule.exDate && addMonths(schedule.exDate, i * step), projected: i > 0 });
+  }
+  return dates;
+};
+
+/**
+ * Last date covered by the latest recorded payment: recorded pay dates can be
+ * off from the projected ones by a few days, so it reaches half a period further.
+ */
+const latestPaymentCovers = (holding: Holding, schedule: DividendSchedule) => {
+  const lastPaid = holding.transactions.filter(tx => tx.type === TransactionType.DIVIDEND).map(tx => tx.date).sort().pop();
+  if (!lastPaid) return undefined;
+  const halfPeriodDays = (365 / schedule.frequency) / 2;
+  return toDateKey(parseDateKey(lastPaid).getTime() + halfPeriodDays * DAY_MS);
+};
+
+/**
+ * Payments expected from today over the next year for every holding with a
+ * schedule, oldest first. Payments already recorded are skipped, and the
+ * current quantity is assumed to be held on each ex-date.
+ */
+export const upcomingDividends = (holdings: Holding[], today: string = toDateKey()): UpcomingDividend[] => {
+  const until = addMonths(today, CALENDAR_MONTHS);
+  return holdings
+    .flatMap(holding => {
+      const schedule = holding.dividend;
+      if (!schedule || holding.quantity <= 0) return [];
+      const gross = schedule.perShare * holding.quantity;
+      const withholding = gross * withholdingRateOf(holding);
+      const paidThrough = latestPaymentCovers(holding, schedule);
+      return scheduleDates(schedule, today, until).filter(d => !paidThrough || d.payDate > paidThrough).map(dates => ({
+        assetId: holding.id,
+        ticker: holding.ticker,
+        portfolioName: holding.portfolioName,
+        currency: holding.currency,
+        ...dates,
+        quantity: holding.quantity,
+        gross,
+        withholding,
+        net: gross - withholding,
+      }));
+    })
+    .sort((a, b) => a.payDate.localeCompare(b.payDate) || a.ticker.localeCompare(b.ticker));
+};
+
+/**
+ * Prefills a payment record from the schedule, at the current quantity.
+ */
+export const dividendOrderFromSchedule = (holding: Holding): DividendOrder => {
+  const perShare = holding.dividend?.perShare ?? 0;
+  return {
+    payDate: holding.dividend?.payDate ?? toDateKey(),
+    exDate: holding.dividend?.exDate,
+    perShare,
+    quantity: holding.quantity,
+    withholdingTax: perShare * holding.quantity * withholdingRateOf(holding) || undefined,
+  };
+};
+
+// The ledger keeps the cash received; the withheld tax is stored next to it
+export const createDividendTransaction = (ticker: string, order: DividendOrder): Transaction => ({
+  id: createId(),
+  ticker: normalizeTicker(ticker),
+  type: TransactionType.DIVIDEND,
+  date: order.payDate,
+  quantity: 0,
+  price: 0,
+  amount: order.perShare * order.quantity - (order.withholdingTax ?? 0),
+  withholdingTax: order.withholdingTax || undefined,
+  perShare: order.perShare,
+  exDate: order.exDate,
+  createdAt: Date.now(),
+});
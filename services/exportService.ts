@@ -0,0 +1,99 @@
+import { Holding, Ledger, StockAsset, TaxReport } from '../types';
+import { SCHEMA_VERSION, migratePortfolioData } from './storageService';
+import { sortTransactions } from './ledgerService';
+import { toCsv } from './csvService';
+
+const BACKUP_APP_ID = 'ai-stock-manager';
+
+export interface PortfolioBackup {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  assets: StockAsset[];
+  ledger: Ledger;
+}
+
+export const holdingsToCsv = (holdings: Holding[]): string =>
+  toCsv([
+    ['ticker', 'companyName', 'exchange', 'currency', 'source', 'quantity', 'avgPrice', 'fifoAvgPrice', 'currentPrice', 'marketValue', 'realizedGain', 'dividendIncome'],
+    ...holdings.map(h => [
+      h.ticker, h.companyName, h.exchange, h.currency, h.source,
+      h.quantity, h.avgPrice, h.fifoAvgPrice, h.currentPrice, h.quantity * h.currentPrice,
+      h.realizedGain, h.dividendIncome,
+    ]),
+  ]);
+
+// Columns match the generic import preset, so the file can be imported again
+export const transactionsToCsv = (ledger: Ledger, assets: StockAsset[]): string => {
+  const currencyOf = (ticker: string) => assets.find(a => a.ticker.toUpperCase() === ticker)?.currency;
+  return toCsv([
+    ['ticker', 'type', 'date', 'quantity', 'price', 'fees', 'amount', 'splitRatio', 'currency', 'fxRate'],
+    ...sortTransactions(Object.values(ledger).flat()).map(tx => [
+      tx.ticker, tx.type, tx.date, tx.quantity, tx.price, tx.fees, tx.amount, tx.splitRatio, currencyOf(tx.ticker), tx.fxRate,
+    ]),
+  ]);
+};
+
+// One row per sale or dividend; JPY amounts are truncated to whole yen, so losses round toward zero too
+export const taxReportToCsv = (report: TaxReport): string => {
+  const yen = (amount: number) => Math.trunc(amount);
+  return toCsv([
+    ['section', 'account', 'accountKind', 'ticker', 'date', 'currency', 'fxRate', 'fxSource', 'quantity', 'proceedsJpy', 'costJpy', 'gainJpy', 'dividendGrossJpy', 'foreignTaxJpy', 'dividendNetJpy'],
+    ...report.gains.map(row => [
+      'gain', row.portfolioName, row.kind, row.ticker, row.date, row.currency, row.fxRate, row.fxSource,
+      row.quantity, yen(row.proceedsJpy), yen(row.costJpy), yen(row.gainJpy), '', '', '',
+    ]),
+    ...report.dividends.map(row => [
+      'dividend', row.portfolioName, row.kind, row.ticker, row.date, row.currency, row.fxRate, row.fxSource,
+      '', '', '', '', yen(row.grossJpy), yen(row.foreignTaxJpy), yen(row.netJpy),
+    ]),
+  ]);
+};
+
+export const createBackup = (assets: StockAsset[], ledger: Ledger): string =>
+  JSON.stringify({
+    app: BACKUP_APP_ID,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    assets,
+    ledger,
+  } satisfies PortfolioBackup, null, 2);
+
+/**
+ * Reads a file written by createBackup. Returns null for anything else,
+ * including backups from a newer schema than this app understands.
+ * Backups from an older schema are migrated to the current one.
+ */
+export const parseBackup = async (text: string): Promise<PortfolioBackup | null> => {
+  try {
+    const data = JSON.parse(text);
+    if (data?.app !== BACKUP_APP_ID || !Array.isArray(data.assets) || typeof data.ledger !== 'object') return null;
+    if (!Number.isInteger(data.schemaVersion) || data.schemaVersion > SCHEMA_VERSION) return null;
+    if (data.schemaVersion === SCHEMA_VERSION) return data;
+    const { assets, ledger } = await migratePortfolioData(data.schemaVersion, data.assets, data.ledger);
+    return { ...data, schemaVersion: SCHEMA_VERSION, assets, ledger };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Merges a backup into the current data. Assets are matched by ticker and
+ * transactions by id, so restoring the same backup twice changes nothing.
+ */
+export const mergeBackup = (assets: StockAsset[], ledger: Ledger, backup: PortfolioBackup) => {
+  const known = new Set(assets.map(a => a.ticker.toUpperCase()));
+  const nextLedger: Ledger = { ...ledger };
+  let added = 0;
+  for (const [ticker, transactions] of Object.entries(backup.ledger)) {
+    const ids = new Set((nextLedger[ticker] ?? []).map(tx => tx.id));
+    const fresh = transactions.filter(tx => !ids.has(tx.id));
+    added += fresh.length;
+    if (fresh.length > 0) nextLedger[ticker] = [...(nextLedger[ticker] ?? []), ...fresh];
+  }
+  return {
+    assets: [...assets, ...backup.assets.filter(a => !known.has(a.ticker.toUpperCase()))],
+    ledger: nextLedger,
+    addedTransactions: added,
+  };
+};
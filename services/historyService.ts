@@ -0,0 +1,119 @@
+import { Currency, FxRates, Holding, HistoryRange, PortfolioHistoryItem, PricePoint, PriceHistory, TransactionType } from '../types';
+import { FOREIGN_CURRENCIES, convertAmount, fxPairSymbol } from './currencyService';
+import { normalizeTicker } from './ledgerService';
+import { toDateKey } from '../utils/date';
+
+const RANGE_DAYS: Record<Exclude<HistoryRange, 'ALL'>, number> = {
+  '1W': 7,
+  '1M': 30,
+  '6M': 182,
+  '1Y': 365,
+};
+
+/**
+ * Inserts a daily point, replacing any existing point for the same date.
+ * Series are kept sorted oldest first.
+ */
+export const upsertDailyPoint = <T extends { date: string }>(series: T[], point: T): T[] =>
+  [...series.filter(p => p.date !== point.date), point].sort((a, b) => a.date.localeCompare(b.date));
+
+export const recordPrices = (
+  history: PriceHistory,
+  prices: Record<string, number>,
+  date: string = toDateKey()
+): PriceHistory => {
+  const next: PriceHistory = { ...history };
+  for (const [ticker, price] of Object.entries(prices)) {
+    if (typeof price !== 'number' || !isFinite(price) || price <= 0) continue;
+    const key = normalizeTicker(ticker);
+    next[key] = upsertDailyPoint<PricePoint>(next[key] ?? [], { date, price });
+  }
+  return next;
+};
+
+/**
+ * Records FX rates as pair series (e.g. USDJPY) next to the prices,
+ * where reports look up the rate of a past trade date.
+ */
+export const recordFxRates = (history: PriceHistory, fxRates: Partial<FxRates>, date: string = toDateKey()): PriceHistory =>
+  recordPrices(
+    history,
+    Object.fromEntries(FOREIGN_CURRENCIES.flatMap(c => fxRates[c] === undefined ? [] : [[fxPairSymbol(c), fxRates[c]!]])),
+    date
+  );
+
+/**
+ * Rates of each day from the recorded pair series, carrying the last known rate
+ * forward; today's rates fill in before a pair's first point.
+ */
+export const fxRatesOn = (history: PriceHistory, fallbackRates: FxRates) => {
+  const cache = new Map<string, FxRates>();
+  return (date: string): FxRates => {
+    let rates = cache.get(date);
+    if (!rates) {
+      rates = { ...fallbackRates };
+      for (const currency of FOREIGN_CURRENCIES) {
+        const point = [...(history[fxPairSymbol(currency)] ?? [])].reverse().find(p => p.date <= date);
+        if (point) rates[currency] = point.price;
+      }
+      cache.set(date, rates);
+    }
+    return rates;
+  };
+};
+
+/**
+ * Records today's portfolio value in USD together with the FX rates used,
+ * so the snapshot can later be shown in any base currency.
+ */
+export const recordSnapshot = (
+  snapshots: PortfolioHistoryItem[],
+  holdings: Holding[],
+  fxRates: FxRates,
+  date: string = toDateKey()
+): PortfolioHistoryItem[] => {
+  const toUsd = (amount: number, holding: Holding) => convertAmount(amount, holding.currency, Currency.USD, fxRates);
+  const snapshot = holdings.reduce<PortfolioHistoryItem>((acc, h) => ({
+    ...acc,
+    value: acc.value + toUsd(h.quantity * h.currentPrice, h),
+    costBasis: acc.costBasis + toUsd(h.quantity * h.avgPrice, h),
+  }), { date, value: 0, costBasis: 0, fxRates });
+  return upsertDailyPoint(snapshots, snapshot);
+};
+
+/**
+ * Converts a USD snapshot into the base currency with the rates recorded that day.
+ */
+export const snapshotInCurrency = (item: PortfolioHistoryItem, currency: Currency, fallbackRates: FxRates): PortfolioHistoryItem => {
+  const rates = item.fxRates ?? fallbackRates;
+  return {
+    ...item,
+    value: convertAmount(item.value, Currency.USD, currency, rates),
+    costBasis: convertAmount(item.costBasis, Currency.USD, currency, rates),
+  };
+};
+
+/**
+ * Known prices of a holding: recorded history plus the prices of its own trades,
+ * which are real market prices too and fill gaps before history was recorded.
+ */
+export const knownPrices = (holding: Holding, history: PricePoint[]): PricePoint[] => {
+  const byDate = new Map<string, number>();
+  for (const tx of holding.transactions) {
+    if (tx.type === TransactionType.BUY || tx.type === TransactionType.SELL) byDate.set(tx.date, tx.price);
+  }
+  for (const point of history) byDate.set(point.date, point.price);
+  return [...byDate.entries()].map(([date, price]) => ({ date, price })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const filterByRange = <T extends { date: string }>(
+  series: T[],
+  range: HistoryRange,
+  now: Date = new Date()
+): T[] => {
+  if (range === 'ALL') return series;
+  const from = new Date(now);
+  from.setDate(from.getDate() - RANGE_DAYS[range]);
+  const fromKey = toDateKey(from);
+  return series.filter(p => p.date >= fromKey);
+};
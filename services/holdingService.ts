@@ -0,0 +1,158 @@
+import { AISource, Currency, Holding, HoldingAction, Ledger, SellOrder, StockAsset, Transaction, TransactionType } from '../types';
+import { EXCHANGE_CURRENCIES } from './currencyService';
+import { computePosition, findOversell, normalizeTicker } from './ledgerService';
+import { withSymbolMetadata } from './symbolService';
+import { createDividendTransaction } from './dividendService';
+import { createId } from '../utils/id';
+
+const findHolding = (holdings: Holding[], ticker: string) =>
+  holdings.find(h => normalizeTicker(h.ticker) === normalizeTicker(ticker));
+
+const createTradeTransaction = (ticker: string, type: TransactionType.BUY | TransactionType.SELL, order: SellOrder): Transaction => ({
+  id: createId(),
+  ticker: normalizeTicker(ticker),
+  type,
+  date: order.date,
+  quantity: order.quantity,
+  price: order.price,
+  fees: order.fees || undefined,
+  createdAt: Date.now(),
+});
+
+export const createSellTransaction = (ticker: string, order: SellOrder) =>
+  createTradeTransaction(ticker, TransactionType.SELL, order);
+
+/**
+ * Realized gain a sell would book, by the moving average and FIFO methods.
+ */
+export const previewSell = (holding: Holding, order: SellOrder) => {
+  const after = computePosition([...holding.transactions, createSellTransaction(holding.ticker, order)]);
+  return {
+    realizedGain: after.realizedGain - holding.realizedGain,
+    fifoRealizedGain: after.fifoRealizedGain - holding.fifoRealizedGain,
+    remainingQuantity: after.quantity,
+  };
+};
+
+/**
+ * Checks an action against the current holdings.
+ * Returns a message to show the user, or null when the action can be applied.
+ */
+const validateOrder = ({ quantity, price, date, fees }: SellOrder, side: string): string | null => {
+  if (!(quantity > 0 && isFinite(quantity))) return `${side}数量は0より大きくしてください。`;
+  if (!(price > 0 && isFinite(price))) return `${side}単価は0より大きくしてください。`;
+  if (fees !== undefined && fees < 0) return '手数料は0以上にしてください。';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return '約定日は YYYY-MM-DD 形式で指定してください。';
+  return null;
+};
+
+const oversellError = (transactions: Transaction[]): string | null => {
+  const oversell = findOversell(transactions);
+  return oversell ? `${oversell.sell.date} の売却数量 (${oversell.sell.quantity}株) がその時点の保有数量 (${oversell.held}株) を超えています。` : null;
+};
+
+export const validateHoldingAction = (holdings: Holding[], action: HoldingAction): string | null => {
+  if (action.type === 'buy') {
+    if (!normalizeTicker(action.ticker)) return 'ティッカーを指定してください。';
+    return validateOrder(action.order, '買付');
+  }
+
+  const holding = findHolding(holdings, action.ticker);
+  if (!holding) return `${action.ticker} は保有銘柄にありません。`;
+
+  switch (action.type) {
+    case 'sell': {
+      if (action.order.quantity > holding.quantity + 1e-9) return `売却数量が保有数量 (${holding.quantity}株) を超えています。`;
+      // A back-dated sell must also leave enough shares for the sells recorded after it
+      return validateOrder(action.order, '売却')
+        ?? oversellError([...holding.transactions, createSellTransaction(holding.ticker, action.order)]);
+    }
+    case 'dividend': {
+      const { perShare, quantity, payDate, exDate, withholdingTax } = action.dividend;
+      if (!(perShare > 0)) return '1株あたり配当は0より大きくしてください。';
+      if (!(quantity > 0)) return '対象株数は0より大きくしてください。';
+      if (withholdingTax !== undefined && (withholdingTax < 0 || withholdingTax > perShare * quantity)) {
+        return '源泉徴収額は0以上、配当額以下にしてください。';
+      }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(payDate)) return '支払日は YYYY-MM-DD 形式で指定してください。';
+      if (exDate && exDate > payDate) return '権利落ち日は支払日より前にしてください。';
+      return null;
+    }
+    case 'edit': {
+      const { transactions, dividend } = action.changes;
+      if (dividend && !(dividend.perShare > 0)) return '1株あたり配当は0より大きくしてください。';
+      if (transactions?.some(tx => tx.type !== TransactionType.DIVIDEND && tx.type !== TransactionType.SPLIT && !(tx.quantity > 0))) {
+        return '取引の数量は0より大きくしてください。';
+      }
+      if (transactions?.some(tx => (tx.type === TransactionType.BUY || tx.type === TransactionType.SELL) && !(tx.price > 0))) {
+        return '取引の単価は0より大きくしてください。';
+      }
+      return transactions ? oversellError(transactions) : null;
+    }
+    case 'delete':
+      return null;
+  }
+};
+
+/**
+ * Applies a validated action to the stored assets and ledger.
+ * Deleting removes the asset together with all of its transactions.
+ * The assets and the ledger are updated independently of each other.
+ */
+export const applyHoldingAction = (
+  assets: StockAsset[],
+  ledger: Ledger,
+  action: HoldingAction
+): { assets: StockAsset[]; ledger: Ledger } => {
+  const ticker = normalizeTicker(action.ticker);
+  const matches = (a: StockAsset) => normalizeTicker(a.ticker) === ticker;
+
+  switch (action.type) {
+    case 'buy': {
+      const { companyName, currency, exchange, source, ...order } = action.order;
+      const transaction = createTradeTransaction(ticker, TransactionType.BUY, order);
+      const nextLedger = { ...ledger, [ticker]: [...(ledger[ticker] ?? []), transaction] };
+      if (assets.some(matches)) return { assets, ledger: nextLedger };
+      // New assets start at the purchase price until their first quote
+      const asset = withSymbolMetadata({
+        id: createId(),
+        ticker,
+        companyName: companyName || ticker,
+        currency: currency ?? (exchange ? EXCHANGE_CURRENCIES[exchange] : Currency.USD),
+        exchange,
+        currentPrice: order.price,
+        awaitingQuote: true,
+        source: source ?? AISource.OTHER,
+        lastUpdated: Date.now(),
+      });
+      return { assets: [...assets, asset], ledger: nextLedger };
+    }
+    case 'sell':
+      return {
+        assets,
+        ledger: { ...ledger, [ticker]: [...(ledger[ticker] ?? []), createSellTransaction(ticker, action.order)] },
+      };
+    case 'dividend':
+      return {
+        assets,
+        ledger: { ...ledger, [ticker]: [...(ledger[ticker] ?? []), createDividendTransaction(ticker, action.dividend)] },
+      };
+    case 'edit': {
+      const { transactions, dividend, ...fields } = action.changes;
+      const changed = Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined));
+      const withDividend = (asset: StockAsset): StockAsset => {
+        if (dividend === undefined) return asset;
+        const { dividend: _previous, ...rest } = asset;
+        return dividend === null ? rest : { ...rest, dividend };
+      };
+      return {
+        assets: assets.map(a => matches(a) ? withDividend({ ...a, ...changed }) : a),
+        ledger: transactions ? { ...ledger, [ticker]: transactions.map(tx => ({ ...tx, ticker })) } : ledger,
+      };
+    }
+    case 'delete': {
+      const { [ticker]: _removed, ...rest } = ledger;
+      return { assets: assets.filter(a => !matches(a)), ledger: rest };
+    }
+  }
+};
@@ -0,0 +1,91 @@
+import { IconCache, StockIcon } from '../types';
+import { normalizeTicker } from './ledgerService';
+
+/**
+ * Stock icons are cached per ticker, apart from the assets, so a ticker held in
+ * several portfolios or added again reuses its icon. Images are downscaled before
+ * they are stored; tickers without one are drawn as a monogram.
+ */
+
+// Icons are shown at 56px at most; twice that keeps them sharp on high-DPI screens
+const ICON_SIZE = 128;
+const ICON_QUALITY = 0.85;
+
+// Uploads larger than this are rejected before decoding
+export const MAX_ICON_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+const MONOGRAM_COLORS = ['#2563eb', '#10b981', '#d97706', '#8b5cf6', '#ef4444', '#0891b2', '#db2777', '#65a30d', '#475569'];
+
+// FNV-1a, so a ticker always gets the same color
+const hashOf = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * SVG avatar with the ticker's first letters on a color picked from the ticker.
+ * Exchange suffixes such as ".T" are left out.
+ */
+export const monogramIcon = (ticker: string): string => {
+  const symbol = normalizeTicker(ticker);
+  const letters = (symbol.split('.')[0] || symbol).slice(0, 4);
+  const fontSize = letters.length <= 2 ? 48 : letters.length === 3 ? 38 : 30;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${ICON_SIZE}" height="${ICON_SIZE}" viewBox="0 0 128 128">`
+    + `<rect width="128" height="128" fill="${MONOGRAM_COLORS[hashOf(symbol) % MONOGRAM_COLORS.length]}"/>`
+    + `<text x="64" y="64" dy="0.35em" text-anchor="middle" font-family="system-ui, sans-serif" font-size="${fontSize}" font-weight="700" fill="#fff">${letters.replace(/[<>&"]/g, '')}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export const iconUrlOf = (icons: IconCache, ticker: string) => icons[normalizeTicker(ticker)]?.dataUrl ?? monogramIcon(ticker);
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be decoded'));
+    image.src = src;
+  });
+
+/**
+ * Center-crops the image to a square and scales it down to ICON_SIZE.
+ * Encodes as WebP, or PNG where the browser can't encode WebP.
+ */
+export const downscaleIcon = async (src: string): Promise<string> => {
+  const image = await loadImage(src);
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  const size = Math.min(ICON_SIZE, side);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, (image.naturalWidth - side) / 2, (image.naturalHeight - side) / 2, side, side, 0, 0, size, size);
+  return canvas.toDataURL('image/webp', ICON_QUALITY);
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Icon from a user's image file; throws with a message for the UI when it can't be used.
+ */
+export const iconFromFile = async (file: File): Promise<StockIcon> => {
+  if (!file.type.startsWith('image/')) throw new Error('画像ファイルを選択してください');
+  if (file.size > MAX_ICON_UPLOAD_BYTES) throw new Error('画像は5MB以下にしてください');
+  try {
+    return { source: 'uploaded', dataUrl: await downscaleIcon(await readAsDataUrl(file)), updatedAt: Date.now() };
+  } catch {
+    throw new Error('画像を読み込めませんでした');
+  }
+};
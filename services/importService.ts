@@ -0,0 +1,347 @@
+import { AISource, BrokerPresetId, ColumnMapping, Currency, ImportField, Ledger, StockAsset, Transaction, TransactionType } from '../types';
+import { addTransaction, findOversell, normalizeTicker } from './ledgerService';
+import { withSymbolMetadata } from './symbolService';
+import { createId } from '../utils/id';
+import { parseDateKey, toDateKey } from '../utils/date';
+
+interface BrokerPreset {
+  id: BrokerPresetId;
+  label: string;
+  // Header names per field, matched ignoring spaces and brackets
+  columns: Partial<Record<ImportField, string[]>>;
+  // Headers only this broker's export has, used for auto-detection
+  signature: string[];
+  currency?: Currency;
+}
+
+/**
+ * Column names follow each broker's US stock trade history download.
+ * Exports change over time, so the mapping can always be corrected in the import dialog.
+ */
+export const BROKER_PRESETS: BrokerPreset[] = [
+  {
+    id: 'sbi',
+    label: 'SBI証券 (外国株式 取引履歴)',
+    columns: {
+      ticker: ['ティッカー', '銘柄コード'],
+      companyName: ['銘柄名', '銘柄'],
+      date: ['国内約定日', '約定日'],
+      side: ['取引', '売買'],
+      quantity: ['約定数量', '数量'],
+      price: ['約定単価', '単価'],
+      fees: ['手数料'],
+      currency: ['決済通貨', '通貨'],
+      fxRate: ['為替レート'],
+    },
+    signature: ['国内約定日', '現地約定日'],
+    currency: Currency.USD,
+  },
+  {
+    id: 'rakuten',
+    label: '楽天証券 (米国株式 取引履歴)',
+    columns: {
+      ticker: ['ティッカー'],
+      companyName: ['銘柄名'],
+      date: ['約定日'],
+      side: ['売買区分'],
+      quantity: ['数量［株］', '数量'],
+      price: ['単価［USドル］', '単価'],
+      fees: ['手数料［USドル］', '手数料'],
+      currency: ['決済通貨'],
+      fxRate: ['為替レート'],
+    },
+    signature: ['売買区分', '受渡金額［円］', '数量［株］'],
+    currency: Currency.USD,
+  },
+  {
+    id: 'monex',
+    label: 'マネックス証券 (米国株 約定履歴)',
+    columns: {
+      ticker: ['ティッカー', '銘柄コード'],
+      companyName: ['銘柄名', '銘柄'],
+      date: ['約定日'],
+      side: ['取引種別', '売買'],
+      quantity: ['約定数量', '数量'],
+      price: ['約定単価', '単価'],
+      fees: ['取引手数料', '手数料'],
+      currency: ['通貨'],
+      fxRate: ['約定為替レート', '為替レート'],
+    },
+    signature: ['取引種別', '取引手数料'],
+    currency: Currency.USD,
+  },
+  {
+    id: 'generic',
+    label: '汎用 (列を手動で指定)',
+    columns: {
+      ticker: ['ticker', 'symbol', 'ティッカー', '銘柄コード', 'コード'],
+      companyName: ['companyname', 'name', 'company', '銘柄名'],
+      date: ['date', 'tradedate', '約定日'],
+      side: ['type', 'side', 'action', '売買'],
+      quantity: ['quantity', 'qty', 'shares', '数量'],
+      price: ['price', '単価'],
+      fees: ['fees', 'fee', 'commission', '手数料'],
+      currency: ['currency', '通貨'],
+      fxRate: ['fxrate', '為替レート'],
+    },
+    signature: [],
+  },
+];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  ticker: 'ティッカー',
+  companyName: '銘柄名',
+  date: '約定日',
+  side: '売買',
+  quantity: '数量',
+  price: '単価',
+  fees: '手数料',
+  currency: '通貨',
+  fxRate: '為替レート',
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['ticker', 'date', 'quantity', 'price'];
+
+const normalizeHeader = (header: string) => header.replace(/[\s　"'\[\]［］()（）]/g, '').toLowerCase();
+
+const findColumn = (header: string[], aliases: string[]) => {
+  const normalized = header.map(normalizeHeader);
+  for (const alias of aliases.map(normalizeHeader)) {
+    const exact = normalized.indexOf(alias);
+    if (exact >= 0) return exact;
+  }
+  for (const alias of aliases.map(normalizeHeader)) {
+    const partial = normalized.findIndex(h => h.includes(alias));
+    if (partial >= 0) return partial;
+  }
+  return undefined;
+};
+
+export const getPreset = (id: BrokerPresetId) => BROKER_PRESETS.find(p => p.id === id) ?? BROKER_PRESETS[BROKER_PRESETS.length - 1];
+
+export const mapColumns = (header: string[], presetId: BrokerPresetId): ColumnMapping => {
+  const { columns } = getPreset(presetId);
+  const mapping: ColumnMapping = {};
+  for (const field of Object.keys(columns) as ImportField[]) {
+    const index = findColumn(header, columns[field]!);
+    if (index !== undefined) mapping[field] = index;
+  }
+  return mapping;
+};
+
+/**
+ * Brokers put account details above the table, so the header is the first
+ * of the top rows in which the required columns can be found.
+ */
+export const findHeaderRow = (rows: string[][], maxScan = 20): number => {
+  const candidates = rows.slice(0, maxScan);
+  const index = candidates.findIndex(row =>
+    BROKER_PRESETS.some(preset => {
+      const mapping = mapColumns(row, preset.id);
+      return REQUIRED_IMPORT_FIELDS.every(f => mapping[f] !== undefined);
+    })
+  );
+  return Math.max(0, index);
+};
+
+export const detectPreset = (header: string[]): BrokerPresetId => {
+  const normalized = header.map(normalizeHeader);
+  const scored = BROKER_PRESETS
+    .map(preset => ({ id: preset.id, score: preset.signature.filter(s => normalized.includes(normalizeHeader(s))).length }))
+    .sort((a, b) => b.score - a.score);
+  return scored[0].score > 0 ? scored[0].id : 'generic';
+};
+
+export const parseSide = (value: string | undefined): TransactionType | undefined => {
+  if (value === undefined || value.trim() === '') return TransactionType.BUY;
+  if (/sell|売/i.test(value)) return TransactionType.SELL;
+  if (/buy|買/i.test(value)) return TransactionType.BUY;
+  return undefined;
+};
+
+// 2024/1/5, 2024-01-05, 2024年1月5日, 24/01/05 -> 2024-01-05; undefined for dates not in the calendar (2024/2/30)
+export const parseTradeDate = (value: string | undefined): string | undefined => {
+  const match = value?.trim().match(/^(\d{2,4})[\/\-.年](\d{1,2})[\/\-.月](\d{1,2})/);
+  if (!match) return undefined;
+  const year = match[1].length === 2 ? `20${match[1]}` : match[1];
+  const key = `${year}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return toDateKey(parseDateKey(key)) === key ? key : undefined;
+};
+
+// Strips thousands separators, currency marks and units ("1,234.5 USD", "$12", "10株")
+export const parseAmount = (value: string | undefined): number | undefined => {
+  const cleaned = value?.replace(/[,，\s]/g, '').replace(/[^\d.\-]/g, '');
+  if (!cleaned) return undefined;
+  const n = Number(cleaned);
+  return isFinite(n) ? n : undefined;
+};
+
+const parseCurrency = (value: string | undefined): Currency | undefined => {
+  const text = value?.trim().toUpperCase() ?? '';
+  if (text.includes('USD') || text.includes('ドル') || text === '$') return Currency.USD;
+  if (text.includes('JPY') || text === '円') return Currency.JPY;
+  if (text.includes('EUR') || text.includes('ユーロ')) return Currency.EUR;
+  return undefined;
+};
+
+export interface ImportRow {
+  line: number; // 1-based row in the file, not counting blank lines
+  ticker: string;
+  companyName?: string;
+  date: string;
+  type: TransactionType;
+  quantity: number;
+  price: number;
+  fees?: number;
+  currency: Currency;
+  fxRate?: number;
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  // Trades whose ticker, trade date and side are already in the ledger
+  duplicates: ImportRow[];
+  errors: { line: number; message: string }[];
+}
+
+// Separate fills of the same ticker on the same day differ in quantity or price
+export const tradeKey = (ticker: string, date: string, type: TransactionType, quantity: number, price: number) =>
+  `${normalizeTicker(ticker)}|${date}|${type}|${quantity}|${price}`;
+
+// Keys of every recorded trade, for spotting trades that are imported twice
+export const existingTradeKeys = (ledger: Ledger) =>
+  new Set(Object.values(ledger).flat().map(tx => tradeKey(tx.ticker, tx.date, tx.type, tx.quantity, tx.price)));
+
+const toTransaction = (row: ImportRow, createdAt: number): Transaction => ({
+  id: createId(),
+  ticker: row.ticker,
+  type: row.type,
+  date: row.date,
+  quantity: row.quantity,
+  price: row.price,
+  fees: row.fees,
+  fxRate: row.currency === Currency.JPY ? undefined : row.fxRate,
+  createdAt,
+});
+
+/**
+ * Sell rows that would sell more than is held at some point once the rows are added.
+ * Sells are taken oldest first, and each one is checked against the ledger, every
+ * imported buy and the sells accepted before it.
+ */
+export const findOversoldRows = (ledger: Ledger, rows: ImportRow[]): ImportRow[] => {
+  const now = Date.now();
+  const oversold: ImportRow[] = [];
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  for (const ticker of new Set(sorted.filter(r => r.type === TransactionType.SELL).map(r => normalizeTicker(r.ticker)))) {
+    const ofTicker = sorted.filter(r => normalizeTicker(r.ticker) === ticker);
+    let accepted = [
+      ...(ledger[ticker] ?? []),
+      ...ofTicker.filter(r => r.type === TransactionType.BUY).map(r => toTransaction(r, now + sorted.indexOf(r))),
+    ];
+    for (const row of ofTicker.filter(r => r.type === TransactionType.SELL)) {
+      const next = [...accepted, toTransaction(row, now + sorted.indexOf(row))];
+      if (findOversell(next)) oversold.push(row);
+      else accepted = next;
+    }
+  }
+  return oversold;
+};
+
+/**
+ * Reads the rows below the header with the given mapping and sorts them into
+ * trades to import, duplicates of existing trades and rows that could not be read.
+ */
+export const buildImportPreview = (
+  rows: string[][],
+  headerIndex: number,
+  mapping: ColumnMapping,
+  defaultCurrency: Currency,
+  ledger: Ledger
+): ImportPreview => {
+  const existing = existingTradeKeys(ledger);
+  const preview: ImportPreview = { rows: [], duplicates: [], errors: [] };
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index]?.trim();
+  };
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    const line = i + 1;
+    const fail = (message: string) => preview.errors.push({ line, message });
+    const ticker = cell(row, 'ticker');
+    const date = parseTradeDate(cell(row, 'date'));
+    const type = parseSide(cell(row, 'side'));
+    const quantity = parseAmount(cell(row, 'quantity'));
+    const price = parseAmount(cell(row, 'price'));
+
+    if (!ticker) { fail('ティッカーがありません'); continue; }
+    if (!date) { fail(`約定日を読み取れません (${cell(row, 'date') ?? ''})`); continue; }
+    if (date > toDateKey()) { fail(`約定日が未来の日付です (${date})`); continue; }
+    if (!type) { fail(`売買区分を判別できません (${cell(row, 'side')})`); continue; }
+    if (!quantity || quantity <= 0) { fail('数量が不正です'); continue; }
+    if (!price || price <= 0) { fail('単価が不正です'); continue; }
+
+    const importRow: ImportRow = {
+      line,
+      ticker: normalizeTicker(ticker),
+      companyName: cell(row, 'companyName') || undefined,
+      date,
+      type,
+      quantity,
+      price,
+      fees: parseAmount(cell(row, 'fees')) || undefined,
+      currency: parseCurrency(cell(row, 'currency')) ?? defaultCurrency,
+      fxRate: parseAmount(cell(row, 'fxRate')) || undefined,
+    };
+    if (existing.has(tradeKey(importRow.ticker, date, type, quantity, price))) {
+      preview.duplicates.push(importRow);
+    } else {
+      preview.rows.push(importRow);
+    }
+  }
+
+  const oversold = findOversoldRows(ledger, preview.rows);
+  for (const row of oversold) preview.errors.push({ line: row.line, message: '保有数量を超える売却です' });
+  preview.rows = preview.rows.filter(row => !oversold.includes(row));
+
+  return preview;
+};
+
+/**
+ * Adds imported trades to the ledger and creates assets for tickers not held yet.
+ * New assets start at their latest imported trade price until the next market refresh.
+ */
+export const applyImport = (
+  assets: StockAsset[],
+  ledger: Ledger,
+  rows: ImportRow[],
+  source: AISource
+): { assets: StockAsset[]; ledger: Ledger } => {
+  const now = Date.now();
+  const known = new Set(assets.map(a => normalizeTicker(a.ticker)));
+  const newAssets = new Map<string, StockAsset>();
+
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  let nextLedger = ledger;
+  sorted.forEach((row, i) => {
+    nextLedger = addTransaction(nextLedger, toTransaction(row, now + i));
+
+    if (!known.has(row.ticker)) {
+      const existing = newAssets.get(row.ticker);
+      newAssets.set(row.ticker, existing ? { ...existing, currentPrice: row.price } : withSymbolMetadata({
+        id: createId(),
+        ticker: row.ticker,
+        companyName: row.companyName ?? row.ticker,
+        currency: row.currency,
+        currentPrice: row.price,
+        awaitingQuote: true,
+        source,
+        lastUpdated: now,
+      }));
+    }
+  });
+
+  return { assets: [...assets, ...newAssets.values()], ledger: nextLedger };
+};
@@ -0,0 +1,166 @@
+import { StockAsset, Transaction, TransactionType, Ledger, Holding, FxRates, Currency, PortfolioSummary } from '../types';
+import { convertAmount } from './currencyService';
+
+interface Lot {
+  quantity: number;
+  costPerShare: number;
+}
+
+export interface Position {
+  quantity: number;
+  avgPrice: number;
+  fifoAvgPrice: number;
+  realizedGain: number;
+  fifoRealizedGain: number;
+  dividendIncome: number;
+}
+
+export const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  [TransactionType.BUY]: '買付',
+  [TransactionType.SELL]: '売却',
+  [TransactionType.DIVIDEND]: '配当',
+  [TransactionType.SPLIT]: '株式分割',
+};
+
+export const normalizeTicker = (ticker: string) => ticker.trim().toUpperCase();
+
+// Oldest first. Same-day trades keep their entry order.
+export const sortTransactions = (transactions: Transaction[]): Transaction[] =>
+  [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+
+/**
+ * Replays a ticker's transactions and derives the open position.
+ * Both the moving average method and FIFO are computed; fees are added to
+ * the cost of buys and deducted from the proceeds of sells.
+ */
+export const computePosition = (transactions: Transaction[]): Position => {
+  let quantity = 0;
+  let avgPrice = 0;
+  let realizedGain = 0;
+  let fifoRealizedGain = 0;
+  let dividendIncome = 0;
+  let lots: Lot[] = [];
+
+  for (const tx of sortTransactions(transactions)) {
+    const fees = tx.fees ?? 0;
+    switch (tx.type) {
+      case TransactionType.BUY: {
+        // A zero-share buy would make the average 0/0
+        if (!(tx.quantity > 0)) break;
+        const cost = tx.quantity * tx.price + fees;
+        avgPrice = (avgPrice * quantity + cost) / (quantity + tx.quantity);
+        quantity += tx.quantity;
+        lots.push({ quantity: tx.quantity, costPerShare: cost / tx.quantity });
+        break;
+      }
+      case TransactionType.SELL: {
+        const sellQty = Math.min(tx.quantity, quantity);
+        if (sellQty <= 0) break;
+        const proceeds = sellQty * tx.price - fees;
+        realizedGain += proceeds - sellQty * avgPrice;
+
+        let remaining = sellQty;
+        let fifoCost = 0;
+        while (remaining > 0 && lots.length > 0) {
+          const lot = lots[0];
+          const used = Math.min(lot.quantity, remaining);
+          fifoCost += used * lot.costPerShare;
+          lot.quantity -= used;
+          remaining -= used;
+          if (lot.quantity <= 1e-9) lots.shift();
+        }
+        fifoRealizedGain += proceeds - fifoCost;
+
+        quantity -= sellQty;
+        if (quantity <= 1e-9) {
+          quantity = 0;
+          avgPrice = 0;
+          lots = [];
+        }
+        break;
+      }
+      case TransactionType.DIVIDEND:
+        dividendIncome += (tx.amount ?? 0) - fees;
+        break;
+      case TransactionType.SPLIT: {
+        const ratio = tx.splitRatio ?? 1;
+        if (ratio <= 0) break;
+        quantity *= ratio;
+        avgPrice /= ratio;
+        lots = lots.map(lot => ({ quantity: lot.quantity * ratio, costPerShare: lot.costPerShare / ratio }));
+        break;
+      }
+    }
+  }
+
+  const fifoQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const fifoCostTotal = lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0);
+
+  return {
+    quantity,
+    avgPrice,
+    fifoAvgPrice: fifoQuantity > 0 ? fifoCostTotal / fifoQuantity : 0,
+    realizedGain,
+    fifoRealizedGain,
+    dividendIncome,
+  };
+};
+
+/**
+ * The first sell larger than the shares held at that point, with the shares it found.
+ * computePosition would cap such a sell, so it must be rejected before it is recorded.
+ */
+export const findOversell = (transactions: Transaction[]): { sell: Transaction; held: number } | undefined => {
+  let held = 0;
+  for (const tx of sortTransactions(transactions)) {
+    if (tx.type === TransactionType.BUY) held += tx.quantity;
+    else if (tx.type === TransactionType.SPLIT && (tx.splitRatio ?? 1) > 0) held *= tx.splitRatio ?? 1;
+    else if (tx.type === TransactionType.SELL) {
+      if (tx.quantity > held + 1e-9) return { sell: tx, held };
+      held = Math.max(0, held - tx.quantity);
+    }
+  }
+  return undefined;
+};
+
+export const addTransaction = (ledger: Ledger, tx: Transaction): Ledger => {
+  const ticker = normalizeTicker(tx.ticker);
+  return {
+    ...ledger,
+    [ticker]: [...(ledger[ticker] ?? []), { ...tx, ticker }],
+  };
+};
+
+/**
+ * Merges asset metadata with the ledger into one Holding per ticker.
+ */
+export const deriveHoldings = (assets: StockAsset[], ledger: Ledger): Holding[] =>
+  assets.map(asset => {
+    const transactions = sortTransactions(ledger[normalizeTicker(asset.ticker)] ?? []);
+    return {
+      ...asset,
+      ...computePosition(transactions),
+      transactions,
+    };
+  });
+
+/**
+ * Totals of the holdings converted into the base currency at the current FX rates.
+ */
+export const summarizeHoldings = (holdings: Holding[], fxRates: FxRates, baseCurrency: Currency): PortfolioSummary => {
+  const summary = holdings.reduce((acc, holding) => {
+    const toBase = (amount: number) => convertAmount(amount, holding.currency, baseCurrency, fxRates);
+    const currentVal = toBase(holding.quantity * holding.currentPrice);
+    const costBasis = toBase(holding.quantity * holding.avgPrice);
+    return {
+      ...acc,
+      totalValue: acc.totalValue + currentVal,
+      totalCost: acc.totalCost + costBasis,
+      totalGain: acc.totalGain + (currentVal - costBasis),
+      realizedGain: acc.realizedGain + toBase(holding.realizedGain)
+    };
+  }, { baseCurrency, totalValue: 0, totalCost: 0, totalGain: 0, gainPercentage: 0, realizedGain: 0 });
+
+  summary.gainPercentage = summary.totalCost > 0 ? (summary.totalGain / summary.totalCost) * 100 : 0;
+  return summary;
+};
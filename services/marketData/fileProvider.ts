@@ -0,0 +1,112 @@
+import { MarketDataProvider, PriceHistory, PricePoint, FxRates } from '../../types';
+import { upsertDailyPoint } from '../historyService';
+import { FOREIGN_CURRENCIES, fxPairSymbol } from '../currencyService';
+
+/**
+ * Parses a `date,ticker,price` CSV (header row required, column order free).
+ */
+export const parseMarketDataCsv = (text: string): PriceHistory => {
+  const [headerLine, ...lines] = text.trim().split(/\r?\n/);
+  const header = headerLine.split(',').map(h => h.trim().toLowerCase());
+  const dateIdx = header.indexOf('date');
+  const tickerIdx = header.indexOf('ticker');
+  const priceIdx = header.indexOf('price');
+  if (dateIdx < 0 || tickerIdx < 0 || priceIdx < 0) {
+    throw new Error('Market data CSV must have date, ticker and price columns');
+  }
+
+  const series: PriceHistory = {};
+  for (const line of lines) {
+    const cols = line.split(',').map(c => c.trim());
+    const price = parseFloat(cols[priceIdx]);
+    const ticker = cols[tickerIdx]?.toUpperCase();
+    if (!ticker || !cols[dateIdx] || !isFinite(price)) continue;
+    series[ticker] = upsertDailyPoint<PricePoint>(series[ticker] ?? [], { date: cols[dateIdx], price });
+  }
+  return series;
+};
+
+/**
+ * Parses `{ "series": { "TICKER": [{ "date": "YYYY-MM-DD", "price": 1.23 }, ...] } }`.
+ */
+export const parseMarketDataJson = (text: string): PriceHistory => {
+  const data = JSON.parse(text);
+  const series: PriceHistory = {};
+  for (const [ticker, points] of Object.entries<PricePoint[]>(data?.series ?? {})) {
+    series[ticker.toUpperCase()] = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return series;
+};
+
+const latest = (points: PricePoint[] | undefined) => points?.[points.length - 1]?.price;
+
+// FX rates are stored as pair series, e.g. USDJPY
+const latestFxRates = (series: PriceHistory): Partial<FxRates> => {
+  const rates: Partial<FxRates> = {};
+  for (const currency of FOREIGN_CURRENCIES) {
+    const rate = latest(series[fxPairSymbol(currency)]);
+    if (rate !== undefined) rates[currency] = rate;
+  }
+  return rates;
+};
+
+/**
+ * Serves quotes and history from a static CSV or JSON file.
+ * The latest point of each series is used as the current quote;
+ * FX rates are read from pair series such as USDJPY and EURJPY.
+ */
+export const createFileProvider = (url: string): MarketDataProvider => {
+  let seriesPromise: Promise<PriceHistory> | null = null;
+
+  const loadSeries = () => {
+    if (!seriesPromise) {
+      seriesPromise = fetch(url)
+        .then(res => {
+          if (!res.ok) throw new Error(`Failed to load market data file ${url}: ${res.status}`);
+          return res.text();
+        })
+        .then(text => url.toLowerCase().endsWith('.csv') ? parseMarketDataCsv(text) : parseMarketDataJson(text))
+        .catch(error => {
+          // Allow a retry on the next call
+          seriesPromise = null;
+          throw error;
+        });
+    }
+    return seriesPromise;
+  };
+
+  return {
+    id: 'file',
+    getQuotes: async (instruments) => {
+      try {
+        const series = await loadSeries();
+        const prices: Record<string, number> = {};
+        for (const { ticker } of instruments) {
+          const price = latest(series[ticker.toUpperCase()]);
+          if (price !== undefined) prices[ticker.toUpperCase()] = price;
+        }
+        return { prices, fxRates: latestFxRates(series) };
+      } catch (error) {
+        console.error("Error reading market data file:", error);
+        return null;
+      }
+    },
+    getFxRates: async () => {
+      try {
+        return latestFxRates(await loadSeries());
+      } catch (error) {
+        console.error("Error reading market data file:", error);
+        return null;
+      }
+    },
+    getHistory: async ({ ticker }, from, to) => {
+      try {
+        const points = (await loadSeries())[ticker.toUpperCase()] ?? [];
+        return points.filter(p => p.date >= from && p.date <= to);
+      } catch (error) {
+        console.error("Error reading market data file:", error);
+        return [];
+      }
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import { MarketDataProvider } from '../../types';
+import { updateMarketPrices, fetchPriceHistory } from '../geminiService';
+
+/**
+ * Prices looked up by Gemini with Google Search grounding.
+ */
+export const createGeminiProvider = (): MarketDataProvider => ({
+  id: 'gemini',
+  getQuotes: async (instruments) => {
+    const data = await updateMarketPrices(instruments);
+    if (!data) return null;
+    return { prices: data.prices ?? {}, fxRates: data.fxRates, raw: data.raw };
+  },
+  getFxRates: async () => (await updateMarketPrices([]))?.fxRates ?? null,
+  getHistory: (instrument, from, to) => fetchPriceHistory(instrument, from, to),
+});
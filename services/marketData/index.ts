@@ -0,0 +1,20 @@
+import { MarketDataProvider, MarketDataProviderId } from '../../types';
+import { config } from '../../config';
+import { createGeminiProvider } from './geminiProvider';
+import { createFileProvider } from './fileProvider';
+import { createMockProvider } from './mockProvider';
+
+export const createMarketDataProvider = (id: MarketDataProviderId): MarketDataProvider => {
+  switch (id) {
+    case 'file':
+      return createFileProvider(config.marketDataFile);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider();
+  }
+};
+
+// The provider selected by MARKET_DATA_PROVIDER
+export const marketDataProvider = createMarketDataProvider(config.marketDataProvider);
@@ -0,0 +1,92 @@
+import { Currency, FxRates, MarketDataProvider } from '../../types';
+import { FOREIGN_CURRENCIES, fxPairSymbol } from '../currencyService';
+import { eachDateKey, parseDateKey, toDateKey } from '../../utils/date';
+
+// Rough real-world levels so the demo portfolio looks plausible; other tickers get a hashed base price.
+const BASE_PRICES: Record<string, number> = {
+  ITUB: 7.5,
+  AAPL: 190,
+  MSFT: 420,
+  NVDA: 120,
+  TSLA: 240,
+  GOOGL: 170,
+  AMZN: 185,
+  META: 500,
+  '7203': 2900,
+  '1306': 2700,
+};
+
+const BASE_FX_RATES: Record<Exclude<Currency, Currency.JPY>, number> = {
+  [Currency.USD]: 150,
+  [Currency.EUR]: 162,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// FNV-1a, used to derive a stable seed per ticker
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic noise in [0, 1) for a seed (mulberry32 single step)
+const noise = (seed: number) => {
+  let t = (seed + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const dayIndex = (date: string) => Math.floor(parseDateKey(date).getTime() / DAY_MS);
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Price of a ticker on a date. The same inputs always give the same price,
+ * so the dashboard can be developed and checked without network access.
+ */
+export const mockPriceOn = (ticker: string, date: string): number => {
+  const symbol = ticker.toUpperCase();
+  const seed = hashString(symbol);
+  const base = BASE_PRICES[symbol] ?? 20 + (seed % 48000) / 100;
+  const day = dayIndex(date);
+  const trend = 0.15 * Math.sin(day / 40 + (seed % 17));
+  const jitter = 0.03 * (noise(seed ^ day) - 0.5);
+  return round(base * (1 + trend + jitter), 2);
+};
+
+export const mockFxRatesOn = (date: string): FxRates => {
+  const day = dayIndex(date);
+  const swing = 6 * Math.sin(day / 60) + 0.8 * (noise(day) - 0.5);
+  return {
+    [Currency.JPY]: 1,
+    [Currency.USD]: round(BASE_FX_RATES[Currency.USD] + swing, 2),
+    [Currency.EUR]: round(BASE_FX_RATES[Currency.EUR] + swing * 1.1, 2),
+  };
+};
+
+export const createMockProvider = (): MarketDataProvider => ({
+  id: 'mock',
+  getQuotes: async (instruments) => {
+    const today = toDateKey();
+    return {
+      prices: Object.fromEntries(instruments.map(({ ticker }) => [ticker.toUpperCase(), mockPriceOn(ticker, today)])),
+      fxRates: mockFxRatesOn(today),
+    };
+  },
+  getFxRates: async () => mockFxRatesOn(toDateKey()),
+  // Pair symbols such as USDJPY give the FX rate series
+  getHistory: async ({ ticker }, from, to) => {
+    const pair = FOREIGN_CURRENCIES.find(c => fxPairSymbol(c) === ticker.toUpperCase());
+    return eachDateKey(from, to)
+      .filter(date => {
+        const weekday = parseDateKey(date).getDay();
+        return weekday !== 0 && weekday !== 6;
+      })
+      .map(date => ({ date, price: pair ? mockFxRatesOn(date)[pair] : mockPriceOn(ticker, date) }));
+  },
+});
@@ -0,0 +1,125 @@
+import { Currency, Exchange, StockAsset } from '../types';
+
+interface MarketSession {
+  timeZone: string;
+  // Minutes since local midnight, [open, close)
+  sessions: [number, number][];
+  holidays: Set<string>;
+  // Days the market closes early, with the local close time in minutes
+  earlyCloses?: Record<string, number>;
+}
+
+const hm = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+// Full-day closures, 2025-2027. Extend yearly.
+const US_HOLIDAYS = new Set([
+  '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26',
+  '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+  '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19',
+  '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+  '2027-01-01', '2027-01-18', '2027-02-15', '2027-03-26', '2027-05-31', '2027-06-18',
+  '2027-07-05', '2027-09-06', '2027-11-25', '2027-12-24',
+]);
+
+const US_EARLY_CLOSES: Record<string, number> = {
+  '2025-07-03': hm(13), '2025-11-28': hm(13), '2025-12-24': hm(13),
+  '2026-11-27': hm(13), '2026-12-24': hm(13),
+  '2027-11-26': hm(13),
+};
+
+// 東証の休業日 (土日を除く)
+const JP_HOLIDAYS = new Set([
+  '2025-01-01', '2025-01-02', '2025-01-03', '2025-01-13', '2025-02-11', '2025-02-24',
+  '2025-03-20', '2025-04-29', '2025-05-05', '2025-05-06', '2025-07-21', '2025-08-11',
+  '2025-09-15', '2025-09-23', '2025-10-13', '2025-11-03', '2025-11-24', '2025-12-31',
+  '2026-01-01', '2026-01-02', '2026-01-12', '2026-02-11', '2026-02-23', '2026-03-20',
+  '2026-04-29', '2026-05-04', '2026-05-05', '2026-05-06', '2026-07-20', '2026-08-11',
+  '2026-09-21', '2026-09-22', '2026-09-23', '2026-10-12', '2026-11-03', '2026-11-23',
+  '2026-12-31',
+  '2027-01-01', '2027-01-11', '2027-02-11', '2027-02-23', '2027-03-22', '2027-04-29',
+  '2027-05-03', '2027-05-04', '2027-05-05', '2027-07-19', '2027-08-11', '2027-09-20',
+  '2027-09-23', '2027-10-11', '2027-11-03', '2027-11-23', '2027-12-31',
+]);
+
+const US_MARKET: MarketSession = {
+  timeZone: 'America/New_York',
+  sessions: [[hm(9, 30), hm(16)]],
+  holidays: US_HOLIDAYS,
+  earlyCloses: US_EARLY_CLOSES,
+};
+
+// European exchanges only skip weekends; their holidays are not tracked
+const MARKETS: Record<Exchange, MarketSession> = {
+  [Exchange.NYSE]: US_MARKET,
+  [Exchange.NASDAQ]: US_MARKET,
+  [Exchange.TSE]: {
+    timeZone: 'Asia/Tokyo',
+    // 前場・後場 (2024年11月から大引けは15:30)
+    sessions: [[hm(9), hm(11, 30)], [hm(12, 30), hm(15, 30)]],
+    holidays: JP_HOLIDAYS,
+  },
+  [Exchange.XETRA]: { timeZone: 'Europe/Berlin', sessions: [[hm(9), hm(17, 30)]], holidays: new Set() },
+  [Exchange.EURONEXT]: { timeZone: 'Europe/Paris', sessions: [[hm(9), hm(17, 30)]], holidays: new Set() },
+};
+
+const DEFAULT_EXCHANGES: Record<Currency, Exchange> = {
+  [Currency.USD]: Exchange.NYSE,
+  [Currency.JPY]: Exchange.TSE,
+  [Currency.EUR]: Exchange.XETRA,
+};
+
+// Assets saved before exchanges were recorded are assumed to trade on their currency's main market
+export const assetExchange = (asset: Pick<StockAsset, 'exchange' | 'currency'>): Exchange =>
+  asset.exchange ?? DEFAULT_EXCHANGES[asset.currency];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const localParts = (timeZone: string, at: number) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(at).map(p => [p.type, p.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    isWeekend: parts.weekday === 'Sat' || parts.weekday === 'Sun',
+  };
+};
+
+export const isMarketOpen = (exchange: Exchange, at: number = Date.now()): boolean => {
+  const market = MARKETS[exchange];
+  const { date, minutes, isWeekend } = localParts(market.timeZone, at);
+  if (isWeekend || market.holidays.has(date)) return false;
+  const earlyClose = market.earlyCloses?.[date];
+  return market.sessions.some(([open, close]) =>
+    minutes >= open && minutes < Math.min(close, earlyClose ?? close)
+  );
+};
+
+export const isAnyMarketOpen = (exchanges: Exchange[], at: number = Date.now()) =>
+  exchanges.some(e => isMarketOpen(e, at));
+
+const STEP_MS = 5 * 60 * 1000;
+const SEARCH_LIMIT_MS = 10 * 24 * 60 * 60 * 1000;
+
+/**
+ * First time at or after `from` when any of the exchanges is trading, to 5-minute precision.
+ * All session boundaries fall on 5-minute marks, so stepping finds them exactly.
+ * Returns undefined when none opens within ten days (or no exchanges are given).
+ */
+export const nextMarketOpen = (exchanges: Exchange[], from: number = Date.now()): number | undefined => {
+  if (exchanges.length === 0) return undefined;
+  if (isAnyMarketOpen(exchanges, from)) return from;
+  const start = Math.ceil(from / STEP_MS) * STEP_MS;
+  for (let at = start; at <= from + SEARCH_LIMIT_MS; at += STEP_MS) {
+    if (isAnyMarketOpen(exchanges, at)) return at;
+  }
+  return undefined;
+};
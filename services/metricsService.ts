@@ -0,0 +1,170 @@
+import {
+  AllocationDimension,
+  AllocationSlice,
+  ConcentrationWarning,
+  Currency,
+  FxRates,
+  Holding,
+  PortfolioMetrics,
+  PriceHistory,
+  RiskMetrics,
+} from '../types';
+import { EXCHANGE_COUNTRIES, convertAmount } from './currencyService';
+import { normalizeTicker, summarizeHoldings } from './ledgerService';
+import { DailyValue, tradingDayIndex } from './performanceService';
+import { BENCHMARKS, RISK_FREE_RATES } from './benchmarkService';
+import { betaOf, covariance } from '../utils/stats';
+
+/**
+ * Allocation, concentration and risk figures of a group of holdings, in the
+ * base currency. Shown in the analytics panel and returned by the chat's
+ * compute_metrics tool.
+ */
+
+// Beta is measured against the S&P 500
+export const RISK_BENCHMARK = BENCHMARKS.SP500;
+
+export const ALLOCATION_DIMENSION_LABELS: Record<AllocationDimension, string> = {
+  holding: '銘柄',
+  sector: 'セクター',
+  country: '国・地域',
+  source: 'AIソース',
+};
+
+// Warn above these weights (percent); country and AI source are left to the user
+const CONCENTRATION_LIMITS: Partial<Record<AllocationDimension, number>> = {
+  holding: 25,
+  sector: 40,
+};
+
+const TRADING_DAYS = 252;
+
+// Fewer daily returns than this give no risk figures
+const MIN_OBSERVATIONS = 20;
+
+const UNCLASSIFIED = '未分類';
+
+export const countryOf = (holding: Pick<Holding, 'country' | 'exchange'>) =>
+  holding.country?.trim() || (holding.exchange && EXCHANGE_COUNTRIES[holding.exchange]) || '不明';
+
+const GROUP_KEYS: Record<AllocationDimension, (holding: Holding) => string> = {
+  holding: h => normalizeTicker(h.ticker),
+  sector: h => h.sector?.trim() || UNCLASSIFIED,
+  country: countryOf,
+  source: h => h.source,
+};
+
+/**
+ * Value of the open positions grouped by one dimension, largest first.
+ * The all-accounts view can hold a ticker in several portfolios; it is counted once.
+ */
+export const computeAllocation = (
+  holdings: Holding[],
+  dimension: AllocationDimension,
+  fxRates: FxRates,
+  baseCurrency: Currency
+): AllocationSlice[] => {
+  const values = new Map<string, number>();
+  for (const h of holdings) {
+    if (h.quantity <= 0) continue;
+    const key = GROUP_KEYS[dimension](h);
+    values.set(key, (values.get(key) ?? 0) + convertAmount(h.quantity * h.currentPrice, h.currency, baseCurrency, fxRates));
+  }
+  const total = [...values.values()].reduce((sum, v) => sum + v, 0);
+  return [...values]
+    .map(([key, value]) => ({ key, label: key, value, weightPercent: total > 0 ? (value / total) * 100 : 0 }))
+    .sort((a, b) => b.value - a.value);
+};
+
+export const concentrationWarnings = (allocation: Record<AllocationDimension, AllocationSlice[]>): ConcentrationWarning[] =>
+  (Object.keys(CONCENTRATION_LIMITS) as AllocationDimension[]).flatMap(dimension => {
+    const limitPercent = CONCENTRATION_LIMITS[dimension]!;
+    return allocation[dimension]
+      .filter(slice => slice.key !== UNCLASSIFIED && slice.weightPercent > limitPercent)
+      .map(slice => ({ dimension, label: slice.label, weightPercent: slice.weightPercent, limitPercent }));
+  });
+
+/**
+ * Volatility, drawdown, beta and Sharpe ratio of the time-weighted daily returns.
+ * Only days with a recorded price of a held ticker count as trading days.
+ * `values` are at today's FX rates, so currency moves are not part of the risk.
+ */
+export const computeRiskMetrics = (
+  holdings: Holding[],
+  values: DailyValue[],
+  priceHistory: PriceHistory,
+  baseCurrency: Currency
+): RiskMetrics => {
+  const riskFreeRate = RISK_FREE_RATES[baseCurrency];
+  const empty: RiskMetrics = { observations: 0, benchmark: RISK_BENCHMARK.instrument.ticker, riskFreeRate };
+
+  const points = tradingDayIndex(values, holdings, priceHistory);
+  if (points.length <= MIN_OBSERVATIONS) return empty;
+
+  const returns = points.slice(1).map((p, i) => p.index / points[i].index - 1);
+  const volatility = Math.sqrt(covariance(returns, returns) * TRADING_DAYS);
+  const annualizedReturn = Math.pow(points[points.length - 1].index / points[0].index, TRADING_DAYS / returns.length) - 1;
+
+  let peak = points[0].index;
+  let maxDrawdown = 0;
+  for (const { index: value } of points) {
+    peak = Math.max(peak, value);
+    maxDrawdown = Math.min(maxDrawdown, value / peak - 1);
+  }
+
+  // Beta over the intervals where the benchmark has a price at both ends
+  const benchmarkPrices = new Map((priceHistory[RISK_BENCHMARK.instrument.ticker] ?? []).map(p => [p.date, p.price]));
+  const paired: [number, number][] = [];
+  points.slice(1).forEach((p, i) => {
+    const start = benchmarkPrices.get(points[i].date);
+    const end = benchmarkPrices.get(p.date);
+    if (start && end) paired.push([returns[i], end / start - 1]);
+  });
+
+  return {
+    ...empty,
+    from: points[1].date,
+    to: points[points.length - 1].date,
+    observations: returns.length,
+    volatility,
+    annualizedReturn,
+    maxDrawdown,
+    beta: paired.length > MIN_OBSERVATIONS ? betaOf(paired.map(([r]) => r), paired.map(([, b]) => b)) : undefined,
+    sharpe: volatility > 0 ? (annualizedReturn - riskFreeRate) / volatility : undefined,
+  };
+};
+
+/**
+ * Everything the analytics panel shows, plus totals and per-holding weights.
+ */
+export const computePortfolioMetrics = (
+  holdings: Holding[],
+  values: DailyValue[],
+  priceHistory: PriceHistory,
+  fxRates: FxRates,
+  baseCurrency: Currency
+): PortfolioMetrics => {
+  const summary = summarizeHoldings(holdings, fxRates, baseCurrency);
+  const toBase = (amount: number, currency: Currency) => convertAmount(amount, currency, baseCurrency, fxRates);
+  const allocation = Object.fromEntries(
+    (Object.keys(ALLOCATION_DIMENSION_LABELS) as AllocationDimension[]).map(d => [d, computeAllocation(holdings, d, fxRates, baseCurrency)])
+  ) as Record<AllocationDimension, AllocationSlice[]>;
+
+  return {
+    ...summary,
+    dividendIncome: holdings.reduce((sum, h) => sum + toBase(h.dividendIncome, h.currency), 0),
+    holdings: holdings.map(h => {
+      const value = toBase(h.quantity * h.currentPrice, h.currency);
+      return {
+        ticker: h.ticker,
+        value,
+        weightPercent: summary.totalValue > 0 ? (value / summary.totalValue) * 100 : 0,
+        gainPercent: h.avgPrice > 0 ? ((h.currentPrice - h.avgPrice) / h.avgPrice) * 100 : 0,
+        realizedGain: toBase(h.realizedGain, h.currency),
+      };
+    }),
+    allocation,
+    warnings: concentrationWarnings(allocation),
+    risk: computeRiskMetrics(holdings, values, priceHistory, baseCurrency),
+  };
+};
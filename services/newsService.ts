@@ -0,0 +1,119 @@
+import { NewsCache, NewsItem, NewsSentiment, NewsWindow } from '../types';
+import { normalizeTicker } from './ledgerService';
+import { toDateKey } from '../utils/date';
+
+/**
+ * Sentiment helpers and the news cache. Stories are cached per ticker and
+ * window, so adding a holding only fetches news for the new ticker.
+ */
+
+export const NEWS_WINDOWS: Record<NewsWindow, { label: string; days: number; ttlMinutes: number }> = {
+  '1D': { label: '24時間', days: 1, ttlMinutes: 60 },
+  '1W': { label: '1週間', days: 7, ttlMinutes: 6 * 60 },
+};
+
+export const EMPTY_NEWS_CACHE: NewsCache = { entries: {}, readIds: [] };
+
+// Stories kept per ticker and window across refreshes, newest first
+const MAX_CACHED_PER_TICKER = 6;
+
+// Entries of tickers no longer held are dropped after this long
+const ENTRY_RETENTION_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SENTIMENT_LABELS: Record<NewsSentiment, string> = {
+  positive: 'ポジティブ',
+  neutral: '中立',
+  negative: 'ネガティブ',
+};
+
+// Scores within this distance of zero count as neutral
+const NEUTRAL_BAND = 0.2;
+
+export const sentimentOf = (score: number): NewsSentiment =>
+  score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral';
+
+/**
+ * Average sentiment of the stories about each ticker, for stories that were scored.
+ */
+export const sentimentByTicker = (news: NewsItem[]): Map<string, number> => {
+  const scores = new Map<string, number[]>();
+  for (const item of news) {
+    if (!item.ticker || item.sentiment === undefined) continue;
+    const key = normalizeTicker(item.ticker);
+    scores.set(key, [...(scores.get(key) ?? []), item.sentiment]);
+  }
+  return new Map([...scores].map(([ticker, values]) => [ticker, values.reduce((sum, v) => sum + v, 0) / values.length]));
+};
+
+export const newsCacheKey = (ticker: string, newsWindow: NewsWindow) => `${normalizeTicker(ticker)}:${newsWindow}`;
+
+// Headlines are compared without spacing and punctuation, since the same story is reworded slightly between fetches
+export const newsIdOf = (item: NewsItem) =>
+  `${item.ticker ? normalizeTicker(item.ticker) : ''}:${item.headline.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '')}`;
+
+const isFresh = (cache: NewsCache, key: string, newsWindow: NewsWindow, now: number) => {
+  const entry = cache.entries[key];
+  return !!entry && now - entry.fetchedAt < NEWS_WINDOWS[newsWindow].ttlMinutes * 60 * 1000;
+};
+
+/**
+ * Tickers with no entry for the window, or one older than the window's TTL.
+ */
+export const staleNewsTickers = (cache: NewsCache, tickers: string[], newsWindow: NewsWindow, now: number = Date.now()) =>
+  [...new Set(tickers.map(normalizeTicker))].filter(ticker => !isFresh(cache, newsCacheKey(ticker, newsWindow), newsWindow, now));
+
+/**
+ * Adds a fetch for `tickers` to the cache. Stories already cached for a ticker
+ * are kept unless the new fetch repeats them (same headline or link) or they
+ * fell out of the window. Stories without a ticker can only be placed when one
+ * ticker was requested.
+ */
+export const mergeNews = (
+  cache: NewsCache,
+  tickers: string[],
+  newsWindow: NewsWindow,
+  items: NewsItem[],
+  now: number = Date.now()
+): NewsCache => {
+  const requested = [...new Set(tickers.map(normalizeTicker))];
+  const oldest = toDateKey(now - NEWS_WINDOWS[newsWindow].days * DAY_MS);
+  const entries = Object.fromEntries(
+    Object.entries(cache.entries).filter(([, entry]) => now - entry.fetchedAt < ENTRY_RETENTION_DAYS * DAY_MS)
+  );
+
+  for (const ticker of requested) {
+    const key = newsCacheKey(ticker, newsWindow);
+    const fetched = items
+      .map(item => item.ticker ? item : requested.length === 1 ? { ...item, ticker } : item)
+      .filter(item => item.ticker && normalizeTicker(item.ticker) === ticker);
+    const ids = new Set(fetched.map(newsIdOf));
+    const urls = new Set(fetched.flatMap(item => item.url ? [item.url] : []));
+    const kept = (entries[key]?.items ?? []).filter(item => !ids.has(newsIdOf(item)) && !(item.url && urls.has(item.url)));
+    entries[key] = {
+      fetchedAt: now,
+      items: [...fetched, ...kept]
+        .filter(item => !item.publishedAt || item.publishedAt >= oldest)
+        .slice(0, MAX_CACHED_PER_TICKER),
+    };
+  }
+
+  // Read markers of stories that left the cache are no longer needed
+  const cachedIds = new Set(Object.values(entries).flatMap(entry => entry.items.map(newsIdOf)));
+  return { entries, readIds: cache.readIds.filter(id => cachedIds.has(id)) };
+};
+
+/**
+ * Cached stories of the tickers for the window, newest first; undated stories go last.
+ */
+export const cachedNews = (cache: NewsCache, tickers: string[], newsWindow: NewsWindow): NewsItem[] =>
+  [...new Set(tickers.map(normalizeTicker))]
+    .flatMap(ticker => cache.entries[newsCacheKey(ticker, newsWindow)]?.items ?? [])
+    .sort((a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''));
+
+// Latest fetch among the tickers, for the "last fetched" label
+export const lastNewsFetch = (cache: NewsCache, tickers: string[], newsWindow: NewsWindow): number | undefined => {
+  const times = tickers.flatMap(ticker => cache.entries[newsCacheKey(ticker, newsWindow)]?.fetchedAt ?? []);
+  return times.length > 0 ? Math.max(...times) : undefined;
+};
@@ -0,0 +1,25 @@
+/**
+ * Browser notifications for alerts. Silently does nothing when the
+ * Notification API is unavailable or permission was denied.
+ */
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  isNotificationSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!isNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+export const showNotification = (title: string, body: string, tag?: string) => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn("Failed to show notification", error);
+  }
+};
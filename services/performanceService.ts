@@ -0,0 +1,236 @@
+import { AISource, Currency, EquityCurvePoint, FxRates, Holding, PriceHistory, SourcePerformance, Transaction, TransactionType } from '../types';
+import { normalizeTicker, sortTransactions } from './ledgerService';
+import { convertAmount } from './currencyService';
+import { fxRatesOn, knownPrices } from './historyService';
+import { eachDateKey, parseDateKey, toDateKey } from '../utils/date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Net money put into the position on a trade (buys positive, sells and dividends negative)
+const cashFlow = (tx: Transaction): number => {
+  const fees = tx.fees ?? 0;
+  switch (tx.type) {
+    case TransactionType.BUY:
+      return tx.quantity * tx.price + fees;
+    case TransactionType.SELL:
+      return -(tx.quantity * tx.price - fees);
+    case TransactionType.DIVIDEND:
+      return -((tx.amount ?? 0) - fees);
+    default:
+      return 0;
+  }
+};
+
+// Shares held after a transaction, counted the way computePosition does
+const quantityAfter = (quantity: number, tx: Transaction): number => {
+  switch (tx.type) {
+    case TransactionType.BUY:
+      return quantity + tx.quantity;
+    case TransactionType.SELL: {
+      const remaining = quantity - Math.min(tx.quantity, quantity);
+      return remaining <= 1e-9 ? 0 : remaining;
+    }
+    case TransactionType.SPLIT: {
+      const ratio = tx.splitRatio ?? 1;
+      return ratio > 0 ? quantity * ratio : quantity;
+    }
+    default:
+      return quantity;
+  }
+};
+
+export interface DailyValue {
+  date: string;
+  value: number;
+  flow: number;
+}
+
+/**
+ * Daily market value and net cash flow of a group of holdings, in the base currency.
+ * Prices are carried forward over days without a known price. Amounts are converted
+ * at today's rates unless `ratesOn` gives the rates of each day.
+ */
+export const dailyValues = (
+  holdings: Holding[],
+  priceHistory: PriceHistory,
+  fxRates: FxRates,
+  baseCurrency: Currency,
+  today: string = toDateKey(),
+  ratesOn: (date: string) => FxRates = () => fxRates
+): DailyValue[] => {
+  const firstTrade = holdings
+    .flatMap(h => h.transactions.map(tx => tx.date))
+    .sort()[0];
+  if (!firstTrade) return [];
+
+  const dates = eachDateKey(firstTrade, today);
+  const totals = dates.map(date => ({ date, value: 0, flow: 0 }));
+
+  for (const holding of holdings) {
+    const prices = knownPrices(holding, priceHistory[normalizeTicker(holding.ticker)] ?? []);
+    const transactions = sortTransactions(holding.transactions);
+    const toBase = (amount: number, date: string) => convertAmount(amount, holding.currency, baseCurrency, ratesOn(date));
+    let priceIdx = 0;
+    let lastPrice: number | undefined;
+    // Transactions are replayed as the days advance, so each one is applied once
+    let txIdx = 0;
+    let quantity = 0;
+
+    totals.forEach(total => {
+      while (priceIdx < prices.length && prices[priceIdx].date <= total.date) {
+        lastPrice = prices[priceIdx].price;
+        priceIdx++;
+      }
+      let flow = 0;
+      while (txIdx < transactions.length && transactions[txIdx].date <= total.date) {
+        quantity = quantityAfter(quantity, transactions[txIdx]);
+        flow += cashFlow(transactions[txIdx]);
+        txIdx++;
+      }
+      total.value += toBase(quantity * (lastPrice ?? 0), total.date);
+      total.flow += toBase(flow, total.date);
+    });
+  }
+  return totals;
+};
+
+// Holdings of an AI source that have any transactions
+export const picksOf = (holdings: Holding[], source: AISource) =>
+  holdings.filter(h => h.source === source && h.transactions.length > 0);
+
+export interface DailyValueSeries {
+  portfolio: DailyValue[];
+  // Only sources with picks have an entry
+  sources: Partial<Record<AISource, DailyValue[]>>;
+}
+
+export interface PerformanceSeries {
+  // At today's FX rates, so currency moves are not part of the risk metrics or the leaderboard
+  atCurrentRates: DailyValueSeries;
+  // At each day's FX rates, like the benchmarks they are compared with
+  atDailyRates: DailyValueSeries;
+}
+
+/**
+ * Daily values of the holdings and of each AI source's picks. Computed once
+ * for the dashboard and shared by the leaderboard, analytics and benchmark panels.
+ */
+export const computePerformanceSeries = (
+  holdings: Holding[],
+  priceHistory: PriceHistory,
+  fxRates: FxRates,
+  baseCurrency: Currency,
+  today: string = toDateKey()
+): PerformanceSeries => {
+  const seriesAt = (ratesOn?: (date: string) => FxRates): DailyValueSeries => ({
+    portfolio: dailyValues(holdings, priceHistory, fxRates, baseCurrency, today, ratesOn),
+    sources: Object.fromEntries(Object.values(AISource).flatMap(source => {
+      const picks = picksOf(holdings, source);
+      return picks.length > 0 ? [[source, dailyValues(picks, priceHistory, fxRates, baseCurrency, today, ratesOn)]] : [];
+    })),
+  });
+  return { atCurrentRates: seriesAt(), atDailyRates: seriesAt(fxRatesOn(priceHistory, fxRates)) };
+};
+
+/**
+ * Chains daily returns with each day's cash flow removed, so deposits and
+ * withdrawals don't count as performance. Returns the growth of 100 per day.
+ */
+export const timeWeightedIndex = (values: DailyValue[]): { date: string; index: number }[] => {
+  let index = 100;
+  let previous = 0;
+  return values.map(({ date, value, flow }) => {
+    if (previous > 0) {
+      index *= (value - flow) / previous;
+    }
+    previous = value;
+    return { date, index };
+  });
+};
+
+/**
+ * The time-weighted index on trading days only: days with a recorded price of one
+ * of the holdings while something was held. Carried-forward weekend values would
+ * otherwise count as days without movement.
+ */
+export const tradingDayIndex = (
+  values: DailyValue[],
+  holdings: Holding[],
+  priceHistory: PriceHistory
+): { date: string; index: number }[] => {
+  const priceDates = new Set(holdings.flatMap(h => (priceHistory[normalizeTicker(h.ticker)] ?? []).map(p => p.date)));
+  return timeWeightedIndex(values).filter((p, i) => values[i].value > 0 && priceDates.has(p.date));
+};
+
+const holdingPeriodDays = (holding: Holding, today: string): number => {
+  const trades = holding.transactions.filter(tx => tx.type === TransactionType.BUY || tx.type === TransactionType.SELL);
+  if (trades.length === 0) return 0;
+  const start = trades[0].date;
+  const end = holding.quantity > 0 ? today : trades[trades.length - 1].date;
+  return Math.max(0, (parseDateKey(end).getTime() - parseDateKey(start).getTime()) / DAY_MS);
+};
+
+/**
+ * Leaderboard rows for every AI source that has at least one pick, best TWR first.
+ */
+export const computeSourcePerformance = (
+  holdings: Holding[],
+  sourceValues: DailyValueSeries['sources'],
+  fxRates: FxRates,
+  baseCurrency: Currency,
+  today: string = toDateKey()
+): SourcePerformance[] => {
+  const rows: SourcePerformance[] = [];
+
+  for (const source of Object.values(AISource)) {
+    const picks = picksOf(holdings, source);
+    if (picks.length === 0) continue;
+
+    let invested = 0;
+    let totalReturn = 0;
+    let wins = 0;
+    for (const h of picks) {
+      const toBase = (amount: number) => convertAmount(amount, h.currency, baseCurrency, fxRates);
+      const cost = h.transactions
+        .filter(tx => tx.type === TransactionType.BUY)
+        .reduce((sum, tx) => sum + tx.quantity * tx.price + (tx.fees ?? 0), 0);
+      const pickReturn = h.quantity * (h.currentPrice - h.avgPrice) + h.realizedGain + h.dividendIncome;
+      invested += toBase(cost);
+      totalReturn += toBase(pickReturn);
+      if (pickReturn > 0) wins++;
+    }
+
+    const index = timeWeightedIndex(sourceValues[source] ?? []);
+
+    rows.push({
+      source,
+      picks: picks.length,
+      openPositions: picks.filter(h => h.quantity > 0).length,
+      invested,
+      totalReturn,
+      returnPercentage: invested > 0 ? (totalReturn / invested) * 100 : 0,
+      winRate: wins / picks.length,
+      avgHoldingDays: picks.reduce((sum, h) => sum + holdingPeriodDays(h, today), 0) / picks.length,
+      timeWeightedReturn: index.length > 0 ? index[index.length - 1].index / 100 - 1 : 0,
+    });
+  }
+
+  return rows.sort((a, b) => b.timeWeightedReturn - a.timeWeightedReturn);
+};
+
+/**
+ * Time-weighted growth of 100 for each AI source, merged by date for charting.
+ */
+export const computeSourceEquityCurves = (sourceValues: DailyValueSeries['sources']): EquityCurvePoint[] => {
+  const byDate = new Map<string, EquityCurvePoint>();
+  for (const source of Object.values(AISource)) {
+    const values = sourceValues[source];
+    if (!values) continue;
+    for (const { date, index } of timeWeightedIndex(values)) {
+      const point = byDate.get(date) ?? { date };
+      point[source] = Number(index.toFixed(2));
+      byDate.set(date, point);
+    }
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,70 @@
+import { PickOutcome, PickRationale, PickVerdict, PricePoint, TimeHorizon } from '../types';
+import { parseDateKey, toDateKey } from '../utils/date';
+
+export const HORIZON_DAYS: Record<TimeHorizon, number> = {
+  [TimeHorizon.SHORT]: 90,
+  [TimeHorizon.MEDIUM]: 365,
+  [TimeHorizon.LONG]: 365 * 3,
+};
+
+export const HORIZON_LABELS: Record<TimeHorizon, string> = {
+  [TimeHorizon.SHORT]: '短期 (〜3ヶ月)',
+  [TimeHorizon.MEDIUM]: '中期 (〜1年)',
+  [TimeHorizon.LONG]: '長期 (〜3年)',
+};
+
+export const VERDICT_LABELS: Record<PickVerdict, string> = {
+  target_hit: '目標到達',
+  stopped_out: '損切りライン到達',
+  expired_gain: '期間満了 (利益)',
+  expired_loss: '期間満了 (損失)',
+  open: '検証中',
+};
+
+const addDays = (date: string, days: number) => {
+  const d = parseDateKey(date);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+};
+
+/**
+ * Checks a pick's thesis against the prices seen since it was recommended.
+ * Whichever of target or stop-loss was reached first decides the verdict;
+ * otherwise the pick is judged by its return once the horizon has passed.
+ */
+export const evaluatePick = (
+  pick: PickRationale,
+  prices: PricePoint[],
+  currentPrice: number,
+  today: string = toDateKey()
+): PickOutcome => {
+  const since = prices.filter(p => p.date >= pick.recommendedAt);
+  const priceAtRecommendation = since[0]?.price;
+  const horizonEndsOn = pick.horizon ? addDays(pick.recommendedAt, HORIZON_DAYS[pick.horizon]) : undefined;
+  // Only prices inside the horizon count towards target/stop
+  const inHorizon = horizonEndsOn ? since.filter(p => p.date <= horizonEndsOn) : since;
+
+  const targetHitOn = pick.targetPrice !== undefined
+    ? inHorizon.find(p => p.price >= pick.targetPrice!)?.date
+    : undefined;
+  const stopHitOn = pick.stopLoss !== undefined
+    ? inHorizon.find(p => p.price <= pick.stopLoss!)?.date
+    : undefined;
+
+  const returnSinceRecommendation = priceAtRecommendation
+    ? (currentPrice - priceAtRecommendation) / priceAtRecommendation
+    : undefined;
+
+  let verdict: PickVerdict = 'open';
+  if (targetHitOn && (!stopHitOn || targetHitOn <= stopHitOn)) {
+    verdict = 'target_hit';
+  } else if (stopHitOn) {
+    verdict = 'stopped_out';
+  } else if (horizonEndsOn && today > horizonEndsOn) {
+    // Judge by the last price inside the horizon, not today's
+    const priceAtHorizonEnd = inHorizon[inHorizon.length - 1]?.price ?? currentPrice;
+    verdict = priceAtRecommendation && priceAtHorizonEnd > priceAtRecommendation ? 'expired_gain' : 'expired_loss';
+  }
+
+  return { verdict, priceAtRecommendation, returnSinceRecommendation, targetHitOn, stopHitOn, horizonEndsOn };
+};
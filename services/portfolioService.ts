@@ -0,0 +1,79 @@
+import type { SetStateAction } from 'react';
+import { Holding, Ledger, Portfolio, PortfolioHistoryItem, PortfolioKind, PortfolioMap, StockAsset } from '../types';
+import { deriveHoldings } from './ledgerService';
+import { createId } from '../utils/id';
+
+// Data from before portfolios existed is kept under this id
+export const DEFAULT_PORTFOLIO_ID = 'default';
+
+// Selection value for the aggregated view across portfolios
+export const ALL_PORTFOLIOS = 'all';
+
+export const DEFAULT_PORTFOLIOS: Portfolio[] = [
+  { id: DEFAULT_PORTFOLIO_ID, name: 'メイン口座', kind: PortfolioKind.TAXABLE, createdAt: 0 },
+];
+
+export const PORTFOLIO_KIND_LABELS: Record<PortfolioKind, string> = {
+  [PortfolioKind.TAXABLE]: '課税口座',
+  [PortfolioKind.NISA]: 'NISA',
+  [PortfolioKind.PAPER]: 'ペーパー',
+};
+
+export const createPortfolio = (name: string, kind: PortfolioKind): Portfolio => ({
+  id: createId(),
+  name: name.trim(),
+  kind,
+  createdAt: Date.now(),
+});
+
+// Paper portfolios are sandboxes, so the all-accounts view leaves them out
+export const countsTowardTotal = (portfolio: Portfolio) => portfolio.kind !== PortfolioKind.PAPER;
+
+/**
+ * Applies a state update to one portfolio's entry, so per-portfolio maps can
+ * be updated with the same setter style as a single value.
+ */
+export const updatePortfolioEntry = <T>(
+  map: PortfolioMap<T>,
+  portfolioId: string,
+  update: SetStateAction<T>,
+  fallback: T
+): PortfolioMap<T> => {
+  const current = map[portfolioId] ?? fallback;
+  const next = typeof update === 'function' ? (update as (prev: T) => T)(current) : update;
+  return { ...map, [portfolioId]: next };
+};
+
+export const holdingsOf = (
+  portfolio: Portfolio,
+  assets: PortfolioMap<StockAsset[]>,
+  ledgers: PortfolioMap<Ledger>
+): Holding[] => deriveHoldings(assets[portfolio.id] ?? [], ledgers[portfolio.id] ?? {});
+
+/**
+ * Holdings of every counted portfolio, tagged with their portfolio.
+ * The same ticker held in two accounts stays two rows.
+ */
+export const aggregateHoldings = (
+  portfolios: Portfolio[],
+  assets: PortfolioMap<StockAsset[]>,
+  ledgers: PortfolioMap<Ledger>
+): Holding[] =>
+  portfolios.filter(countsTowardTotal).flatMap(portfolio =>
+    holdingsOf(portfolio, assets, ledgers).map(h => ({ ...h, portfolioId: portfolio.id, portfolioName: portfolio.name }))
+  );
+
+/**
+ * Sums daily snapshots of several portfolios. Each day keeps the FX rates of
+ * the first snapshot recorded for it; all portfolios are recorded together.
+ */
+export const combineSnapshots = (series: PortfolioHistoryItem[][]): PortfolioHistoryItem[] => {
+  const byDate = new Map<string, PortfolioHistoryItem>();
+  for (const item of series.flat()) {
+    const existing = byDate.get(item.date);
+    byDate.set(item.date, existing
+      ? { ...existing, value: existing.value + item.value, costBasis: existing.costBasis + item.costBasis }
+      : item);
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,131 @@
+import { Currency, FxRates, InstrumentType, PriceHistory, StockAsset, Transaction, TransactionType } from '../types';
+import { fxPairSymbol } from './currencyService';
+import { config } from '../config';
+import { parseDateKey } from '../utils/date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anything above this is treated as a parsing/hallucination error rather than a real price
+const MAX_PLAUSIBLE_PRICE = 1_000_000;
+
+export type QuoteCheck =
+  | { status: 'accepted'; price: number }
+  | { status: 'flagged'; price: number; reason: string }
+  | { status: 'rejected'; reason: string };
+
+/**
+ * Largest move accepted without review. Volatility grows roughly with the
+ * square root of time, so a quote after several days without a refresh may move further.
+ */
+export const maxAllowedMovePercent = (asset: StockAsset, now: number = Date.now(), since: number = asset.lastUpdated) => {
+  const daily = config.priceValidation.maxDailyMovePercent[asset.instrumentType ?? InstrumentType.STOCK];
+  const days = Math.max(1, (now - since) / DAY_MS);
+  return daily * Math.sqrt(days);
+};
+
+// The latest buy in the asset's transactions
+const lastPurchaseOf = (transactions: Transaction[]) =>
+  transactions
+    .filter(tx => tx.type === TransactionType.BUY && tx.price > 0)
+    .reduce<Transaction | undefined>((latest, tx) => !latest || tx.date >= latest.date ? tx : latest, undefined);
+
+// A provider's quote as a positive number; numbers written as strings are accepted
+export const parseQuote = (value: unknown): number | undefined => {
+  const price = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof price === 'number' && isFinite(price) && price > 0 ? price : undefined;
+};
+
+/**
+ * Sanity-checks a quote returned by a market data provider against the asset's previous price.
+ * A new asset's first quote is checked against its latest purchase price instead, with a wider
+ * range since the purchase may be from any date.
+ */
+export const validateQuote = (asset: StockAsset, value: unknown, transactions: Transaction[] = [], now: number = Date.now()): QuoteCheck => {
+  const price = parseQuote(value);
+  if (price === undefined) {
+    return { status: 'rejected', reason: `数値として解釈できない価格です: ${JSON.stringify(value)}` };
+  }
+  if (price > MAX_PLAUSIBLE_PRICE) {
+    return { status: 'flagged', price, reason: '価格が現実的な範囲を超えています' };
+  }
+
+  if (asset.awaitingQuote) {
+    const purchase = lastPurchaseOf(transactions);
+    if (purchase) {
+      const movePercent = Math.abs(price - purchase.price) / purchase.price * 100;
+      const allowed = maxAllowedMovePercent(asset, now, parseDateKey(purchase.date).getTime()) * config.priceValidation.firstQuoteToleranceFactor;
+      if (movePercent > allowed) {
+        return {
+          status: 'flagged',
+          price,
+          reason: `購入単価からの変動が ${movePercent.toFixed(1)}% で、許容範囲 (${allowed.toFixed(1)}%) を超えています`,
+        };
+      }
+    }
+    return { status: 'accepted', price };
+  }
+
+  const previous = asset.currentPrice;
+  if (previous > 0) {
+    const movePercent = Math.abs(price - previous) / previous * 100;
+    const allowed = maxAllowedMovePercent(asset, now);
+    if (movePercent > allowed) {
+      return {
+        status: 'flagged',
+        price,
+        reason: `前回価格からの変動が ${movePercent.toFixed(1)}% で、許容範囲 (${allowed.toFixed(1)}%) を超えています`,
+      };
+    }
+  }
+
+  return { status: 'accepted', price };
+};
+
+/**
+ * Returns the asset with the checked quote applied, or parked for review when flagged.
+ */
+export const applyQuoteCheck = (asset: StockAsset, check: QuoteCheck, raw?: string, now: number = Date.now()): StockAsset => {
+  switch (check.status) {
+    case 'accepted':
+      return { ...asset, currentPrice: check.price, lastUpdated: now, pendingQuote: undefined, awaitingQuote: undefined };
+    case 'flagged':
+      return {
+        ...asset,
+        pendingQuote: { price: check.price, previousPrice: asset.currentPrice, reason: check.reason, raw, receivedAt: now },
+      };
+    case 'rejected':
+      return asset;
+  }
+};
+
+/**
+ * Keeps only FX rates within the allowed move from the current table. The range widens
+ * with the days since the rate was last recorded, like maxAllowedMovePercent. A currency
+ * without a recorded rate still has the built-in default, so its first rate is taken as is.
+ */
+export const filterPlausibleFxRates = (
+  updates: Partial<FxRates>,
+  current: FxRates,
+  priceHistory: PriceHistory,
+  now: number = Date.now()
+): Partial<FxRates> => {
+  const plausible: Partial<FxRates> = {};
+  for (const [currency, rate] of Object.entries(updates) as [Currency, number][]) {
+    const previous = current[currency];
+    if (!isFinite(rate) || rate <= 0) continue;
+    const recorded = priceHistory[fxPairSymbol(currency)] ?? [];
+    const lastRecorded = recorded[recorded.length - 1];
+    if (!lastRecorded) {
+      plausible[currency] = rate;
+      continue;
+    }
+    const days = Math.max(1, (now - parseDateKey(lastRecorded.date).getTime()) / DAY_MS);
+    const allowed = config.priceValidation.maxDailyFxMovePercent * Math.sqrt(days);
+    if (previous > 0 && Math.abs(rate - previous) / previous * 100 > allowed) {
+      console.warn(`Ignoring implausible ${currency}/JPY rate`, rate);
+      continue;
+    }
+    plausible[currency] = rate;
+  }
+  return plausible;
+};
@@ -0,0 +1,137 @@
+import { Currency, Ledger, ParsedTrade, ParsedTradeField, TransactionType } from '../types';
+import { ImportRow, existingTradeKeys, findOversoldRows, tradeKey } from './importService';
+import { normalizeTicker } from './ledgerService';
+import { createId } from '../utils/id';
+
+// Fields read with less confidence than this are highlighted for review
+export const LOW_CONFIDENCE = 0.7;
+
+const CROP_PADDING = 20; // In the model's 0-1000 box scale
+const CROP_MAX_WIDTH = 480;
+
+// A parsed trade being reviewed before it is added. Fields stay editable and may be empty.
+export interface ReceiptRow {
+  id: string;
+  fileName: string;
+  page?: number;
+  crop?: string; // Data URL of the part of the screenshot that shows the trade
+  include: boolean;
+  ticker: string;
+  companyName?: string;
+  side: TransactionType.BUY | TransactionType.SELL;
+  tradeDate: string;
+  quantity?: number;
+  price?: number;
+  fees?: number;
+  currency: Currency;
+  confidence: Partial<Record<ParsedTradeField, number>>;
+}
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+/**
+ * Cuts the trade's box out of a screenshot, with a little margin so the
+ * surrounding labels stay readable.
+ */
+export const cropImage = async (dataUrl: string, box: [number, number, number, number]): Promise<string | undefined> => {
+  const image = await loadImage(dataUrl);
+  const [ymin, xmin, ymax, xmax] = box;
+  const sx = Math.max(0, xmin - CROP_PADDING) / 1000 * image.naturalWidth;
+  const sy = Math.max(0, ymin - CROP_PADDING) / 1000 * image.naturalHeight;
+  const sw = Math.min(1000, xmax + CROP_PADDING) / 1000 * image.naturalWidth - sx;
+  const sh = Math.min(1000, ymax + CROP_PADDING) / 1000 * image.naturalHeight - sy;
+  if (sw <= 0 || sh <= 0) return undefined;
+
+  const scale = Math.min(1, CROP_MAX_WIDTH / sw);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  canvas.getContext('2d')?.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+export const toReceiptRow = (
+  trade: ParsedTrade,
+  fileName: string,
+  defaultDate: string,
+  crop?: string
+): ReceiptRow => ({
+  id: createId(),
+  fileName,
+  page: trade.page,
+  crop,
+  include: true,
+  ticker: normalizeTicker(trade.ticker),
+  companyName: trade.companyName,
+  side: trade.side ?? TransactionType.BUY,
+  tradeDate: trade.tradeDate ?? defaultDate,
+  quantity: trade.quantity,
+  price: trade.price,
+  fees: trade.fees,
+  currency: trade.currency ?? Currency.USD,
+  // A filled-in default is a guess, whatever the model said about it
+  confidence: {
+    ...trade.confidence,
+    ...(trade.side ? {} : { side: 0 }),
+    ...(trade.tradeDate ? {} : { tradeDate: 0 }),
+    ...(trade.currency ? {} : { currency: 0 }),
+  },
+});
+
+export const isLowConfidence = (row: ReceiptRow, field: ParsedTradeField) =>
+  (row.confidence[field] ?? 1) < LOW_CONFIDENCE;
+
+/**
+ * Checks an included row before it is added. Sells need the ticker to be held
+ * already or bought earlier in the same batch.
+ */
+export const validateReceiptRow = (row: ReceiptRow, rows: ReceiptRow[], ledger: Ledger): string | null => {
+  if (!row.ticker.trim()) return 'ティッカーを入力してください';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(row.tradeDate)) return '約定日を入力してください';
+  if (!row.quantity || row.quantity <= 0) return '数量は0より大きい値を入力してください';
+  if (!row.price || row.price <= 0) return '単価は0より大きい値を入力してください';
+  if (row.fees !== undefined && row.fees < 0) return '手数料は0以上で入力してください';
+  if (row.side === TransactionType.SELL) {
+    const ticker = normalizeTicker(row.ticker);
+    const held = (ledger[ticker] ?? []).length > 0
+      || rows.some(r => r.include && r.side === TransactionType.BUY && normalizeTicker(r.ticker) === ticker);
+    if (!held) return `${ticker} は保有していないため売却を追加できません`;
+    const included = rows.filter(r => r.include && r.quantity && r.quantity > 0);
+    const importRows = toImportRows(included);
+    if (findOversoldRows(ledger, importRows).some(r => included[r.line - 1] === row)) return '売却数量が保有数量を超えています';
+  }
+  return null;
+};
+
+// Whether the same trade (ticker, trade date, side, quantity and price) is already recorded
+export const findDuplicateRows = (rows: ReceiptRow[], ledger: Ledger): Set<string> => {
+  const existing = existingTradeKeys(ledger);
+  return new Set(rows.filter(r => existing.has(tradeKey(r.ticker, r.tradeDate, r.side, r.quantity ?? 0, r.price ?? 0))).map(r => r.id));
+};
+
+export const toImportRows = (rows: ReceiptRow[]): ImportRow[] =>
+  rows.map((row, i) => ({
+    line: i + 1,
+    ticker: normalizeTicker(row.ticker),
+    companyName: row.companyName,
+    date: row.tradeDate,
+    type: row.side,
+    quantity: row.quantity!,
+    price: row.price!,
+    fees: row.fees || undefined,
+    currency: row.currency,
+  }));
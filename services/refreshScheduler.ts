@@ -0,0 +1,89 @@
+import { Exchange, RefreshState } from '../types';
+import { config } from '../config';
+import { nextMarketOpen } from './marketHoursService';
+import { parseDateKey, toDateKey } from '../utils/date';
+
+const MINUTE = 60 * 1000;
+
+export const INITIAL_REFRESH_STATE: RefreshState = {
+  consecutiveFailures: 0,
+  budgetDate: '',
+  requestsToday: 0,
+};
+
+export type RefreshWaitReason = 'interval' | 'backoff' | 'market_closed' | 'budget';
+
+export interface ScheduledRefresh {
+  at: number;
+  reason: RefreshWaitReason;
+}
+
+export const requestsMadeToday = (state: RefreshState, now: number = Date.now()) =>
+  state.budgetDate === toDateKey(now) ? state.requestsToday : 0;
+
+export const remainingRequests = (state: RefreshState, now: number = Date.now()) =>
+  Math.max(0, config.autoRefresh.maxDailyRequests - requestsMadeToday(state, now));
+
+// Retry delay after `failures` consecutive failures: initial, 2x, 4x ... capped
+export const backoffDelay = (failures: number) => {
+  const { initial, max } = config.autoRefresh.backoffMinutes;
+  return Math.min(initial * 2 ** Math.max(0, failures - 1), max) * MINUTE;
+};
+
+// Counts a request against today's budget and tracks the failure streak
+export const recordRefreshAttempt = (state: RefreshState, success: boolean, now: number = Date.now()): RefreshState => {
+  const today = toDateKey(now);
+  return {
+    lastAttemptAt: now,
+    lastSuccessAt: success ? now : state.lastSuccessAt,
+    consecutiveFailures: success ? 0 : state.consecutiveFailures + 1,
+    budgetDate: today,
+    requestsToday: requestsMadeToday(state, now) + 1,
+  };
+};
+
+// Counts a request made outside the schedule against today's budget, leaving the schedule as is
+export const recordExtraRequest = (state: RefreshState, now: number = Date.now()): RefreshState => ({
+  ...state,
+  budgetDate: toDateKey(now),
+  requestsToday: requestsMadeToday(state, now) + 1,
+});
+
+// Whether prices are older than one interval, e.g. when the app is reopened
+export const isStale = (state: RefreshState, intervalMinutes: number, now: number = Date.now()) =>
+  state.lastSuccessAt === undefined || now - state.lastSuccessAt >= intervalMinutes * MINUTE;
+
+/**
+ * When the next automatic refresh should run.
+ * Starts from the interval (or the backoff delay after failures) since the last attempt,
+ * then defers to local midnight if today's budget is spent and to the next session
+ * if every relevant market is closed at that time.
+ * Returns undefined when scheduling is off or there is nothing to refresh.
+ */
+export const nextScheduledRefresh = (
+  state: RefreshState,
+  intervalMinutes: number,
+  exchanges: Exchange[],
+  now: number = Date.now()
+): ScheduledRefresh | undefined => {
+  if (intervalMinutes <= 0 || exchanges.length === 0) return undefined;
+
+  const delay = state.consecutiveFailures > 0 ? backoffDelay(state.consecutiveFailures) : intervalMinutes * MINUTE;
+  let at = Math.max(now, (state.lastAttemptAt ?? 0) + delay);
+  let reason: RefreshWaitReason = state.consecutiveFailures > 0 ? 'backoff' : 'interval';
+
+  if (remainingRequests(state, at) === 0) {
+    const tomorrow = parseDateKey(toDateKey(at));
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    at = tomorrow.getTime();
+    reason = 'budget';
+  }
+
+  const open = nextMarketOpen(exchanges, at);
+  if (open === undefined) return undefined;
+  if (open > at) {
+    at = open;
+    reason = reason === 'budget' ? reason : 'market_closed';
+  }
+  return { at, reason };
+};
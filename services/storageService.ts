@@ -0,0 +1,284 @@
+import { StockAsset, Ledger, TransactionType, Currency, IconCache } from '../types';
+import { DEFAULT_FX_RATES } from './currencyService';
+import { DEFAULT_PORTFOLIOS, DEFAULT_PORTFOLIO_ID } from './portfolioService';
+import { toDateKey } from '../utils/date';
+
+/**
+ * Persistent key-value storage for the app state.
+ * Uses IndexedDB when available and falls back to localStorage
+ * (e.g. private browsing modes where IndexedDB cannot be opened).
+ */
+
+const DB_NAME = 'ai-stock-manager';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+const LOCAL_STORAGE_PREFIX = 'ai-stock-manager:';
+
+export const STORAGE_KEYS = {
+  SCHEMA_VERSION: 'schemaVersion',
+  PORTFOLIOS: 'portfolios',
+  ACTIVE_PORTFOLIO: 'activePortfolio',
+  // Keyed by portfolio id
+  ASSETS: 'assets',
+  LEDGER: 'ledger',
+  PORTFOLIO_HISTORY: 'portfolioHistory',
+  PRICE_HISTORY: 'priceHistory',
+  ALERT_RULES: 'alertRules',
+  ALERT_EVENTS: 'alertEvents',
+  REFRESH_STATE: 'refreshState',
+  REFRESH_INTERVAL: 'refreshIntervalMinutes',
+  FX_RATES: 'fxRates',
+  BASE_CURRENCY: 'baseCurrency',
+  BENCHMARKS: 'benchmarks',
+  NEWS_CACHE: 'newsCache',
+  // Keyed by ticker
+  ICONS: 'icons',
+  NEWS_WINDOW: 'newsWindow',
+  CHAT_MESSAGES: 'chatMessages',
+} as const;
+
+interface StorageBackend {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Schema version of the persisted data.
+ * Bump this whenever a persisted shape in types.ts changes and register a migration below.
+ */
+export const SCHEMA_VERSION = 5;
+
+type Migration = (backend: StorageBackend) => Promise<void>;
+
+// Keyed by the version the migration upgrades TO. Version 1 is the initial schema.
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: quantity/avgPrice moved off StockAsset into a per-ticker transaction ledger
+  2: async (backend) => {
+    const assets = await backend.get<Array<StockAsset & { quantity?: number; avgPrice?: number }>>(STORAGE_KEYS.ASSETS);
+    if (!assets) return;
+
+    const ledger: Ledger = {};
+    const merged: StockAsset[] = [];
+    for (const { quantity, avgPrice, ...asset } of assets) {
+      const ticker = asset.ticker.toUpperCase();
+      if (!merged.some(a => a.ticker.toUpperCase() === ticker)) {
+        merged.push(asset);
+      }
+      if (quantity) {
+        ledger[ticker] = [...(ledger[ticker] ?? []), {
+          id: `migrated-${asset.id}`,
+          ticker,
+          type: TransactionType.BUY,
+          date: toDateKey(asset.lastUpdated),
+          quantity,
+          price: avgPrice ?? 0,
+          createdAt: asset.lastUpdated,
+        }];
+      }
+    }
+    await backend.set(STORAGE_KEYS.ASSETS, merged);
+    await backend.set(STORAGE_KEYS.LEDGER, ledger);
+  },
+  // v3: assets carry their own currency; the single USD/JPY rate became an FX rate table
+  3: async (backend) => {
+    const assets = await backend.get<StockAsset[]>(STORAGE_KEYS.ASSETS);
+    if (assets) {
+      await backend.set(STORAGE_KEYS.ASSETS, assets.map(a => ({ ...a, currency: a.currency ?? Currency.USD })));
+    }
+    const usdJpyRate = await backend.get<number>('usdJpyRate');
+    if (usdJpyRate) {
+      await backend.set(STORAGE_KEYS.FX_RATES, { ...DEFAULT_FX_RATES, [Currency.USD]: usdJpyRate });
+    }
+    await backend.remove('usdJpyRate');
+  },
+  // v4: named portfolios; assets, ledger and value history are stored per portfolio id
+  4: async (backend) => {
+    for (const key of [STORAGE_KEYS.ASSETS, STORAGE_KEYS.LEDGER, STORAGE_KEYS.PORTFOLIO_HISTORY]) {
+      const value = await backend.get<unknown>(key);
+      if (value !== undefined) await backend.set(key, { [DEFAULT_PORTFOLIO_ID]: value });
+    }
+    await backend.set(STORAGE_KEYS.PORTFOLIOS, DEFAULT_PORTFOLIOS);
+  },
+  // v5: icons moved off the assets into a cache keyed by ticker; useStockIcons downscales them
+  5: async (backend) => {
+    const assetsByPortfolio = await backend.get<Record<string, Array<StockAsset & { iconUrl?: string }>>>(STORAGE_KEYS.ASSETS);
+    if (!assetsByPortfolio) return;
+    const icons: IconCache = {};
+    for (const { ticker, iconUrl, lastUpdated } of Object.values(assetsByPortfolio).flat()) {
+      const key = ticker.trim().toUpperCase();
+      if (!iconUrl || icons[key]) continue;
+      icons[key] = { source: 'generated', dataUrl: iconUrl, updatedAt: lastUpdated, fullSize: true };
+    }
+    await backend.set(STORAGE_KEYS.ICONS, icons);
+    await backend.set(
+      STORAGE_KEYS.ASSETS,
+      Object.fromEntries(Object.entries(assetsByPortfolio).map(([id, assets]) => [id, assets.map(({ iconUrl, ...asset }) => asset)]))
+    );
+  },
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openIndexedDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbBackend = (db: IDBDatabase): StorageBackend => {
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return {
+    get: async <T>(key: string) => (await requestToPromise(store('readonly').get(key))) as T | undefined,
+    set: async (key, value) => {
+      await requestToPromise(store('readwrite').put(value, key));
+    },
+    remove: async (key) => {
+      await requestToPromise(store('readwrite').delete(key));
+    },
+  };
+};
+
+const createLocalStorageBackend = (): StorageBackend => ({
+  get: async <T>(key: string) => {
+    const raw = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw) as T;
+    } catch (e) {
+      console.error(`Failed to parse stored value for "${key}"`, e);
+      return undefined;
+    }
+  },
+  set: async (key, value) => {
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+  },
+  remove: async (key) => {
+    localStorage.removeItem(LOCAL_STORAGE_PREFIX + key);
+  },
+});
+
+// Holds a payload outside the app's storage while it is migrated
+const createMemoryBackend = (): StorageBackend => {
+  const values = new Map<string, unknown>();
+  return {
+    get: async <T>(key: string) => values.get(key) as T | undefined,
+    set: async (key, value) => {
+      values.set(key, value);
+    },
+    remove: async (key) => {
+      values.delete(key);
+    },
+  };
+};
+
+/**
+ * Upgrades one portfolio's assets and ledger saved at an older schema version,
+ * such as a backup file, by running the same migrations as the stored data.
+ */
+export const migratePortfolioData = async (version: number, assets: unknown, ledger: unknown): Promise<{ assets: StockAsset[]; ledger: Ledger }> => {
+  const backend = createMemoryBackend();
+  // From v4 on, stored values are keyed by portfolio id
+  const keyed = (value: unknown) => version >= 4 ? { [DEFAULT_PORTFOLIO_ID]: value } : value;
+  await backend.set(STORAGE_KEYS.ASSETS, keyed(assets));
+  await backend.set(STORAGE_KEYS.LEDGER, keyed(ledger));
+  for (let next = version + 1; next <= SCHEMA_VERSION; next++) {
+    await MIGRATIONS[next]?.(backend);
+  }
+  const migrated = async <T>(key: string, fallback: T) =>
+    (await backend.get<Record<string, T>>(key))?.[DEFAULT_PORTFOLIO_ID] ?? fallback;
+  return { assets: await migrated<StockAsset[]>(STORAGE_KEYS.ASSETS, []), ledger: await migrated<Ledger>(STORAGE_KEYS.LEDGER, {}) };
+};
+
+const runMigrations = async (backend: StorageBackend) => {
+  const storedVersion = await backend.get<number>(STORAGE_KEYS.SCHEMA_VERSION);
+  // Nothing stored yet means a fresh install: start at the current schema.
+  if (storedVersion === undefined) {
+    await backend.set(STORAGE_KEYS.SCHEMA_VERSION, SCHEMA_VERSION);
+    return;
+  }
+  for (let version = storedVersion + 1; version <= SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) {
+      await migrate(backend);
+    }
+    await backend.set(STORAGE_KEYS.SCHEMA_VERSION, version);
+  }
+};
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+const getBackend = (): Promise<StorageBackend> => {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      let backend: StorageBackend;
+      try {
+        backend = createIndexedDbBackend(await openIndexedDb());
+      } catch (error) {
+        console.warn('IndexedDB unavailable, falling back to localStorage', error);
+        backend = createLocalStorageBackend();
+      }
+      // Storage stays closed when a migration fails, so nothing reads the old shapes or
+      // writes new ones over them. The stored version is kept and the next load retries.
+      try {
+        await runMigrations(backend);
+      } catch (error) {
+        console.error('Failed to migrate stored data', error);
+        throw error;
+      }
+      return backend;
+    })();
+  }
+  return backendPromise;
+};
+
+// Resolves to false when stored data could not be migrated and storage is closed
+export const isStorageAvailable = async (): Promise<boolean> => {
+  try {
+    await getBackend();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rejects while storage is closed, so callers never mistake it for a missing value
+export const getItem = async <T>(key: string): Promise<T | undefined> => {
+  const backend = await getBackend();
+  try {
+    return await backend.get<T>(key);
+  } catch (error) {
+    console.error(`Failed to load "${key}" from storage`, error);
+    return undefined;
+  }
+};
+
+export const setItem = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    await (await getBackend()).set(key, value);
+  } catch (error) {
+    console.error(`Failed to save "${key}" to storage`, error);
+  }
+};
+
+export const removeItem = async (key: string): Promise<void> => {
+  try {
+    await (await getBackend()).remove(key);
+  } catch (error) {
+    console.error(`Failed to remove "${key}" from storage`, error);
+  }
+};
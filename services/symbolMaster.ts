@@ -0,0 +1,285 @@
+import { Exchange, InstrumentType, SymbolInfo } from '../types';
+
+/**
+ * Bundled list of the main listings on NYSE, NASDAQ and TSE, used to look up
+ * company names and sectors offline. Sectors follow the GICS sector names.
+ * Rows are [ticker, name, sector, country]; the country is only given when the
+ * issuer isn't from the exchange's country (ADRs).
+ */
+
+type Row = [ticker: string, name: string, sector: string, country?: string];
+
+const NYSE_STOCKS: Row[] = [
+  ['ABBV', 'AbbVie Inc.', 'Health Care'],
+  ['ABT', 'Abbott Laboratories', 'Health Care'],
+  ['ACN', 'Accenture plc', 'Information Technology', 'アイルランド'],
+  ['AMT', 'American Tower Corporation', 'Real Estate'],
+  ['AXP', 'American Express Company', 'Financials'],
+  ['BA', 'The Boeing Company', 'Industrials'],
+  ['BAC', 'Bank of America Corporation', 'Financials'],
+  ['BABA', 'Alibaba Group Holding Limited', 'Consumer Discretionary', '中国'],
+  ['BHP', 'BHP Group Limited', 'Materials', 'オーストラリア'],
+  ['BLK', 'BlackRock, Inc.', 'Financials'],
+  ['BMY', 'Bristol-Myers Squibb Company', 'Health Care'],
+  ['BP', 'BP p.l.c.', 'Energy', '英国'],
+  ['BRK.B', 'Berkshire Hathaway Inc. Class B', 'Financials'],
+  ['BX', 'Blackstone Inc.', 'Financials'],
+  ['C', 'Citigroup Inc.', 'Financials'],
+  ['CAT', 'Caterpillar Inc.', 'Industrials'],
+  ['COP', 'ConocoPhillips', 'Energy'],
+  ['CRM', 'Salesforce, Inc.', 'Information Technology'],
+  ['CVS', 'CVS Health Corporation', 'Health Care'],
+  ['CVX', 'Chevron Corporation', 'Energy'],
+  ['DE', 'Deere & Company', 'Industrials'],
+  ['DIS', 'The Walt Disney Company', 'Communication Services'],
+  ['DUK', 'Duke Energy Corporation', 'Utilities'],
+  ['F', 'Ford Motor Company', 'Consumer Discretionary'],
+  ['GE', 'GE Aerospace', 'Industrials'],
+  ['GM', 'General Motors Company', 'Consumer Discretionary'],
+  ['GS', 'The Goldman Sachs Group, Inc.', 'Financials'],
+  ['HD', 'The Home Depot, Inc.', 'Consumer Discretionary'],
+  ['HDB', 'HDFC Bank Limited', 'Financials', 'インド'],
+  ['HMC', 'Honda Motor Co., Ltd.', 'Consumer Discretionary', '日本'],
+  ['IBM', 'International Business Machines Corporation', 'Information Technology'],
+  ['INFY', 'Infosys Limited', 'Information Technology', 'インド'],
+  ['ITUB', 'Itaú Unibanco Holding S.A.', 'Financials', 'ブラジル'],
+  ['JNJ', 'Johnson & Johnson', 'Health Care'],
+  ['JPM', 'JPMorgan Chase & Co.', 'Financials'],
+  ['KKR', 'KKR & Co. Inc.', 'Financials'],
+  ['KO', 'The Coca-Cola Company', 'Consumer Staples'],
+  ['LLY', 'Eli Lilly and Company', 'Health Care'],
+  ['LMT', 'Lockheed Martin Corporation', 'Industrials'],
+  ['LOW', "Lowe's Companies, Inc.", 'Consumer Discretionary'],
+  ['MA', 'Mastercard Incorporated', 'Financials'],
+  ['MCD', "McDonald's Corporation", 'Consumer Discretionary'],
+  ['MFG', 'Mizuho Financial Group, Inc.', 'Financials', '日本'],
+  ['MMM', '3M Company', 'Industrials'],
+  ['MO', 'Altria Group, Inc.', 'Consumer Staples'],
+  ['MRK', 'Merck & Co., Inc.', 'Health Care'],
+  ['MS', 'Morgan Stanley', 'Financials'],
+  ['MUFG', 'Mitsubishi UFJ Financial Group, Inc.', 'Financials', '日本'],
+  ['NEE', 'NextEra Energy, Inc.', 'Utilities'],
+  ['NKE', 'NIKE, Inc.', 'Consumer Discretionary'],
+  ['NOW', 'ServiceNow, Inc.', 'Information Technology'],
+  ['NU', 'Nu Holdings Ltd.', 'Financials', 'ブラジル'],
+  ['NVO', 'Novo Nordisk A/S', 'Health Care', 'デンマーク'],
+  ['NVS', 'Novartis AG', 'Health Care', 'スイス'],
+  ['O', 'Realty Income Corporation', 'Real Estate'],
+  ['ORCL', 'Oracle Corporation', 'Information Technology'],
+  ['PBR', 'Petróleo Brasileiro S.A. - Petrobras', 'Energy', 'ブラジル'],
+  ['PFE', 'Pfizer Inc.', 'Health Care'],
+  ['PG', 'The Procter & Gamble Company', 'Consumer Staples'],
+  ['PLD', 'Prologis, Inc.', 'Real Estate'],
+  ['PM', 'Philip Morris International Inc.', 'Consumer Staples'],
+  ['RIO', 'Rio Tinto Group', 'Materials', '英国'],
+  ['RTX', 'RTX Corporation', 'Industrials'],
+  ['SAP', 'SAP SE', 'Information Technology', 'ドイツ'],
+  ['SCHW', 'The Charles Schwab Corporation', 'Financials'],
+  ['SHEL', 'Shell plc', 'Energy', '英国'],
+  ['SMFG', 'Sumitomo Mitsui Financial Group, Inc.', 'Financials', '日本'],
+  ['SO', 'The Southern Company', 'Utilities'],
+  ['SONY', 'Sony Group Corporation', 'Consumer Discretionary', '日本'],
+  ['SPGI', 'S&P Global Inc.', 'Financials'],
+  ['T', 'AT&T Inc.', 'Communication Services'],
+  ['TGT', 'Target Corporation', 'Consumer Staples'],
+  ['TM', 'Toyota Motor Corporation', 'Consumer Discretionary', '日本'],
+  ['TMO', 'Thermo Fisher Scientific Inc.', 'Health Care'],
+  ['TSM', 'Taiwan Semiconductor Manufacturing Company Limited', 'Information Technology', '台湾'],
+  ['TTE', 'TotalEnergies SE', 'Energy', 'フランス'],
+  ['UBER', 'Uber Technologies, Inc.', 'Industrials'],
+  ['UL', 'Unilever PLC', 'Consumer Staples', '英国'],
+  ['UNH', 'UnitedHealth Group Incorporated', 'Health Care'],
+  ['UNP', 'Union Pacific Corporation', 'Industrials'],
+  ['UPS', 'United Parcel Service, Inc.', 'Industrials'],
+  ['V', 'Visa Inc.', 'Financials'],
+  ['VALE', 'Vale S.A.', 'Materials', 'ブラジル'],
+  ['VZ', 'Verizon Communications Inc.', 'Communication Services'],
+  ['WFC', 'Wells Fargo & Company', 'Financials'],
+  ['WMT', 'Walmart Inc.', 'Consumer Staples'],
+  ['XOM', 'Exxon Mobil Corporation', 'Energy'],
+];
+
+const NYSE_ETFS: Row[] = [
+  ['AGG', 'iShares Core U.S. Aggregate Bond ETF', 'Fixed Income'],
+  ['DIA', 'SPDR Dow Jones Industrial Average ETF Trust', 'Diversified'],
+  ['EEM', 'iShares MSCI Emerging Markets ETF', 'Diversified'],
+  ['EFA', 'iShares MSCI EAFE ETF', 'Diversified'],
+  ['GLD', 'SPDR Gold Shares', 'Commodities'],
+  ['IVV', 'iShares Core S&P 500 ETF', 'Diversified'],
+  ['IWM', 'iShares Russell 2000 ETF', 'Diversified'],
+  ['JEPI', 'JPMorgan Equity Premium Income ETF', 'Diversified'],
+  ['SCHD', 'Schwab U.S. Dividend Equity ETF', 'Diversified'],
+  ['SPY', 'SPDR S&P 500 ETF Trust', 'Diversified'],
+  ['SPYD', 'SPDR Portfolio S&P 500 High Dividend ETF', 'Diversified'],
+  ['VEA', 'Vanguard FTSE Developed Markets ETF', 'Diversified'],
+  ['VIG', 'Vanguard Dividend Appreciation ETF', 'Diversified'],
+  ['VNQ', 'Vanguard Real Estate ETF', 'Real Estate'],
+  ['VOO', 'Vanguard S&P 500 ETF', 'Diversified'],
+  ['VT', 'Vanguard Total World Stock ETF', 'Diversified'],
+  ['VTI', 'Vanguard Total Stock Market ETF', 'Diversified'],
+  ['VWO', 'Vanguard FTSE Emerging Markets ETF', 'Diversified'],
+  ['VYM', 'Vanguard High Dividend Yield ETF', 'Diversified'],
+  ['HDV', 'iShares Core High Dividend ETF', 'Diversified'],
+  ['XLE', 'Energy Select Sector SPDR Fund', 'Energy'],
+  ['XLF', 'Financial Select Sector SPDR Fund', 'Financials'],
+  ['XLK', 'Technology Select Sector SPDR Fund', 'Information Technology'],
+];
+
+const NASDAQ_STOCKS: Row[] = [
+  ['AAPL', 'Apple Inc.', 'Information Technology'],
+  ['ABNB', 'Airbnb, Inc.', 'Consumer Discretionary'],
+  ['ADBE', 'Adobe Inc.', 'Information Technology'],
+  ['ADI', 'Analog Devices, Inc.', 'Information Technology'],
+  ['ADP', 'Automatic Data Processing, Inc.', 'Industrials'],
+  ['AMAT', 'Applied Materials, Inc.', 'Information Technology'],
+  ['AMD', 'Advanced Micro Devices, Inc.', 'Information Technology'],
+  ['AMGN', 'Amgen Inc.', 'Health Care'],
+  ['AMZN', 'Amazon.com, Inc.', 'Consumer Discretionary'],
+  ['ARM', 'Arm Holdings plc', 'Information Technology', '英国'],
+  ['ASML', 'ASML Holding N.V.', 'Information Technology', 'オランダ'],
+  ['AVGO', 'Broadcom Inc.', 'Information Technology'],
+  ['AZN', 'AstraZeneca PLC', 'Health Care', '英国'],
+  ['BIDU', 'Baidu, Inc.', 'Communication Services', '中国'],
+  ['BKNG', 'Booking Holdings Inc.', 'Consumer Discretionary'],
+  ['CDNS', 'Cadence Design Systems, Inc.', 'Information Technology'],
+  ['CMCSA', 'Comcast Corporation', 'Communication Services'],
+  ['COIN', 'Coinbase Global, Inc.', 'Financials'],
+  ['COST', 'Costco Wholesale Corporation', 'Consumer Staples'],
+  ['CRWD', 'CrowdStrike Holdings, Inc.', 'Information Technology'],
+  ['CSCO', 'Cisco Systems, Inc.', 'Information Technology'],
+  ['GILD', 'Gilead Sciences, Inc.', 'Health Care'],
+  ['GOOG', 'Alphabet Inc. Class C', 'Communication Services'],
+  ['GOOGL', 'Alphabet Inc. Class A', 'Communication Services'],
+  ['HON', 'Honeywell International Inc.', 'Industrials'],
+  ['INTC', 'Intel Corporation', 'Information Technology'],
+  ['INTU', 'Intuit Inc.', 'Information Technology'],
+  ['ISRG', 'Intuitive Surgical, Inc.', 'Health Care'],
+  ['JD', 'JD.com, Inc.', 'Consumer Discretionary', '中国'],
+  ['KLAC', 'KLA Corporation', 'Information Technology'],
+  ['LRCX', 'Lam Research Corporation', 'Information Technology'],
+  ['MDLZ', 'Mondelez International, Inc.', 'Consumer Staples'],
+  ['META', 'Meta Platforms, Inc.', 'Communication Services'],
+  ['MRVL', 'Marvell Technology, Inc.', 'Information Technology'],
+  ['MSFT', 'Microsoft Corporation', 'Information Technology'],
+  ['MU', 'Micron Technology, Inc.', 'Information Technology'],
+  ['NFLX', 'Netflix, Inc.', 'Communication Services'],
+  ['NVDA', 'NVIDIA Corporation', 'Information Technology'],
+  ['PANW', 'Palo Alto Networks, Inc.', 'Information Technology'],
+  ['PDD', 'PDD Holdings Inc.', 'Consumer Discretionary', '中国'],
+  ['PEP', 'PepsiCo, Inc.', 'Consumer Staples'],
+  ['PLTR', 'Palantir Technologies Inc.', 'Information Technology'],
+  ['PYPL', 'PayPal Holdings, Inc.', 'Financials'],
+  ['QCOM', 'QUALCOMM Incorporated', 'Information Technology'],
+  ['REGN', 'Regeneron Pharmaceuticals, Inc.', 'Health Care'],
+  ['SBUX', 'Starbucks Corporation', 'Consumer Discretionary'],
+  ['SNPS', 'Synopsys, Inc.', 'Information Technology'],
+  ['TMUS', 'T-Mobile US, Inc.', 'Communication Services'],
+  ['TSLA', 'Tesla, Inc.', 'Consumer Discretionary'],
+  ['TXN', 'Texas Instruments Incorporated', 'Information Technology'],
+  ['VRTX', 'Vertex Pharmaceuticals Incorporated', 'Health Care'],
+];
+
+const NASDAQ_ETFS: Row[] = [
+  ['BND', 'Vanguard Total Bond Market ETF', 'Fixed Income'],
+  ['QQQ', 'Invesco QQQ Trust', 'Diversified'],
+  ['QQQM', 'Invesco NASDAQ 100 ETF', 'Diversified'],
+  ['TLT', 'iShares 20+ Year Treasury Bond ETF', 'Fixed Income'],
+  ['VXUS', 'Vanguard Total International Stock ETF', 'Diversified'],
+];
+
+const TSE_STOCKS: Row[] = [
+  ['1605', 'INPEX', 'Energy'],
+  ['1925', '大和ハウス工業', 'Real Estate'],
+  ['2413', 'エムスリー', 'Health Care'],
+  ['2502', 'アサヒグループホールディングス', 'Consumer Staples'],
+  ['2802', '味の素', 'Consumer Staples'],
+  ['2914', '日本たばこ産業', 'Consumer Staples'],
+  ['3382', 'セブン&アイ・ホールディングス', 'Consumer Staples'],
+  ['4063', '信越化学工業', 'Materials'],
+  ['4452', '花王', 'Consumer Staples'],
+  ['4502', '武田薬品工業', 'Health Care'],
+  ['4503', 'アステラス製薬', 'Health Care'],
+  ['4519', '中外製薬', 'Health Care'],
+  ['4543', 'テルモ', 'Health Care'],
+  ['4568', '第一三共', 'Health Care'],
+  ['4578', '大塚ホールディングス', 'Health Care'],
+  ['4661', 'オリエンタルランド', 'Consumer Discretionary'],
+  ['4755', '楽天グループ', 'Consumer Discretionary'],
+  ['5401', '日本製鉄', 'Materials'],
+  ['6098', 'リクルートホールディングス', 'Industrials'],
+  ['6146', 'ディスコ', 'Information Technology'],
+  ['6273', 'SMC', 'Industrials'],
+  ['6301', '小松製作所', 'Industrials'],
+  ['6367', 'ダイキン工業', 'Industrials'],
+  ['6501', '日立製作所', 'Industrials'],
+  ['6503', '三菱電機', 'Industrials'],
+  ['6594', 'ニデック', 'Industrials'],
+  ['6702', '富士通', 'Information Technology'],
+  ['6723', 'ルネサスエレクトロニクス', 'Information Technology'],
+  ['6752', 'パナソニック ホールディングス', 'Consumer Discretionary'],
+  ['6758', 'ソニーグループ', 'Consumer Discretionary'],
+  ['6857', 'アドバンテスト', 'Information Technology'],
+  ['6861', 'キーエンス', 'Information Technology'],
+  ['6902', 'デンソー', 'Consumer Discretionary'],
+  ['6920', 'レーザーテック', 'Information Technology'],
+  ['6954', 'ファナック', 'Industrials'],
+  ['6981', '村田製作所', 'Information Technology'],
+  ['7011', '三菱重工業', 'Industrials'],
+  ['7201', '日産自動車', 'Consumer Discretionary'],
+  ['7203', 'トヨタ自動車', 'Consumer Discretionary'],
+  ['7267', '本田技研工業', 'Consumer Discretionary'],
+  ['7269', 'スズキ', 'Consumer Discretionary'],
+  ['7741', 'HOYA', 'Health Care'],
+  ['7751', 'キヤノン', 'Information Technology'],
+  ['7974', '任天堂', 'Communication Services'],
+  ['8001', '伊藤忠商事', 'Industrials'],
+  ['8002', '丸紅', 'Industrials'],
+  ['8031', '三井物産', 'Industrials'],
+  ['8035', '東京エレクトロン', 'Information Technology'],
+  ['8053', '住友商事', 'Industrials'],
+  ['8058', '三菱商事', 'Industrials'],
+  ['8267', 'イオン', 'Consumer Staples'],
+  ['8306', '三菱UFJフィナンシャル・グループ', 'Financials'],
+  ['8316', '三井住友フィナンシャルグループ', 'Financials'],
+  ['8411', 'みずほフィナンシャルグループ', 'Financials'],
+  ['8591', 'オリックス', 'Financials'],
+  ['8604', '野村ホールディングス', 'Financials'],
+  ['8630', 'SOMPOホールディングス', 'Financials'],
+  ['8725', 'MS&ADインシュアランスグループホールディングス', 'Financials'],
+  ['8750', '第一生命ホールディングス', 'Financials'],
+  ['8766', '東京海上ホールディングス', 'Financials'],
+  ['8801', '三井不動産', 'Real Estate'],
+  ['9020', '東日本旅客鉄道', 'Industrials'],
+  ['9022', '東海旅客鉄道', 'Industrials'],
+  ['9101', '日本郵船', 'Industrials'],
+  ['9104', '商船三井', 'Industrials'],
+  ['9432', '日本電信電話', 'Communication Services'],
+  ['9433', 'KDDI', 'Communication Services'],
+  ['9434', 'ソフトバンク', 'Communication Services'],
+  ['9501', '東京電力ホールディングス', 'Utilities'],
+  ['9983', 'ファーストリテイリング', 'Consumer Discretionary'],
+  ['9984', 'ソフトバンクグループ', 'Communication Services'],
+];
+
+const TSE_ETFS: Row[] = [
+  ['1306', 'NEXT FUNDS TOPIX連動型上場投信', 'Diversified'],
+  ['1321', 'NEXT FUNDS 日経225連動型上場投信', 'Diversified'],
+  ['1348', 'MAXIS トピックス上場投信', 'Diversified'],
+  ['1475', 'iシェアーズ・コア TOPIX ETF', 'Diversified'],
+  ['1489', 'NEXT FUNDS 日経平均高配当株50指数連動型上場投信', 'Diversified'],
+  ['1545', 'NEXT FUNDS NASDAQ-100連動型上場投信', 'Diversified'],
+  ['1655', 'iシェアーズ S&P 500 米国株 ETF', 'Diversified'],
+  ['2558', 'MAXIS 米国株式(S&P500)上場投信', 'Diversified'],
+];
+
+const listings = (exchange: Exchange, instrumentType: InstrumentType, rows: Row[]): SymbolInfo[] =>
+  rows.map(([ticker, name, sector, country]) => ({ ticker, name, sector, exchange, instrumentType, country }));
+
+export const SYMBOL_MASTER: SymbolInfo[] = [
+  ...listings(Exchange.NYSE, InstrumentType.STOCK, NYSE_STOCKS),
+  ...listings(Exchange.NYSE, InstrumentType.ETF, NYSE_ETFS),
+  ...listings(Exchange.NASDAQ, InstrumentType.STOCK, NASDAQ_STOCKS),
+  ...listings(Exchange.NASDAQ, InstrumentType.ETF, NASDAQ_ETFS),
+  ...listings(Exchange.TSE, InstrumentType.STOCK, TSE_STOCKS),
+  ...listings(Exchange.TSE, InstrumentType.ETF, TSE_ETFS),
+];
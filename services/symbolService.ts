@@ -0,0 +1,85 @@
+import { Exchange, StockAsset, SymbolInfo } from '../types';
+import { EXCHANGE_CURRENCIES, EXCHANGE_LABELS } from './currencyService';
+import { normalizeTicker } from './ledgerService';
+import { SYMBOL_MASTER } from './symbolMaster';
+
+// Suggestions shown under the ticker field
+const MAX_SUGGESTIONS = 8;
+
+// TSE codes are often written with the ".T" suffix used by quote sites
+const symbolKey = (ticker: string) => normalizeTicker(ticker).replace(/\.T$/, '');
+
+const normalizeQuery = (text: string) => text.normalize('NFKC').trim().toLowerCase();
+
+const LISTINGS = new Map<string, SymbolInfo[]>();
+for (const symbol of SYMBOL_MASTER) {
+  LISTINGS.set(symbol.ticker, [...(LISTINGS.get(symbol.ticker) ?? []), symbol]);
+}
+
+export const listingsOf = (ticker: string): SymbolInfo[] => LISTINGS.get(symbolKey(ticker)) ?? [];
+
+/**
+ * The listing of a ticker, on the given exchange when there is one.
+ */
+export const findSymbol = (ticker: string, exchange?: Exchange): SymbolInfo | undefined =>
+  listingsOf(ticker).find(symbol => !exchange || symbol.exchange === exchange);
+
+/**
+ * Why a new ticker should be double-checked before it is added: it is listed on
+ * another exchange, or missing from the symbol master. Undefined when it is listed
+ * on the given exchange (or anywhere, without one). The bundled master only covers
+ * the main listings, so this is a hint for the user to confirm, never a rejection.
+ */
+export const unknownTickerWarning = (ticker: string, exchange?: Exchange): string | undefined => {
+  if (!ticker.trim() || findSymbol(ticker, exchange)) return undefined;
+  const other = listingsOf(ticker)[0];
+  return other
+    ? `${other.ticker} は${EXCHANGE_LABELS[other.exchange]}の銘柄です (${other.name})。`
+    : `${normalizeTicker(ticker)} は銘柄マスターにありません。入力ミスや上場廃止でないか確認してください。`;
+};
+
+/**
+ * Listings whose ticker or name matches the query: exact tickers first, then
+ * ticker prefixes, then names starting with or containing the query.
+ */
+export const searchSymbols = (query: string, limit: number = MAX_SUGGESTIONS): SymbolInfo[] => {
+  const q = normalizeQuery(query);
+  if (!q) return [];
+  const key = symbolKey(q).toLowerCase();
+  const rank = (symbol: SymbolInfo) => {
+    const ticker = symbol.ticker.toLowerCase();
+    const name = normalizeQuery(symbol.name);
+    if (ticker === key) return 0;
+    if (ticker.startsWith(key)) return 1;
+    if (name.startsWith(q)) return 2;
+    if (name.includes(q)) return 3;
+    return undefined;
+  };
+  return SYMBOL_MASTER
+    .flatMap(symbol => {
+      const score = rank(symbol);
+      return score === undefined ? [] : [{ symbol, score }];
+    })
+    .sort((a, b) => a.score - b.score || a.symbol.ticker.localeCompare(b.symbol.ticker))
+    .slice(0, limit)
+    .map(({ symbol }) => symbol);
+};
+
+/**
+ * Fills name, exchange, type, sector and country of a new asset from the symbol
+ * master. Values already set are kept, except a company name that is just the ticker.
+ * Without an exchange the listing is only used when it trades in the asset's currency.
+ */
+export const withSymbolMetadata = (asset: StockAsset): StockAsset => {
+  const symbol = findSymbol(asset.ticker, asset.exchange);
+  if (!symbol || (!asset.exchange && EXCHANGE_CURRENCIES[symbol.exchange] !== asset.currency)) return asset;
+  const hasName = asset.companyName.trim() && normalizeTicker(asset.companyName) !== normalizeTicker(asset.ticker);
+  return {
+    ...asset,
+    companyName: hasName ? asset.companyName : symbol.name,
+    exchange: asset.exchange ?? symbol.exchange,
+    instrumentType: asset.instrumentType ?? symbol.instrumentType,
+    sector: asset.sector ?? symbol.sector,
+    country: asset.country ?? symbol.country,
+  };
+};
@@ -0,0 +1,237 @@
+import {
+  Currency,
+  FxRates,
+  Holding,
+  Portfolio,
+  PortfolioKind,
+  PortfolioMap,
+  PriceHistory,
+  TaxAccountTotals,
+  TaxDividendRow,
+  TaxFxSource,
+  TaxGainRow,
+  TaxReport,
+  Transaction,
+  TransactionType,
+} from '../types';
+import { fxPairSymbol } from './currencyService';
+import { sortTransactions } from './ledgerService';
+import { countsTowardTotal } from './portfolioService';
+import { parseDateKey, toDateKey } from '../utils/date';
+
+/**
+ * Yearly realized gains and dividends in JPY for Japanese tax filing.
+ * Every amount is converted at the rate of its own trade date, and cost is the
+ * moving average of the JPY cost of each buy (総平均法に準ずる方法).
+ */
+
+// Income tax 15.315% (including the reconstruction surtax) plus resident tax 5%
+export const JP_CAPITAL_TAX_RATE = 0.20315;
+
+// FX history older than this is not used as the rate of a trade date
+const MAX_FX_LOOKBACK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TAX_FX_SOURCE_LABELS: Record<TaxFxSource, string> = {
+  trade: '取引時のレート',
+  history: '為替履歴',
+  current: '現在のレート (仮)',
+};
+
+/**
+ * JPY per unit of the currency on a date: the rate recorded on the trade, else
+ * the latest FX history point of the week up to that date, else today's rate.
+ * FX history is kept as pair series such as USDJPY, like the market data files.
+ */
+export const jpyRateOn = (
+  currency: Currency,
+  date: string,
+  fxHistory: PriceHistory,
+  fallbackRates: FxRates,
+  recorded?: number
+): { rate: number; source: TaxFxSource } => {
+  if (currency === Currency.JPY) return { rate: 1, source: 'trade' };
+  if (recorded && recorded > 0) return { rate: recorded, source: 'trade' };
+
+  const earliest = toDateKey(parseDateKey(date).getTime() - MAX_FX_LOOKBACK_DAYS * DAY_MS);
+  const point = [...(fxHistory[fxPairSymbol(currency)] ?? [])].reverse().find(p => p.date <= date);
+  if (point && point.date >= earliest) return { rate: point.price, source: 'history' };
+  return { rate: fallbackRates[currency], source: 'current' };
+};
+
+const emptyTotals = (): TaxAccountTotals => ({
+  realizedGainJpy: 0,
+  dividendGrossJpy: 0,
+  foreignTaxJpy: 0,
+  estimatedTaxJpy: 0,
+  foreignTaxCreditJpy: 0,
+});
+
+/**
+ * Totals of one account type. Gains, losses and dividends are netted as when
+ * they are all filed under separate self-assessment (申告分離課税), and Japanese
+ * tax is levied on gross dividends. Foreign withholding is relieved only through
+ * the foreign tax credit, capped at the estimated tax; the real limit also
+ * depends on the rest of the filer's income.
+ */
+const totalsOf = (gains: TaxGainRow[], dividends: TaxDividendRow[], taxed: boolean): TaxAccountTotals => {
+  const totals = emptyTotals();
+  totals.realizedGainJpy = gains.reduce((sum, row) => sum + row.gainJpy, 0);
+  totals.dividendGrossJpy = dividends.reduce((sum, row) => sum + row.grossJpy, 0);
+  totals.foreignTaxJpy = dividends.reduce((sum, row) => sum + row.foreignTaxJpy, 0);
+  if (!taxed) return totals;
+
+  const taxableIncome = Math.max(0, totals.realizedGainJpy + totals.dividendGrossJpy);
+  totals.estimatedTaxJpy = Math.floor(taxableIncome * JP_CAPITAL_TAX_RATE);
+  totals.foreignTaxCreditJpy = Math.min(totals.foreignTaxJpy, totals.estimatedTaxJpy);
+  return totals;
+};
+
+/**
+ * Replays a holding's transactions in JPY and returns the sales and
+ * dividends of the year. Paper portfolios are never reported.
+ */
+const reportHolding = (
+  portfolio: Portfolio,
+  holding: Holding,
+  year: number,
+  fxHistory: PriceHistory,
+  fallbackRates: FxRates
+) => {
+  const gains: TaxGainRow[] = [];
+  const dividends: TaxDividendRow[] = [];
+  const missingFx: TaxReport['missingFx'] = [];
+  const rateOf = (tx: Transaction) => jpyRateOn(holding.currency, tx.date, fxHistory, fallbackRates, tx.fxRate);
+  const rowOf = (tx: Transaction) => {
+    const { rate, source } = rateOf(tx);
+    return {
+      portfolioId: portfolio.id,
+      portfolioName: portfolio.name,
+      kind: portfolio.kind,
+      ticker: holding.ticker,
+      date: tx.date,
+      currency: holding.currency,
+      fxRate: rate,
+      fxSource: source,
+    };
+  };
+
+  let quantity = 0;
+  let avgCostJpy = 0;
+  // Buys of the open position converted at today's rate; they matter once a sale of the year uses them
+  let estimatedBuys: TaxReport['missingFx'] = [];
+  for (const tx of sortTransactions(holding.transactions)) {
+    const fees = tx.fees ?? 0;
+    const inYear = parseDateKey(tx.date).getFullYear() === year;
+    switch (tx.type) {
+      case TransactionType.BUY: {
+        const { rate, source } = rateOf(tx);
+        if (source === 'current') estimatedBuys.push({ currency: holding.currency, date: tx.date });
+        const costJpy = (tx.quantity * tx.price + fees) * rate;
+        avgCostJpy = (avgCostJpy * quantity + costJpy) / (quantity + tx.quantity);
+        quantity += tx.quantity;
+        break;
+      }
+      case TransactionType.SELL: {
+        const sellQty = Math.min(tx.quantity, quantity);
+        if (sellQty <= 0) break;
+        if (inYear) {
+          const row = rowOf(tx);
+          const proceedsJpy = (sellQty * tx.price - fees) * row.fxRate;
+          const costJpy = sellQty * avgCostJpy;
+          gains.push({ ...row, quantity: sellQty, proceedsJpy, costJpy, costFxEstimated: estimatedBuys.length > 0, gainJpy: proceedsJpy - costJpy });
+          if (row.fxSource === 'current') missingFx.push({ currency: row.currency, date: row.date });
+          missingFx.push(...estimatedBuys);
+        }
+        quantity -= sellQty;
+        if (quantity <= 1e-9) {
+          quantity = 0;
+          avgCostJpy = 0;
+          estimatedBuys = [];
+        }
+        break;
+      }
+      case TransactionType.DIVIDEND: {
+        if (!inYear) break;
+        const row = rowOf(tx);
+        if (row.fxSource === 'current') missingFx.push({ currency: row.currency, date: row.date });
+        const net = (tx.amount ?? 0) - fees;
+        const withheld = tx.withholdingTax ?? 0;
+        dividends.push({
+          ...row,
+          grossJpy: (net + withheld) * row.fxRate,
+          foreignTaxJpy: withheld * row.fxRate,
+          netJpy: net * row.fxRate,
+        });
+        break;
+      }
+      case TransactionType.SPLIT: {
+        const ratio = tx.splitRatio ?? 1;
+        if (ratio <= 0) break;
+        quantity *= ratio;
+        avgCostJpy /= ratio;
+        break;
+      }
+    }
+  }
+  return { gains, dividends, missingFx };
+};
+
+export const buildTaxReport = (
+  year: number,
+  portfolios: Portfolio[],
+  holdingsByPortfolio: PortfolioMap<Holding[]>,
+  fxHistory: PriceHistory,
+  fallbackRates: FxRates
+): TaxReport => {
+  const gains: TaxGainRow[] = [];
+  const dividends: TaxDividendRow[] = [];
+  const missingFx: TaxReport['missingFx'] = [];
+  for (const portfolio of portfolios.filter(countsTowardTotal)) {
+    for (const holding of holdingsByPortfolio[portfolio.id] ?? []) {
+      const rows = reportHolding(portfolio, holding, year, fxHistory, fallbackRates);
+      gains.push(...rows.gains);
+      dividends.push(...rows.dividends);
+      missingFx.push(...rows.missingFx);
+    }
+  }
+  gains.sort((a, b) => a.date.localeCompare(b.date));
+  dividends.sort((a, b) => a.date.localeCompare(b.date));
+
+  const isNisa = (row: { kind: PortfolioKind }) => row.kind === PortfolioKind.NISA;
+  return {
+    year,
+    gains,
+    dividends,
+    taxable: totalsOf(gains.filter(r => !isNisa(r)), dividends.filter(r => !isNisa(r)), true),
+    nisa: totalsOf(gains.filter(isNisa), dividends.filter(isNisa), false),
+    missingFx,
+  };
+};
+
+// Years with any transaction, newest first, always including the current year
+export const reportYears = (holdingsByPortfolio: PortfolioMap<Holding[]>): number[] => {
+  const years = new Set([new Date().getFullYear()]);
+  for (const holding of Object.values(holdingsByPortfolio).flat()) {
+    for (const tx of holding.transactions) years.add(parseDateKey(tx.date).getFullYear());
+  }
+  return [...years].sort((a, b) => b - a);
+};
+
+/**
+ * Date ranges per currency of the conversions made at today's rate, for fetching
+ * the missing FX history. Ranges start a week early so trades on holidays find a rate.
+ */
+export const missingFxRanges = (report: TaxReport): Partial<Record<Currency, { from: string; to: string }>> => {
+  const ranges: Partial<Record<Currency, { from: string; to: string }>> = {};
+  for (const { currency, date } of report.missingFx) {
+    const range = ranges[currency];
+    const from = toDateKey(parseDateKey(date).getTime() - MAX_FX_LOOKBACK_DAYS * DAY_MS);
+    ranges[currency] = {
+      from: range && range.from < from ? range.from : from,
+      to: range && range.to > date ? range.to : date,
+    };
+  }
+  return ranges;
+};
@@ -6,39 +6,570 @@ export enum AISource {
   OTHER = 'Other'
 }
 
+export enum Currency {
+  USD = 'USD',
+  JPY = 'JPY',
+  EUR = 'EUR'
+}
+
+export enum Exchange {
+  NYSE = 'NYSE',
+  NASDAQ = 'NASDAQ',
+  TSE = 'TSE',
+  XETRA = 'XETRA',
+  EURONEXT = 'EURONEXT'
+}
+
+// JPY value of one unit of each currency (JPY itself is always 1)
+export type FxRates = Record<Currency, number>;
+
+export enum InstrumentType {
+  STOCK = 'stock',
+  ETF = 'etf'
+}
+
+// A quote that failed validation and is waiting for manual review
+export interface UnverifiedQuote {
+  price: number;
+  previousPrice: number;
+  reason: string;
+  raw?: string; // Unparsed provider (model) output
+  receivedAt: number;
+}
+
+export enum TimeHorizon {
+  SHORT = 'short', // Up to 3 months
+  MEDIUM = 'medium', // Up to 1 year
+  LONG = 'long' // Up to 3 years
+}
+
+// Why an AI recommended the asset, recorded when it is added
+export interface PickRationale {
+  recommendation: string; // The AI's recommendation text
+  prompt?: string; // Prompt that produced the recommendation
+  recommendedAt: string; // YYYY-MM-DD
+  targetPrice?: number; // In the asset's currency
+  stopLoss?: number;
+  horizon?: TimeHorizon;
+}
+
+export type PickVerdict = 'target_hit' | 'stopped_out' | 'expired_gain' | 'expired_loss' | 'open';
+
+export interface PickOutcome {
+  verdict: PickVerdict;
+  priceAtRecommendation?: number;
+  returnSinceRecommendation?: number; // Fraction
+  targetHitOn?: string; // YYYY-MM-DD of the first close at or above the target
+  stopHitOn?: string;
+  horizonEndsOn?: string;
+}
+
 export interface StockAsset {
   id: string;
   ticker: string;
   companyName: string;
-  quantity: number;
-  avgPrice: number;
-  currentPrice: number; // Mocked for this demo or updated via AI
+  currency: Currency; // Trading currency; prices and transactions are in this currency
+  exchange?: Exchange;
+  instrumentType?: InstrumentType; // Defaults to STOCK
+  currentPrice: number; // Latest accepted quote; the purchase price while awaitingQuote
   source: AISource;
-  iconUrl?: string; // Generated by Nano Banana
   lastUpdated: number;
+  pendingQuote?: UnverifiedQuote; // Set while the latest quote is unverified
+  awaitingQuote?: boolean; // Set on new assets until their first market quote is accepted
+  pick?: PickRationale;
+  dividend?: DividendSchedule;
+  sector?: string; // Free text such as "Technology"; unset holdings are grouped as unclassified
+  country?: string; // Country of the issuer; defaults to the exchange's country
+}
+
+// A listing in the bundled symbol master
+export interface SymbolInfo {
+  ticker: string;
+  name: string;
+  exchange: Exchange;
+  instrumentType: InstrumentType;
+  sector: string;
+  country?: string; // Only when the issuer isn't from the exchange's country
+}
+
+// How the cached icon of a ticker was made
+export type StockIconSource = 'generated' | 'uploaded' | 'monogram';
+
+export interface StockIcon {
+  source: StockIconSource;
+  dataUrl?: string; // Downscaled image; absent for monograms, which are drawn from the ticker
+  updatedAt: number;
+  fullSize?: boolean; // Image moved over by a storage migration, downscaled once the app loads
+}
+
+// Keyed by normalized ticker
+export type IconCache = Record<string, StockIcon>;
+
+// Payments per year
+export type DividendFrequency = 1 | 2 | 4 | 12;
+
+// Expected regular dividend of an asset; paid dividends are DIVIDEND transactions
+export interface DividendSchedule {
+  perShare: number; // Per payment, before withholding, in the asset's currency
+  frequency: DividendFrequency;
+  exDate?: string; // Latest known ex-dividend date, YYYY-MM-DD
+  payDate?: string; // Latest known payment date; later ones are projected from it
+  withholdingRate?: number; // Foreign withholding, 0-1. Defaults by currency
+}
+
+// A payment projected from a DividendSchedule
+export interface UpcomingDividend {
+  assetId: string;
+  ticker: string;
+  portfolioName?: string;
+  currency: Currency;
+  exDate?: string;
+  payDate: string;
+  quantity: number;
+  gross: number;
+  withholding: number;
+  net: number;
+  // False only for the dates entered on the schedule itself
+  projected: boolean;
+}
+
+export enum TransactionType {
+  BUY = 'buy',
+  SELL = 'sell',
+  DIVIDEND = 'dividend',
+  SPLIT = 'split'
+}
+
+export interface Transaction {
+  id: string;
+  ticker: string;
+  type: TransactionType;
+  date: string; // Trade date, YYYY-MM-DD
+  quantity: number; // Shares for buy/sell, 0 for dividend/split
+  price: number; // Per-share price for buy/sell, 0 for dividend/split
+  fees?: number;
+  amount?: number; // Cash received for dividends
+  withholdingTax?: number; // Foreign tax withheld from a dividend, in the trade currency
+  perShare?: number; // Dividend per share before withholding
+  exDate?: string; // Ex-dividend date of a dividend; `date` is the payment date
+  splitRatio?: number; // New shares per old share for splits (e.g. 4 for a 4:1 split)
+  fxRate?: number; // JPY per unit of the trade currency applied by the broker (TTM), when known
+  createdAt: number;
+}
+
+// Transactions keyed by upper-case ticker
+export type Ledger = Record<string, Transaction[]>;
+
+export enum PortfolioKind {
+  TAXABLE = 'taxable',
+  NISA = 'nisa',
+  PAPER = 'paper', // Sandbox for trying AI picks, kept out of the all-accounts totals
+}
+
+// A named account. Each portfolio has its own assets, ledger and value history.
+export interface Portfolio {
+  id: string;
+  name: string;
+  kind: PortfolioKind;
+  createdAt: number;
+}
+
+// Per-portfolio data, keyed by portfolio id
+export type PortfolioMap<T> = Record<string, T>;
+
+// Where the JPY rate of a trade in the tax report came from:
+// recorded on the trade, looked up in FX history, or today's rate as a stand-in
+export type TaxFxSource = 'trade' | 'history' | 'current';
+
+interface TaxReportRowBase {
+  portfolioId: string;
+  portfolioName: string;
+  kind: PortfolioKind;
+  ticker: string;
+  date: string;
+  currency: Currency;
+  fxRate: number;
+  fxSource: TaxFxSource;
+}
+
+// One sale, with cost by the JPY moving average of the account's buys
+export interface TaxGainRow extends TaxReportRowBase {
+  quantity: number;
+  proceedsJpy: number; // After fees
+  costJpy: number;
+  costFxEstimated: boolean; // Some buys behind the cost had no rate for their date
+  gainJpy: number;
+}
+
+export interface TaxDividendRow extends TaxReportRowBase {
+  grossJpy: number; // Before foreign withholding
+  foreignTaxJpy: number;
+  netJpy: number; // Cash received
+}
+
+export interface TaxAccountTotals {
+  realizedGainJpy: number;
+  dividendGrossJpy: number;
+  foreignTaxJpy: number;
+  // Zero for NISA; before the foreign tax credit
+  estimatedTaxJpy: number;
+  foreignTaxCreditJpy: number;
+}
+
+export interface TaxReport {
+  year: number;
+  gains: TaxGainRow[];
+  dividends: TaxDividendRow[];
+  taxable: TaxAccountTotals;
+  nisa: TaxAccountTotals;
+  // Conversions behind the report that fell back to today's rate, including buys from earlier years
+  missingFx: { currency: Currency; date: string }[];
+}
+
+// A StockAsset with its position derived from the ledger
+export interface Holding extends StockAsset {
+  quantity: number;
+  avgPrice: number; // Moving average cost per share
+  fifoAvgPrice: number; // FIFO cost per share of the remaining lots
+  realizedGain: number; // Moving average method
+  fifoRealizedGain: number;
+  dividendIncome: number;
+  transactions: Transaction[];
+  // Set in the all-accounts view, where holdings of several portfolios are listed together
+  portfolioId?: string;
+  portfolioName?: string;
+}
+
+// Changes to a holding. `transactions` replaces all of the ticker's ledger entries.
+export interface HoldingEdit {
+  companyName?: string;
+  source?: AISource;
+  exchange?: Exchange;
+  currency?: Currency;
+  instrumentType?: InstrumentType;
+  sector?: string;
+  country?: string;
+  dividend?: DividendSchedule | null; // null removes the schedule
+  transactions?: Transaction[];
+}
+
+export interface SellOrder {
+  quantity: number;
+  price: number; // Per share, in the holding's currency
+  date: string; // YYYY-MM-DD
+  fees?: number;
+}
+
+export interface DividendOrder {
+  payDate: string; // YYYY-MM-DD
+  exDate?: string;
+  perShare: number; // Before withholding
+  quantity: number; // Shares held on the ex-date
+  withholdingTax?: number; // Total foreign tax withheld
+}
+
+// Listing details are only used when the ticker is not held yet
+export interface BuyOrder extends SellOrder {
+  companyName?: string;
+  currency?: Currency;
+  exchange?: Exchange;
+  source?: AISource;
+}
+
+// A change requested from the dashboard row actions or the chat
+export type HoldingAction =
+  | { type: 'buy'; ticker: string; order: BuyOrder }
+  | { type: 'edit'; ticker: string; changes: HoldingEdit }
+  | { type: 'sell'; ticker: string; order: SellOrder }
+  | { type: 'dividend'; ticker: string; dividend: DividendOrder }
+  | { type: 'delete'; ticker: string };
+
+// Trade fields that can be read from an imported CSV column
+export type ImportField = 'ticker' | 'companyName' | 'date' | 'side' | 'quantity' | 'price' | 'fees' | 'currency' | 'fxRate';
+
+// Column index for each field, relative to the header row
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type BrokerPresetId = 'sbi' | 'rakuten' | 'monex' | 'generic';
+
+// Trade fields extracted from a receipt screenshot
+export type ParsedTradeField = 'ticker' | 'companyName' | 'side' | 'tradeDate' | 'quantity' | 'price' | 'fees' | 'currency';
+
+// One trade read from a receipt screenshot or PDF statement
+export interface ParsedTrade {
+  ticker: string;
+  companyName?: string;
+  side?: TransactionType.BUY | TransactionType.SELL;
+  tradeDate?: string; // YYYY-MM-DD
+  quantity: number;
+  price: number; // Per share, in currency
+  fees?: number;
+  currency?: Currency;
+  // 0-1 per field, as judged by the model
+  confidence: Partial<Record<ParsedTradeField, number>>;
+  // Where the trade appears: [ymin, xmin, ymax, xmax] scaled to 0-1000, and the 1-based PDF page
+  box?: [number, number, number, number];
+  page?: number;
+}
+
+// Totals converted into baseCurrency at the current FX rates
+export enum AlertRuleType {
+  PRICE_ABOVE = 'price_above',
+  PRICE_BELOW = 'price_below',
+  PERCENT_MOVE = 'percent_move', // Move since the previous refresh, either direction
+  DRAWDOWN = 'drawdown' // Decline from the peak, portfolio-wide or for one asset
+}
+
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  ticker?: string; // Per-asset rule; global (all assets / whole portfolio) when omitted
+  threshold: number; // Price in the asset's currency, or a percentage
+  enabled: boolean;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ticker?: string;
+  title: string;
+  message: string;
+  triggeredAt: number;
+  read: boolean;
 }
 
 export interface PortfolioSummary {
+  baseCurrency: Currency;
   totalValue: number;
   totalCost: number;
   totalGain: number;
   gainPercentage: number;
+  realizedGain: number;
+}
+
+export type AllocationDimension = 'holding' | 'sector' | 'country' | 'source';
+
+// Share of the portfolio value in one group, in the base currency
+export interface AllocationSlice {
+  key: string;
+  label: string;
+  value: number;
+  weightPercent: number;
+}
+
+export interface ConcentrationWarning {
+  dimension: AllocationDimension;
+  label: string;
+  weightPercent: number;
+  limitPercent: number;
+}
+
+// Risk figures of the time-weighted daily returns; undefined when there is too little history
+export interface RiskMetrics {
+  from?: string; // YYYY-MM-DD of the first and last return used
+  to?: string;
+  observations: number; // Daily returns used
+  volatility?: number; // Annualized standard deviation, fraction
+  annualizedReturn?: number; // Fraction
+  maxDrawdown?: number; // Largest peak-to-trough fall, negative fraction
+  beta?: number; // Against the benchmark, over the days both have prices
+  sharpe?: number;
+  benchmark: string; // Benchmark symbol
+  riskFreeRate: number; // Annual, fraction
+}
+
+export interface PortfolioMetrics extends PortfolioSummary {
+  dividendIncome: number;
+  holdings: {
+    ticker: string;
+    value: number;
+    weightPercent: number;
+    gainPercent: number;
+    realizedGain: number;
+  }[];
+  allocation: Record<AllocationDimension, AllocationSlice[]>;
+  warnings: ConcentrationWarning[];
+  risk: RiskMetrics;
+}
+
+// A search result the model cited for a story
+export interface NewsCitation {
+  url: string;
+  title?: string; // Usually the site's domain
 }
 
 export interface NewsItem {
+  ticker?: string; // Holding the story is about; unset for market-wide news
   headline: string;
   summary: string;
-  url?: string;
+  url?: string; // First citation
   source?: string;
+  citations: NewsCitation[]; // Search results supporting this story's text
+  sentiment?: number; // -1 (negative) to 1 (positive) for the holding
+  publishedAt?: string; // YYYY-MM-DD
+}
+
+export type NewsSentiment = 'positive' | 'neutral' | 'negative';
+
+// How far back the news panel looks
+export type NewsWindow = '1D' | '1W';
+
+// Stories fetched for one ticker and window
+export interface NewsCacheEntry {
+  fetchedAt: number;
+  items: NewsItem[];
+}
+
+export interface NewsCache {
+  // Keyed by newsCacheKey(ticker, window)
+  entries: Record<string, NewsCacheEntry>;
+  // Ids of the stories that have been read
+  readIds: string[];
+}
+
+export type ChatToolName = 'add_holding' | 'update_holding' | 'sell_holding' | 'refresh_prices' | 'fetch_news' | 'compute_metrics';
+
+export interface ChatToolCall {
+  id?: string; // Set by the model when it makes several calls at once
+  name: ChatToolName;
+  args: Record<string, unknown>;
+}
+
+// A tool call in the chat transcript. Calls that change holdings wait as 'pending' until confirmed.
+export interface ChatToolCallRecord extends ChatToolCall {
+  key: string;
+  status: 'pending' | 'applied' | 'rejected' | 'failed' | 'done';
+  summary?: string; // What the call changes, shown on the confirmation card
+  response?: Record<string, unknown>; // Sent back to the model
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   isThinking?: boolean;
+  toolCall?: ChatToolCallRecord;
 }
 
+// Content in the Gemini chat history format
+export type ChatPart =
+  | { text: string }
+  | { functionCall: { id?: string; name: string; args: Record<string, unknown> } }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } };
+
+export interface ChatContent {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+// Streamed from the chat endpoint, one JSON object per line
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: ChatToolCall };
+
+// Daily portfolio snapshot, recorded on each successful market refresh
 export interface PortfolioHistoryItem {
-  date: string;
-  value: number;
-}
\ No newline at end of file
+  date: string; // YYYY-MM-DD
+  value: number; // USD
+  costBasis: number; // USD
+  fxRates?: FxRates; // Rates on that day, to show the snapshot in other currencies
+}
+
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  price: number;
+}
+
+// Daily closing (last refreshed) prices in the asset's currency, keyed by upper-case ticker
+export type PriceHistory = Record<string, PricePoint[]>;
+
+// Aggregated performance of the picks recommended by one AI, in the base currency
+export interface SourcePerformance {
+  source: AISource;
+  picks: number; // Tickers picked
+  openPositions: number;
+  invested: number; // Total cost of all buys
+  totalReturn: number; // Realized + unrealized gain + dividends
+  returnPercentage: number;
+  winRate: number; // Share of picks with a positive total return, 0-1
+  avgHoldingDays: number;
+  timeWeightedReturn: number; // Fraction, e.g. 0.12 for +12%
+}
+
+// Growth of 100 per AI source, keyed by AISource value
+export type EquityCurvePoint = { date: string } & Partial<Record<AISource, number>>;
+
+export type HistoryRange = '1W' | '1M' | '6M' | '1Y' | 'ALL';
+
+export type BenchmarkId = 'SP500' | 'NASDAQ100' | 'TOPIX';
+
+// An index tracked through a listed ETF, so every quote provider can price it
+export interface Benchmark {
+  id: BenchmarkId;
+  label: string;
+  instrument: Instrument;
+}
+
+// Time-weighted return of a portfolio (or one AI source's picks) against a benchmark over a period
+export interface BenchmarkComparison {
+  period: HistoryRange;
+  benchmark: BenchmarkId;
+  from?: string; // YYYY-MM-DD of the first and last day both have values; unset without overlap
+  to?: string;
+  portfolioReturn?: number; // Fraction
+  benchmarkReturn?: number;
+  excessReturn?: number; // Portfolio minus benchmark
+  beta?: number;
+  alpha?: number; // Jensen's alpha over the period, fraction
+}
+
+export type MarketDataProviderId = 'gemini' | 'file' | 'mock';
+
+// The listing a quote is requested for
+export type Instrument = Pick<StockAsset, 'ticker' | 'currency' | 'exchange'>;
+
+export interface MarketQuotes {
+  // Keyed by ticker, in each instrument's currency. Values are passed on as received and checked by validateQuote.
+  prices: Record<string, unknown>;
+  fxRates?: Partial<FxRates>;
+  raw?: string; // Unparsed response, kept for reviewing AI-sourced quotes
+}
+
+/**
+ * Source of market prices. Gemini (search grounding) is one implementation;
+ * file and mock providers allow working without network access.
+ */
+export interface MarketDataProvider {
+  readonly id: MarketDataProviderId;
+  // Latest prices for the instruments and the FX rates in one round trip
+  getQuotes(instruments: Instrument[]): Promise<MarketQuotes | null>;
+  getFxRates(): Promise<Partial<FxRates> | null>;
+  // Daily prices between two YYYY-MM-DD dates (inclusive), oldest first
+  getHistory(instrument: Instrument, from: string, to: string): Promise<PricePoint[]>;
+}
+// Persisted bookkeeping for scheduled market refreshes
+export interface RefreshState {
+  lastAttemptAt?: number;
+  lastSuccessAt?: number;
+  consecutiveFailures: number;
+  // Requests made on budgetDate (YYYY-MM-DD); the count resets on a new day
+  budgetDate: string;
+  requestsToday: number;
+}
+
+// Body of POST /api/prices responses (null when the model output could not be parsed)
+export interface MarketPriceUpdate {
+  prices?: Record<string, unknown>; // As the model wrote them, for validateQuote to check
+  fxRates?: Partial<FxRates>;
+  raw: string;
+}
+
+export interface PortfolioChatRequest {
+  history: ChatContent[];
+  message: string | ChatPart[]; // Tool results are sent back as functionResponse parts
+  portfolioContext: string;
+  fxRates: FxRates;
+  baseCurrency: Currency;
+  portfolioName: string; // Selected portfolio, or the all-accounts view
+}
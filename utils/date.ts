@@ -0,0 +1,25 @@
+/**
+ * Local-time calendar date as YYYY-MM-DD.
+ * Used as the key for trade dates and daily snapshots, so it must not shift with UTC.
+ */
+export const toDateKey = (date: Date | number = new Date()): string => {
+  const d = new Date(date);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Every calendar date from `from` to `to` inclusive
+export const eachDateKey = (from: string, to: string): string[] => {
+  const keys: string[] = [];
+  const end = parseDateKey(to);
+  for (const d = parseDateKey(from); d <= end; d.setDate(d.getDate() + 1)) {
+    keys.push(toDateKey(d));
+  }
+  return keys;
+};
@@ -0,0 +1,24 @@
+// Saves generated content as a file through a temporary link
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Opens a copy of the element with the page's styles in a new window and shows
+ * the print dialog, where it can also be saved as PDF. Returns false when popups are blocked.
+ */
+export const printElement = (element: HTMLElement, title: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  const styles = [...document.querySelectorAll('style, link[rel="stylesheet"]')].map(node => node.outerHTML).join('');
+  win.document.write(`<!DOCTYPE html><html lang="ja"><head><meta charset="utf-8"><title>${title}</title>${styles}</head><body>${element.outerHTML}</body></html>`);
+  win.document.close();
+  win.addEventListener('load', () => win.print());
+  return true;
+};
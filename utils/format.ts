@@ -0,0 +1,7 @@
+import { Currency } from '../types';
+
+export const formatUSD = (num: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(num);
+export const formatJPY = (num: number) => new Intl.NumberFormat('ja-JP', { style: 'currency', currency: 'JPY' }).format(num);
+
+export const formatMoney = (num: number, currency: Currency) =>
+  new Intl.NumberFormat(currency === Currency.JPY ? 'ja-JP' : 'en-US', { style: 'currency', currency }).format(num);
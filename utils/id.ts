@@ -0,0 +1,7 @@
+let counter = 0;
+
+// Unique id for records that can be created several per millisecond (transactions, imports).
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${(counter++).toString(36)}`;
@@ -0,0 +1,14 @@
+export const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Sample covariance of two series of the same length
+export const covariance = (a: number[], b: number[]) => {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+};
+
+// Sensitivity of the returns to the benchmark's; undefined when the benchmark never moved
+export const betaOf = (returns: number[], benchmarkReturns: number[]) => {
+  const variance = covariance(benchmarkReturns, benchmarkReturns);
+  return variance > 0 ? covariance(returns, benchmarkReturns) / variance : undefined;
+};
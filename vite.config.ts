@@ -1,5 +1,6 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiDevServer } from './server/devServer';
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -7,10 +8,21 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   
   return {
-    plugins: [react()],
+    // APIキーはサーバー側 (api/) でのみ使用し、クライアントのバンドルには含めない
+    plugins: [react(), apiDevServer(env)],
     define: {
-      // コード内の process.env.API_KEY をビルド時に置換する
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // APIエンドポイントのベースURL (既定は同一オリジンの /api)
+      'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+      // デモモード (サンプル口座と生成した株価を使う)
+      'process.env.DEMO_MODE': JSON.stringify(env.DEMO_MODE),
+      // 市場データの取得元 (gemini | file | mock) とファイルプロバイダーのパス
+      'process.env.MARKET_DATA_PROVIDER': JSON.stringify(env.MARKET_DATA_PROVIDER),
+      'process.env.MARKET_DATA_FILE': JSON.stringify(env.MARKET_DATA_FILE),
+      // 自動反映する株価の1日あたり最大変動率 (%)
+      'process.env.MAX_DAILY_MOVE_PERCENT': JSON.stringify(env.MAX_DAILY_MOVE_PERCENT),
+      // 自動更新の間隔 (分, 0で無効) と1日あたりの市場データ取得回数の上限
+      'process.env.AUTO_REFRESH_MINUTES': JSON.stringify(env.AUTO_REFRESH_MINUTES),
+      'process.env.MAX_DAILY_REFRESHES': JSON.stringify(env.MAX_DAILY_REFRESHES),
     },
   };
 });
\ No newline at end of file